@@ -1,6 +1,9 @@
 import * as vscode from 'vscode';
 import { SalesforceOrgManager } from './salesforce/orgManager';
 import { DataTransferService } from './salesforce/dataTransferService';
+import { IdMappingStore } from './salesforce/idMappingStore';
+import { CheckpointStore } from './salesforce/checkpointStore';
+import { TransferJournalStore } from './salesforce/transferJournal';
 import { SalesforceOrgProvider } from './views/orgTreeProvider';
 import { DataTransferPanel } from './webview/dataTransferPanel';
 
@@ -9,7 +12,10 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Initialize services
     const orgManager = new SalesforceOrgManager();
-    const dataTransferService = new DataTransferService();
+    const idMappingStore = new IdMappingStore(context.workspaceState);
+    const checkpointStore = new CheckpointStore(context.workspaceState);
+    const journalStore = new TransferJournalStore(context.workspaceState);
+    const dataTransferService = new DataTransferService(idMappingStore, checkpointStore, journalStore);
 
     // Create tree view provider
     const orgProvider = new SalesforceOrgProvider(orgManager);
@@ -72,12 +78,81 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
 
+    const showIdMappings = vscode.commands.registerCommand('sf-data-transfer.showIdMappings', async () => {
+        const mappings = idMappingStore.list();
+        if (mappings.length === 0) {
+            vscode.window.showInformationMessage('No record ID mappings have been stored yet.');
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            mappings.map(mapping => ({
+                label: mapping.objectType,
+                description: `${mapping.sourceLabel} → ${mapping.targetLabel}`,
+                detail: `${mapping.count} mapped records`,
+                mapping
+            })),
+            { placeHolder: 'Select an ID mapping to inspect' }
+        );
+
+        if (selected) {
+            const ids = idMappingStore.getObjectMapping(selected.mapping.key, selected.mapping.objectType);
+            const document = await vscode.workspace.openTextDocument({
+                language: 'json',
+                content: JSON.stringify({
+                    sourceOrg: selected.mapping.sourceLabel,
+                    targetOrg: selected.mapping.targetLabel,
+                    objectType: selected.mapping.objectType,
+                    sourceToTargetIds: ids
+                }, null, 2)
+            });
+            await vscode.window.showTextDocument(document);
+        }
+    });
+
+    const clearIdMappings = vscode.commands.registerCommand('sf-data-transfer.clearIdMappings', async () => {
+        const mappings = idMappingStore.list();
+        if (mappings.length === 0) {
+            vscode.window.showInformationMessage('No record ID mappings have been stored yet.');
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            mappings.map(mapping => ({
+                label: mapping.objectType,
+                description: `${mapping.sourceLabel} → ${mapping.targetLabel}`,
+                detail: `${mapping.count} mapped records`,
+                mapping
+            })),
+            { placeHolder: 'Select ID mappings to clear', canPickMany: true }
+        );
+
+        if (!selected || selected.length === 0) {
+            return;
+        }
+
+        const confirmation = await vscode.window.showWarningMessage(
+            `Clear ${selected.length} ID mapping(s)? Future insert-mode transfers will create these parent records again.`,
+            { modal: true },
+            'Clear'
+        );
+
+        if (confirmation === 'Clear') {
+            for (const item of selected) {
+                await idMappingStore.clear(item.mapping.key, item.mapping.objectType);
+            }
+            vscode.window.showInformationMessage(`Cleared ${selected.length} ID mapping(s).`);
+        }
+    });
+
     // Add all commands to subscriptions
     context.subscriptions.push(
         openTransferPanel,
         refreshOrgs,
         selectSourceOrg,
-        selectTargetOrg
+        selectTargetOrg,
+        showIdMappings,
+        clearIdMappings
     );
 
     // Initialize orgs on activation
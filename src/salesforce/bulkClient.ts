@@ -0,0 +1,261 @@
+import * as vscode from 'vscode';
+import { SalesforceRestClient } from './restClient';
+import { formatCsv, formatCsvValue, parseCsvRecords } from '../utils/csv';
+
+export type BulkIngestOperation = 'insert' | 'upsert' | 'delete';
+
+/**
+ * Per-record outcome of an ingest job, shaped like an sObject Collections result so
+ * callers can handle REST and Bulk writes the same way.
+ */
+export interface BulkRecordResult {
+    id?: string;
+    success: boolean;
+    created?: boolean;
+    errors: { message: string; statusCode?: string }[];
+}
+
+const TERMINAL_JOB_STATES = ['JobComplete', 'Failed', 'Aborted'];
+// Bulk CSV treats empty cells as "leave unchanged"; this value clears a field
+const BULK_NULL = '#N/A';
+// Jobs still open after this long are aborted
+const MAX_JOB_WAIT_MS = 60 * 60 * 1000;
+
+// Salesforce Bulk API 2.0 client (query and ingest jobs)
+export class SalesforceBulkClient {
+    private pollIntervalMs: number = 2000;
+    private maxPollIntervalMs: number = 10000;
+    private cancellationToken: vscode.CancellationToken | undefined;
+
+    constructor(private rest: SalesforceRestClient) {}
+
+    /**
+     * Stop waiting for jobs once the token is cancelled; the job being waited for is aborted
+     */
+    setCancellationToken(token: vscode.CancellationToken | undefined): void {
+        this.cancellationToken = token;
+    }
+
+    /**
+     * Extract records with a Bulk API 2.0 query job. Values come back as strings;
+     * empty cells are returned as null.
+     */
+    async query(soql: string): Promise<any[]> {
+        const job = await this.json('/jobs/query', {
+            method: 'POST',
+            body: JSON.stringify({ operation: 'query', query: soql })
+        });
+
+        const finished = await this.waitForJob(`/jobs/query/${job.id}`);
+        if (finished.state !== 'JobComplete') {
+            throw new Error(`Bulk query job ${job.id} ${finished.state}: ${finished.errorMessage || finished.abortReason || 'no details'}`);
+        }
+
+        const records: any[] = [];
+        let locator: string | null = null;
+        do {
+            const locatorParam: string = locator ? `&locator=${encodeURIComponent(locator)}` : '';
+            const response = await this.rest.request(`/jobs/query/${job.id}/results?maxRecords=50000${locatorParam}`, {
+                headers: { 'Accept': 'text/csv' }
+            });
+            const csv = await response.text();
+            for (const row of parseCsvRecords(csv)) {
+                records.push(this.toRecord(row));
+            }
+
+            const nextLocator = response.headers.get('Sforce-Locator');
+            locator = nextLocator && nextLocator !== 'null' ? nextLocator : null;
+        } while (locator);
+
+        return records;
+    }
+
+    /**
+     * Load records with a Bulk API 2.0 ingest job and return one result per input record,
+     * in input order. Results are built from the successful, failed and unprocessed CSVs.
+     */
+    async ingest(sobjectType: string, operation: BulkIngestOperation, records: any[], externalIdField?: string): Promise<BulkRecordResult[]> {
+        if (records.length === 0) { return []; }
+
+        records = records.map(record => this.flattenRecord(record));
+        const columns = this.collectColumns(records);
+        const jobRequest: any = {
+            object: sobjectType,
+            operation,
+            contentType: 'CSV',
+            lineEnding: 'LF'
+        };
+        if (operation === 'upsert') {
+            jobRequest.externalIdFieldName = externalIdField;
+        }
+
+        const job = await this.json('/jobs/ingest', {
+            method: 'POST',
+            body: JSON.stringify(jobRequest)
+        });
+
+        try {
+            await this.rest.request(`/jobs/ingest/${job.id}/batches`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'text/csv' },
+                body: formatCsv(columns, records)
+            });
+
+            await this.json(`/jobs/ingest/${job.id}`, {
+                method: 'PATCH',
+                body: JSON.stringify({ state: 'UploadComplete' })
+            });
+        } catch (error) {
+            // Don't leave an open job behind in the target org
+            await this.json(`/jobs/ingest/${job.id}`, {
+                method: 'PATCH',
+                body: JSON.stringify({ state: 'Aborted' })
+            }).catch(() => undefined);
+            throw error;
+        }
+
+        // Aborted jobs keep the rows they processed before the abort, so their results are read too
+        const finished = await this.waitForJob(`/jobs/ingest/${job.id}`);
+        const [successful, failed, unprocessed] = await Promise.all([
+            this.csv(`/jobs/ingest/${job.id}/successfulResults/`),
+            this.csv(`/jobs/ingest/${job.id}/failedResults/`),
+            this.csv(`/jobs/ingest/${job.id}/unprocessedrecords/`)
+        ]);
+
+        return this.correlateResults(columns, records, successful, failed, unprocessed, finished);
+    }
+
+    /**
+     * Poll a job until it finishes. A job still open when the transfer is stopped or the deadline
+     * passes is aborted and its final status returned, with `abortReason` saying why.
+     */
+    private async waitForJob(endpoint: string): Promise<any> {
+        const deadline = Date.now() + MAX_JOB_WAIT_MS;
+        let interval = this.pollIntervalMs;
+        while (true) {
+            const status = await this.json(endpoint);
+            if (TERMINAL_JOB_STATES.includes(status.state)) {
+                return status;
+            }
+
+            const cancelled = !!this.cancellationToken?.isCancellationRequested;
+            if (cancelled || Date.now() >= deadline) {
+                await this.json(endpoint, {
+                    method: 'PATCH',
+                    body: JSON.stringify({ state: 'Aborted' })
+                }).catch(() => undefined);
+                const abortReason = cancelled
+                    ? 'the transfer was stopped'
+                    : `still ${status.state} after ${MAX_JOB_WAIT_MS / 60000} minutes`;
+                return { ...await this.json(endpoint), abortReason };
+            }
+            await new Promise(resolve => setTimeout(resolve, interval));
+            interval = Math.min(interval * 1.5, this.maxPollIntervalMs);
+        }
+    }
+
+    /**
+     * Bulk result files are not guaranteed to keep upload order, so results are matched
+     * back to input records by the column values Salesforce echoes for every row.
+     */
+    private correlateResults(columns: string[], records: any[], successful: any[], failed: any[], unprocessed: any[], job: any): BulkRecordResult[] {
+        const rowKey = (row: any) => columns.map(column => formatCsvValue(row[column])).join(',');
+        const pendingByKey = new Map<string, number[]>();
+        records.forEach((record, index) => {
+            const key = rowKey(record);
+            pendingByKey.set(key, [...(pendingByKey.get(key) || []), index]);
+        });
+
+        const results: BulkRecordResult[] = new Array(records.length);
+        const assign = (row: any, result: BulkRecordResult) => {
+            const index = pendingByKey.get(rowKey(row))?.shift();
+            if (index !== undefined) {
+                results[index] = result;
+            }
+        };
+
+        for (const row of successful) {
+            assign(row, { id: row.sf__Id, success: true, created: row.sf__Created === 'true', errors: [] });
+        }
+        for (const row of failed) {
+            const [statusCode, ...message] = String(row.sf__Error || '').split(':');
+            assign(row, {
+                success: false,
+                errors: [{ statusCode, message: message.join(':').trim() || statusCode || 'Unknown error' }]
+            });
+        }
+        for (const row of unprocessed) {
+            assign(row, {
+                success: false,
+                errors: [{ message: `Record not processed (job ${job.state}${job.errorMessage || job.abortReason ? `: ${job.errorMessage || job.abortReason}` : ''})` }]
+            });
+        }
+
+        for (let i = 0; i < results.length; i++) {
+            if (!results[i]) {
+                results[i] = { success: false, errors: [{ message: 'No result returned by Bulk API for this record' }] };
+            }
+        }
+        return results;
+    }
+
+    /**
+     * Turn relationship references to a parent's external ID ({ Account: { Ext__c: 'A1' } })
+     * into the `Account.Ext__c` column the Bulk API expects, and nulls into #N/A
+     */
+    private flattenRecord(record: any): any {
+        const flat: any = {};
+        for (const [key, value] of Object.entries(record)) {
+            if (value && typeof value === 'object' && key !== 'attributes') {
+                for (const [field, fieldValue] of Object.entries(value)) {
+                    if (field !== 'attributes') {
+                        flat[`${key}.${field}`] = fieldValue;
+                    }
+                }
+            } else {
+                flat[key] = value === null ? BULK_NULL : value;
+            }
+        }
+        return flat;
+    }
+
+    private collectColumns(records: any[]): string[] {
+        const columns = new Set<string>();
+        for (const record of records) {
+            for (const [key, value] of Object.entries(record)) {
+                // Anything still nested after flattening can't be expressed as a CSV column
+                if (key !== 'attributes' && (value === null || typeof value !== 'object')) {
+                    columns.add(key);
+                }
+            }
+        }
+        return Array.from(columns);
+    }
+
+    /**
+     * Relationship columns (Owner.Type) are nested the way the REST API returns them,
+     * so they are read and stripped from payloads like REST query results
+     */
+    private toRecord(row: Record<string, string>): any {
+        const record: any = {};
+        for (const [key, value] of Object.entries(row)) {
+            const path = key.split('.');
+            let target = record;
+            for (const name of path.slice(0, -1)) {
+                target = target[name] || (target[name] = {});
+            }
+            target[path[path.length - 1]] = value === '' ? null : value;
+        }
+        return record;
+    }
+
+    private async json(endpoint: string, options: any = {}): Promise<any> {
+        const response = await this.rest.request(endpoint, options);
+        return response.json();
+    }
+
+    private async csv(endpoint: string): Promise<any[]> {
+        const response = await this.rest.request(endpoint, { headers: { 'Accept': 'text/csv' } });
+        return parseCsvRecords(await response.text());
+    }
+}
@@ -0,0 +1,53 @@
+/**
+ * A child relationship followed down from a transferred parent: records of `childObject`
+ * whose `field` points at a parent record copied by the same transfer
+ */
+export interface CascadeRelationship {
+    parentObject: string;
+    childObject: string;
+    field: string;
+    relationshipName: string;
+}
+
+export interface CascadeOptions {
+    relationships: CascadeRelationship[];
+    // Levels below the selected objects to follow (1 = their direct children)
+    maxDepth: number;
+}
+
+export const DEFAULT_CASCADE_DEPTH = 3;
+
+/**
+ * Relationships reachable from the selected objects within the depth limit, in the order they are reached
+ */
+export function getReachableRelationships(rootObjects: string[], cascade: CascadeOptions | undefined): CascadeRelationship[] {
+    if (!cascade || cascade.relationships.length === 0) { return []; }
+
+    const reachable: CascadeRelationship[] = [];
+    const reached = new Set(rootObjects);
+    let level = new Set(rootObjects);
+    for (let depth = 1; depth <= (cascade.maxDepth || DEFAULT_CASCADE_DEPTH) && level.size > 0; depth++) {
+        const next = new Set<string>();
+        for (const relationship of cascade.relationships) {
+            if (level.has(relationship.parentObject) && !reachable.includes(relationship)) {
+                reachable.push(relationship);
+                if (!reached.has(relationship.childObject)) {
+                    reached.add(relationship.childObject);
+                    next.add(relationship.childObject);
+                }
+            }
+        }
+        level = next;
+    }
+    return reachable;
+}
+
+/**
+ * Objects that are only transferred because of a cascade (not selected themselves)
+ */
+export function getCascadeObjects(rootObjects: string[], cascade: CascadeOptions | undefined): string[] {
+    const objects = getReachableRelationships(rootObjects, cascade)
+        .map(relationship => relationship.childObject)
+        .filter(objectType => !rootObjects.includes(objectType));
+    return Array.from(new Set(objects));
+}
@@ -0,0 +1,66 @@
+import * as vscode from 'vscode';
+import { DataTransferOptions } from './dataTransferService';
+import { SalesforceOrg } from './orgManager';
+import { DeferredLookup } from './transferPlanner';
+
+const KEY_PREFIX = 'sf-data-transfer.checkpoint:';
+
+/**
+ * Progress of an unfinished transfer, written as batches are committed
+ */
+export interface TransferCheckpoint {
+    sourceUsername: string;
+    targetUsername: string;
+    sourceLabel: string;
+    targetLabel: string;
+    startedAt: string;
+    updatedAt: string;
+    // Transfer options without the org connections (tokens are never persisted)
+    options: Omit<DataTransferOptions, 'sourceOrg' | 'targetOrg'>;
+    // Objects that were fully processed
+    completedObjects: string[];
+    // Object being processed when the checkpoint was written
+    currentObject?: string;
+    // Source records of currentObject already processed (query cursor) and the last one's Id
+    processedCount: number;
+    lastSourceId?: string;
+    // Source -> target Ids written by this transfer so far (objectType -> source Id -> target Id)
+    idMap: Record<string, Record<string, string>>;
+    // Self/circular lookups still waiting for the update pass
+    deferredLookups?: DeferredLookup[];
+    // Journal of the records this transfer created and updated, continued when it resumes
+    journalId?: string;
+    // Running totals so a resumed transfer reports the whole run
+    totals: {
+        recordsTransferred: number;
+        recordsCreated: number;
+        recordsUpdated: number;
+        recordsSucceededAfterRetry: number;
+        writtenByObject: Record<string, number>;
+    };
+}
+
+function pairKey(sourceOrg: Pick<SalesforceOrg, 'username'>, targetOrg: Pick<SalesforceOrg, 'username'>): string {
+    return `${KEY_PREFIX}${sourceOrg.username}:${targetOrg.username}`;
+}
+
+/**
+ * Keeps at most one unfinished transfer checkpoint per source/target org pair in workspace state
+ */
+export class CheckpointStore {
+    constructor(private storage: vscode.Memento) {}
+
+    get(sourceOrg: Pick<SalesforceOrg, 'username'>, targetOrg: Pick<SalesforceOrg, 'username'>): TransferCheckpoint | undefined {
+        return this.storage.get<TransferCheckpoint>(pairKey(sourceOrg, targetOrg));
+    }
+
+    async save(checkpoint: TransferCheckpoint): Promise<void> {
+        checkpoint.updatedAt = new Date().toISOString();
+        const key = pairKey({ username: checkpoint.sourceUsername }, { username: checkpoint.targetUsername });
+        await this.storage.update(key, checkpoint);
+    }
+
+    async clear(sourceOrg: Pick<SalesforceOrg, 'username'>, targetOrg: Pick<SalesforceOrg, 'username'>): Promise<void> {
+        await this.storage.update(pairKey(sourceOrg, targetOrg), undefined);
+    }
+}
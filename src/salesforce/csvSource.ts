@@ -0,0 +1,259 @@
+import { FieldInfo, suggestFieldMappings } from './fieldMapping';
+import { CsvRow } from '../utils/csv';
+
+export type CsvDateFormat = 'iso' | 'mdy' | 'dmy';
+
+export interface CsvConversionOptions {
+    // How dates are written in the file: 2024-03-31, 03/31/2024 or 31/03/2024
+    dateFormat: CsvDateFormat;
+    // Decimal separator of numbers; the other one of '.' and ',' is read as a thousands separator
+    decimalSeparator: '.' | ',';
+    // Blank cells clear the field (null; the Bulk client writes it as #N/A) instead of leaving it out of the payload
+    blankAsNull: boolean;
+    trimWhitespace: boolean;
+}
+
+export const DEFAULT_CSV_CONVERSION: CsvConversionOptions = {
+    dateFormat: 'iso',
+    decimalSeparator: '.',
+    blankAsNull: false,
+    trimWhitespace: true
+};
+
+/**
+ * Where one CSV column is loaded: a field of the target object. A lookup can hold the parent's
+ * value for `externalIdField` instead of a record Id; Salesforce resolves the parent on write.
+ */
+export interface CsvColumnMapping {
+    field: string;
+    externalIdField?: string;
+}
+
+export interface CsvSourceOptions {
+    // Absolute path of the file
+    filePath: string;
+    // Shown as the transfer's source (the file name)
+    label: string;
+    objectType: string;
+    // Column -> mapping; unmapped columns are not loaded
+    columns: Record<string, CsvColumnMapping>;
+    conversion: CsvConversionOptions;
+}
+
+/**
+ * A writable field of the target object as offered for column mapping
+ */
+export interface CsvTargetField {
+    name: string;
+    label: string;
+    type: string;
+    required: boolean;
+    externalId: boolean;
+    // Single-object lookups: the relationship, the parent and its external ID fields
+    relationshipName?: string;
+    parentObject?: string;
+    parentExternalIdFields?: string[];
+}
+
+export interface CsvMappingSuggestion {
+    objectType: string;
+    fields: CsvTargetField[];
+    // Column -> suggested mapping, null when no field is similar
+    columns: Record<string, CsvColumnMapping | null>;
+}
+
+export interface CsvRecord {
+    // Line of the file the row starts on (the header is line 1)
+    row: number;
+    payload: any;
+}
+
+export interface CsvRowError {
+    row: number;
+    column: string;
+    message: string;
+}
+
+const DATE_FORMAT_LABELS: Record<CsvDateFormat, string> = { iso: 'YYYY-MM-DD', mdy: 'MM/DD/YYYY', dmy: 'DD/MM/YYYY' };
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+function parseNumber(text: string, options: CsvConversionOptions): number | undefined {
+    const thousands = options.decimalSeparator === ',' ? '.' : ',';
+    const normalized = text
+        .replace(/\s/g, '')
+        .replace(/^[^\d+\-.,]+|%$/g, '') // currency symbols, percent sign
+        .split(thousands).join('')
+        .replace(options.decimalSeparator, '.');
+    return /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(normalized) ? Number(normalized) : undefined;
+}
+
+// Calendar date at the start of `text` and whatever follows it (a time for datetimes)
+function parseDate(text: string, format: CsvDateFormat): { year: number; month: number; day: number; rest: string } | undefined {
+    let parts: number[];
+    let rest: string;
+    if (format === 'iso') {
+        const match = /^(\d{4})-(\d{1,2})-(\d{1,2})(?!\d)(.*)$/.exec(text);
+        if (!match) { return undefined; }
+        parts = [Number(match[1]), Number(match[2]), Number(match[3])];
+        rest = match[4];
+    } else {
+        const match = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})(?!\d)(.*)$/.exec(text);
+        if (!match) { return undefined; }
+        const [first, second, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+        const fullYear = match[3].length === 2 ? (year < 50 ? 2000 + year : 1900 + year) : year;
+        parts = format === 'mdy' ? [fullYear, first, second] : [fullYear, second, first];
+        rest = match[4];
+    }
+
+    const [year, month, day] = parts;
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+        return undefined;
+    }
+    return { year, month, day, rest };
+}
+
+function parseTime(text: string): { hours: number; minutes: number; seconds: number } | undefined {
+    const match = /^(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?\s*(am|pm)?$/i.exec(text.trim());
+    if (!match) { return undefined; }
+
+    let hours = Number(match[1]);
+    const meridiem = match[4]?.toLowerCase();
+    if (meridiem === 'pm' && hours < 12) { hours += 12; }
+    if (meridiem === 'am' && hours === 12) { hours = 0; }
+    const minutes = Number(match[2]);
+    const seconds = Number(match[3] || 0);
+    return hours < 24 && minutes < 60 && seconds < 60 ? { hours, minutes, seconds } : undefined;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Convert one cell to the value Salesforce expects for a field type. Datetimes without a
+ * time zone are read as local time.
+ */
+export function convertCsvValue(text: string, fieldType: string, options: CsvConversionOptions): { value?: any; error?: string } {
+    switch (fieldType) {
+        case 'boolean': {
+            const lower = text.toLowerCase();
+            if (TRUE_VALUES.includes(lower)) { return { value: true }; }
+            if (FALSE_VALUES.includes(lower)) { return { value: false }; }
+            return { error: `"${text}" is not a checkbox value (true/false, yes/no, 1/0)` };
+        }
+        case 'int':
+        case 'long': {
+            const value = parseNumber(text, options);
+            return value !== undefined && Number.isInteger(value) ? { value } : { error: `"${text}" is not a whole number` };
+        }
+        case 'double':
+        case 'currency':
+        case 'percent': {
+            const value = parseNumber(text, options);
+            return value !== undefined ? { value } : { error: `"${text}" is not a number` };
+        }
+        case 'date': {
+            const date = parseDate(text, options.dateFormat);
+            return date && !date.rest.trim()
+                ? { value: `${date.year}-${pad(date.month)}-${pad(date.day)}` }
+                : { error: `"${text}" is not a ${DATE_FORMAT_LABELS[options.dateFormat]} date` };
+        }
+        case 'datetime': {
+            const date = parseDate(text, options.dateFormat);
+            if (!date) { return { error: `"${text}" is not a ${DATE_FORMAT_LABELS[options.dateFormat]} date/time` }; }
+            if (options.dateFormat === 'iso' && date.rest.trim()) {
+                // ISO timestamps may carry their own offset
+                const timestamp = Date.parse(text);
+                return isNaN(timestamp) ? { error: `"${text}" is not a ${DATE_FORMAT_LABELS.iso} date/time` } : { value: new Date(timestamp).toISOString() };
+            }
+            const time = date.rest.trim() ? parseTime(date.rest.replace(/^T/, '')) : { hours: 0, minutes: 0, seconds: 0 };
+            if (!time) { return { error: `"${text}" has an invalid time` }; }
+            return { value: new Date(date.year, date.month - 1, date.day, time.hours, time.minutes, time.seconds).toISOString() };
+        }
+        case 'time': {
+            const time = parseTime(text);
+            return time ? { value: `${pad(time.hours)}:${pad(time.minutes)}:${pad(time.seconds)}.000Z` } : { error: `"${text}" is not a time` };
+        }
+        case 'multipicklist':
+            return { value: text.split(/[;,]/).map(value => value.trim()).filter(Boolean).join(';') };
+        default:
+            return { value: text };
+    }
+}
+
+/**
+ * Suggest a mapping for every column: Data Loader style `Relationship.ExternalId__c` headers become
+ * external ID lookups, other columns are matched to fields by API name and label
+ */
+export function suggestCsvColumnMappings(columns: string[], fields: CsvTargetField[]): Record<string, CsvColumnMapping | null> {
+    const suggestions: Record<string, CsvColumnMapping | null> = {};
+    const plainColumns: FieldInfo[] = [];
+    for (const column of columns) {
+        const [relationship, externalIdField] = column.split('.');
+        const lookup = externalIdField && fields.find(field => field.relationshipName?.toLowerCase() === relationship.toLowerCase());
+        const parentField = lookup ? lookup.parentExternalIdFields?.find(name => name.toLowerCase() === externalIdField.toLowerCase()) : undefined;
+        if (lookup && parentField) {
+            suggestions[column] = { field: lookup.name, externalIdField: parentField };
+        } else {
+            plainColumns.push({ name: column, label: column });
+        }
+    }
+
+    const matches = suggestFieldMappings(plainColumns, fields.map(field => ({ name: field.name, label: field.label })));
+    for (const [column, field] of Object.entries(matches)) {
+        suggestions[column] = field ? { field } : null;
+    }
+    return suggestions;
+}
+
+/**
+ * Build target payloads from parsed CSV rows. Rows with a value that can't be converted are
+ * reported and left out; every other row becomes one record.
+ */
+export function buildCsvRecords(rows: CsvRow[], source: CsvSourceOptions, fields: any[]): { records: CsvRecord[]; errors: CsvRowError[] } {
+    const fieldsByName = new Map(fields.map(field => [String(field.name).toLowerCase(), field]));
+    const records: CsvRecord[] = [];
+    const errors: CsvRowError[] = [];
+
+    for (const { line: rowNumber, record: row } of rows) {
+        const payload: any = {};
+        const rowErrors: CsvRowError[] = [];
+
+        for (const [column, mapping] of Object.entries(source.columns)) {
+            if (!mapping?.field) { continue; }
+            const field = fieldsByName.get(mapping.field.toLowerCase());
+            if (!field) {
+                rowErrors.push({ row: rowNumber, column, message: `field ${mapping.field} does not exist on ${source.objectType}` });
+                continue;
+            }
+
+            const text = source.conversion.trimWhitespace ? (row[column] ?? '').trim() : (row[column] ?? '');
+            if (text === '') {
+                if (source.conversion.blankAsNull) {
+                    payload[field.name] = null;
+                }
+                continue;
+            }
+
+            if (mapping.externalIdField && field.type === 'reference' && field.relationshipName) {
+                payload[field.relationshipName] = { attributes: { type: field.referenceTo[0] }, [mapping.externalIdField]: text };
+                continue;
+            }
+
+            const converted = convertCsvValue(text, field.type, source.conversion);
+            if (converted.error) {
+                rowErrors.push({ row: rowNumber, column, message: converted.error });
+            } else {
+                payload[field.name] = converted.value;
+            }
+        }
+
+        if (rowErrors.length > 0) {
+            errors.push(...rowErrors);
+        } else {
+            records.push({ row: rowNumber, payload });
+        }
+    }
+
+    return { records, errors };
+}
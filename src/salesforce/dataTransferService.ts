@@ -1,86 +1,55 @@
 import * as vscode from 'vscode';
 import { SalesforceOrg } from './orgManager';
-
-// Salesforce REST API client
-class SalesforceRestClient {
-    private instanceUrl: string;
-    private accessToken: string;
-    private apiVersion: string = '59.0';
-
-    constructor(instanceUrl: string, accessToken: string) {
-        this.instanceUrl = instanceUrl.endsWith('/') ? instanceUrl.slice(0, -1) : instanceUrl;
-        this.accessToken = accessToken;
-    }
-
-    private async makeRequest(endpoint: string, options: any = {}): Promise<any> {
-        const url = `${this.instanceUrl}/services/data/v${this.apiVersion}${endpoint}`;
-        
-        const response = await fetch(url, {
-            headers: {
-                'Authorization': `Bearer ${this.accessToken}`,
-                'Content-Type': 'application/json',
-                ...options.headers
-            },
-            ...options
-        });
-
-        if (!response.ok) {
-            const errorText = await response.text();
-            let errorMessage = `Salesforce API error: ${response.status} ${response.statusText}`;
-            
-            if (response.status === 401) {
-                errorMessage += ' - Access token is invalid or expired. Please re-authenticate your org using Salesforce CLI.';
-            } else {
-                errorMessage += ` - ${errorText}`;
-            }
-            
-            throw new Error(errorMessage);
-        }
-
-        return response.json();
-    }
-
-    async describeGlobal(): Promise<any> {
-        return this.makeRequest('/sobjects/');
-    }
-
-    async describe(sobjectType: string): Promise<any> {
-        return this.makeRequest(`/sobjects/${sobjectType}/describe/`);
-    }
-
-    async query(soql: string): Promise<any> {
-        const encodedQuery = encodeURIComponent(soql);
-        return this.makeRequest(`/query/?q=${encodedQuery}`);
-    }
-
-    async create(sobjectType: string, records: any[]): Promise<any> {
-        if (records.length === 1) {
-            return this.makeRequest(`/sobjects/${sobjectType}/`, {
-                method: 'POST',
-                body: JSON.stringify(records[0])
-            });
-        } else {
-            // Use composite API for multiple records
-            const compositeRequest = {
-                allOrNone: false,
-                records: records.map((record, index) => ({
-                    attributes: { type: sobjectType },
-                    ...record
-                }))
-            };
-
-            return this.makeRequest(`/composite/sobjects/`, {
-                method: 'POST',
-                body: JSON.stringify(compositeRequest)
-            });
-        }
-    }
-
-    async identity(): Promise<any> {
-        return this.makeRequest('/');
-    }
+import { DeferredLookup, TransferPlan, planTransferOrder } from './transferPlanner';
+import { SalesforceRestClient } from './restClient';
+import { SalesforceBulkClient } from './bulkClient';
+import { IdMappingStore, OrgPairIdMap } from './idMappingStore';
+import { CheckpointStore, TransferCheckpoint } from './checkpointStore';
+import { RollbackRecordResult, RollbackResult, TransferJournal, TransferJournalStore } from './transferJournal';
+import { LedgerEntry, LedgerOperation, createFailedLedgerEntry, createLedgerEntry, getFailedRecordIds } from './recordLedger';
+import { DryRunObjectPlan, DryRunPlan, placeholderId } from './dryRunPlan';
+import { ObjectSchemaDiff, compareObjectSchemas, getIncompatibleFields } from './schemaComparer';
+import { TransformPreviewRow, TransformRule, TransformRuleSet, applyTransformRules, getReferencedFields, validateTransformRules } from './transformRules';
+import { MaskingOptions, MaskingStrategy, ObjectMaskingPlan, buildMaskingPlan, maskRecord, maskValue } from './masking';
+import { MappingSuggestion, TransferMappings, applyFieldMapping, findBestMatch, getTargetField, getTargetObject, suggestFieldMappings } from './fieldMapping';
+import { CascadeOptions, CascadeRelationship, getCascadeObjects, getReachableRelationships } from './cascade';
+import { MissingRecordType, OrgRecordType, RecordTypeMappings, matchRecordTypes } from './recordTypeMapping';
+import { DEFAULT_OWNER_MATCH_ORDER, OrgQueue, OrgUser, OwnerMappingOptions, OwnerMappingPreview, OwnerMatchResult, UnmatchedOwner, matchOwners } from './ownerMapping';
+import { DEFAULT_RETRY_POLICY, RetryPolicy, getRetryDelay, isRetryableRecordError, sleep } from './retryPolicy';
+import { CsvMappingSuggestion, CsvRecord, CsvSourceOptions, CsvTargetField, buildCsvRecords, suggestCsvColumnMappings } from './csvSource';
+import { parseCsvRows } from '../utils/csv';
+
+// Records per Bulk API ingest job when the bulk engine is used
+const BULK_BATCH_SIZE = 10000;
+const DEFAULT_BULK_THRESHOLD = 10000;
+const DEFAULT_DRY_RUN_SAMPLE_SIZE = 5;
+const DEFAULT_PARENT_DEPTH = 3;
+const DEFAULT_MAX_FILE_SIZE_MB = 100;
+// Files are downloaded and uploaded one at a time, so they are written in small batches
+const FILE_BATCH_SIZE = 10;
+
+interface FileObjectInfo {
+    blobField: string;
+    sizeField: string;
+    fileNameField?: string;
+    // ContentNote content can only be sent as base64 JSON
+    multipart: boolean;
 }
 
+// Objects whose binary field is downloaded from the source and uploaded to the target with the record
+const FILE_OBJECTS: Record<string, FileObjectInfo> = {
+    ContentVersion: { blobField: 'VersionData', sizeField: 'ContentSize', fileNameField: 'PathOnClient', multipart: true },
+    Attachment: { blobField: 'Body', sizeField: 'BodyLength', fileNameField: 'Name', multipart: true },
+    Document: { blobField: 'Body', sizeField: 'BodyLength', fileNameField: 'Name', multipart: true },
+    ContentNote: { blobField: 'Content', sizeField: 'ContentSize', multipart: false }
+};
+// Objects OwnerId and other user lookups point at (queues are Groups)
+const OWNER_OBJECTS = ['User', 'Group'];
+// Objects referenced by lookups (OwnerId, RecordTypeId, ContentVersion.ContentDocumentId) that are never copied as parents
+const NON_COPYABLE_PARENTS = [...OWNER_OBJECTS, 'RecordType', 'ContentDocument'];
+// Key prefixes of the Ids owner mapping translates (users and queues)
+const OWNER_KEY_PREFIXES = ['005', '00G'];
+
 export interface DataTransferOptions {
     sourceOrg: SalesforceOrg;
     targetOrg: SalesforceOrg;
@@ -91,19 +60,141 @@ export interface DataTransferOptions {
     recordLimits?: Record<string, number>;
     customQuery?: string;
     // External ID configuration for upsert operations
-    externalIdMapping?: Record<string, string>; // objectType -> fieldName mapping
+    externalIdMapping?: Record<string, string>; // objectType -> fieldName mapping (source names)
+    // Renamed/ignored fields and objects that land in a differently named target object
+    mappings?: TransferMappings;
+    // Value transformations per object, applied before field mappings (source field names)
+    transformRules?: TransformRuleSet;
+    // PII masking applied to every payload before it is sent (or written to a dry-run plan)
+    masking?: MaskingOptions;
     transferMode: 'insert' | 'upsert'; // Default should be 'insert'
+    // Execution engine: REST collections, Bulk API 2.0, or pick per object by record count
+    apiMode?: 'rest' | 'bulk' | 'auto';
+    bulkThreshold?: number; // Record count above which 'auto' switches to Bulk API
+    // Retry settings for transient API errors and per-record failures (e.g. UNABLE_TO_LOCK_ROW)
+    retryPolicy?: RetryPolicy;
+    // Run every query, describe and parent lookup but write nothing; the result carries a dry-run plan
+    dryRun?: boolean;
+    dryRunSampleSize?: number; // Payloads kept per object in the plan
+    // Compare source and target schemas first and leave out fields the target would reject
+    excludeIncompatibleFields?: boolean;
+    // Translate OwnerId and other user/queue lookups to the matching target users and queues
+    ownerMapping?: OwnerMappingOptions;
+    // Record types mapped by hand where DeveloperNames differ between the orgs
+    recordTypeMapping?: RecordTypeMappings;
+    // Child relationships to follow from the selected objects; children are limited to the transferred parents
+    cascade?: CascadeOptions;
+    // Levels of lookups resolved above a transferred record when parents are auto-created (1 = parents only)
+    maxParentDepth?: number;
+    // Files, attachments and notes above this size are not transferred
+    maxFileSizeMb?: number;
+    // Resubmit only these records of an earlier run (objectType -> source Ids), continuing its journal
+    retry?: { recordIds: Record<string, string[]>; journalId?: string };
+    // Load the rows of a CSV file into one target object instead of reading a source org
+    csvSource?: CsvSourceOptions;
 }
 
 export interface TransferResult {
     success: boolean;
     recordsTransferred: number;
+    // Breakdown of recordsTransferred (upsert mode can update existing records)
+    recordsCreated: number;
+    recordsUpdated: number;
+    // Records that failed with a transient error and succeeded when resubmitted
+    recordsSucceededAfterRetry: number;
     errors: string[];
+    // Dependency order the objects were transferred in (object mode only)
+    plan?: TransferPlan;
+    // Records written to the target per object, including auto-created parents
+    writtenByObject: Record<string, number>;
+    // True when the transfer was stopped before all records were processed
+    cancelled: boolean;
+    // What the transfer would have written (dry runs only)
+    dryRunPlan?: DryRunPlan;
+    // Fields left out because the target schema can't accept them (objectType -> field names)
+    excludedFields?: Record<string, string[]>;
+    // Fields whose values were masked (objectType -> field -> strategy)
+    maskedFields?: Record<string, Record<string, MaskingStrategy>>;
+    // Self/circular lookups left blank on insert, and how many the update pass restored
+    lookupsDeferred: number;
+    lookupsRestored: number;
+    // Owners without a match in the target (records got the fallback owner or the running user)
+    unmatchedOwners?: UnmatchedOwner[];
+    // Source record types without a target counterpart (records were sent with the default record type)
+    missingRecordTypes?: MissingRecordType[];
+    // Journal of the records this run created and updated, used to roll it back (not set for dry runs)
+    journalId?: string;
+    // Outcome of every record written by this run (a resumed run only covers records written after resuming)
+    ledger: LedgerEntry[];
 }
 
+/**
+ * Progress notifications emitted while a transfer runs
+ */
+export type TransferProgressEvent =
+    | { type: 'transferStarted'; objectTypes: string[] }
+    | { type: 'objectStarted'; objectType: string; totalRecords: number; totalBatches: number }
+    | {
+        type: 'batchCompleted';
+        objectType: string;
+        batchNumber: number;
+        totalBatches: number;
+        successCount: number;
+        failureCount: number;
+        recordsProcessed: number;
+        totalRecords: number;
+    }
+    | { type: 'parentsResolved'; objectType: string; parentObject: string; requested: number; resolved: number }
+    | { type: 'objectCompleted'; objectType: string; recordsTransferred: number; failureCount: number };
+
 export class DataTransferService {
+    private _onDidReportProgress: vscode.EventEmitter<TransferProgressEvent> = new vscode.EventEmitter<TransferProgressEvent>();
+    public readonly onDidReportProgress: vscode.Event<TransferProgressEvent> = this._onDidReportProgress.event;
+
     private sourceConn: SalesforceRestClient | null = null;
     private targetConn: SalesforceRestClient | null = null;
+    private sourceBulk: SalesforceBulkClient | null = null;
+    private targetBulk: SalesforceBulkClient | null = null;
+    // Source -> target Id map for the org pair of the transfer in progress
+    private idMap: OrgPairIdMap | null = null;
+    // Checkpoint of the transfer in progress, updated after every committed batch
+    private checkpoint: TransferCheckpoint | null = null;
+    // Set while a dry run is in progress; writes are recorded here instead of being sent
+    private dryRunPlan: DryRunPlan | null = null;
+    // Placeholder target Ids for records a dry run would create (objectType -> source Id -> placeholder)
+    private dryRunTargetIds: Record<string, Record<string, string>> = {};
+    // Fields never sent to the target for the transfer in progress (objectType -> field names)
+    private excludedFields: Record<string, string[]> = {};
+    // Source org describeGlobal sObjects, and Id key prefix (first 3 characters) -> sObject name, loaded on first use
+    private sourceSObjects: any[] | null = null;
+    private keyPrefixes: Map<string, string> | null = null;
+    // Objects of the transfer in progress, in the order they are written
+    private transferOrder: string[] = [];
+    // Lookups to restore once every object has been written
+    private deferredLookups: DeferredLookup[] = [];
+    // Source -> target users and queues, loaded when owner mapping is enabled
+    private ownerMatch: OwnerMatchResult | null = null;
+    private fallbackOwnerId: string | undefined;
+    // Source -> target record type Ids for the objects of the transfer in progress
+    private recordTypeMap: Record<string, string> = {};
+    private missingRecordTypes: MissingRecordType[] = [];
+    // Cascade relationships that select the records of objects transferred only through a cascade
+    private cascadeFilters: Record<string, CascadeRelationship[]> = {};
+    // Target records created and updated by the transfer in progress
+    private journal: TransferJournal | null = null;
+
+    constructor(private idMappingStore?: IdMappingStore, private checkpointStore?: CheckpointStore, private journalStore?: TransferJournalStore) {}
+
+    private emitProgress(event: TransferProgressEvent): void {
+        this._onDidReportProgress.fire(event);
+    }
+
+    /**
+     * Release the progress event; services created for a single lookup are disposed when it finishes
+     */
+    public dispose(): void {
+        this._onDidReportProgress.dispose();
+    }
 
     private stringifyErrors(err: any): string {
         if (typeof err === 'string') { return err; }
@@ -250,6 +341,11 @@ export class DataTransferService {
                 targetOrg.accessToken
             );
 
+            this.sourceBulk = new SalesforceBulkClient(this.sourceConn);
+            this.targetBulk = new SalesforceBulkClient(this.targetConn);
+            this.sourceSObjects = null;
+            this.keyPrefixes = null;
+
             // Test connections
             await this.sourceConn.identity();
             await this.targetConn.identity();
@@ -259,7 +355,144 @@ export class DataTransferService {
         }
     }
 
-    public async transferData(options: DataTransferOptions): Promise<TransferResult> {
+    /**
+     * Unfinished transfer between the two orgs that can be resumed, if any
+     */
+    public getResumableCheckpoint(sourceOrg: Pick<SalesforceOrg, 'username'>, targetOrg: Pick<SalesforceOrg, 'username'>): TransferCheckpoint | undefined {
+        return this.checkpointStore?.get(sourceOrg, targetOrg);
+    }
+
+    public async discardCheckpoint(sourceOrg: Pick<SalesforceOrg, 'username'>, targetOrg: Pick<SalesforceOrg, 'username'>): Promise<void> {
+        await this.checkpointStore?.clear(sourceOrg, targetOrg);
+    }
+
+    /**
+     * Journals of recent transfers that still have changes to roll back, newest first
+     */
+    public getRollbackCandidates(): TransferJournal[] {
+        return (this.journalStore?.list() || []).filter(journal => !journal.rolledBackAt);
+    }
+
+    /**
+     * Undo a journaled transfer: restore the prior values of records it updated, then delete the records
+     * it created, children before parents. Undone changes are removed from the journal, so rolling back
+     * again only retries what failed. Requires a connection to the journal's target org.
+     */
+    public async rollbackTransfer(journal: TransferJournal, token?: vscode.CancellationToken): Promise<RollbackResult> {
+        if (!this.targetConn) {
+            throw new Error('Connections not initialized');
+        }
+
+        const rollback: RollbackResult = { success: false, deleted: 0, restored: 0, failed: 0, cancelled: false, records: [] };
+        const chunkSize = 200;
+
+        // Restore first: a restored lookup may point away from a created parent whose deletion would otherwise cascade
+        for (const [objectType, images] of Object.entries(journal.updated)) {
+            const payloads = Object.entries(images).map(([id, before]) => ({ ...before, Id: id }));
+            for (let i = 0; i < payloads.length; i += chunkSize) {
+                if (token?.isCancellationRequested) {
+                    rollback.cancelled = true;
+                    break;
+                }
+                const chunk = payloads.slice(i, i + chunkSize);
+                let updateResults: any[];
+                try {
+                    updateResults = await this.targetConn.update(objectType, chunk);
+                } catch (error) {
+                    updateResults = chunk.map(() => ({ success: false, errors: [error] }));
+                }
+                updateResults.forEach((updateResult, index) => {
+                    if (this.addRollbackRecord(rollback, objectType, chunk[index].Id, 'restore', updateResult)) {
+                        delete images[chunk[index].Id];
+                    }
+                });
+            }
+        }
+
+        for (const objectType of [...journal.order].reverse()) {
+            const ids = journal.created[objectType] || [];
+            const remaining: string[] = [];
+            for (let i = 0; i < ids.length; i += chunkSize) {
+                const chunk = ids.slice(i, i + chunkSize);
+                if (rollback.cancelled || token?.isCancellationRequested) {
+                    rollback.cancelled = true;
+                    remaining.push(...chunk);
+                    continue;
+                }
+
+                let deleteResults: any[];
+                try {
+                    deleteResults = await this.deleteCreatedRecords(objectType, chunk);
+                } catch (error) {
+                    deleteResults = chunk.map(() => ({ success: false, errors: [error] }));
+                }
+                deleteResults.forEach((deleteResult, index) => {
+                    if (!this.addRollbackRecord(rollback, objectType, chunk[index], 'delete', deleteResult)) {
+                        remaining.push(chunk[index]);
+                    }
+                });
+            }
+            journal.created[objectType] = remaining;
+        }
+
+        rollback.success = rollback.failed === 0 && !rollback.cancelled;
+        if (rollback.success) {
+            journal.rolledBackAt = new Date().toISOString();
+        }
+        await this.journalStore?.save(journal);
+        return rollback;
+    }
+
+    /**
+     * Delete records by Id, one result per Id. File versions can't be deleted on their own,
+     * so a created ContentVersion is removed by deleting its document (with every version and link).
+     */
+    private async deleteCreatedRecords(objectType: string, ids: string[]): Promise<any[]> {
+        if (!this.targetConn) {
+            throw new Error('Connections not initialized');
+        }
+        if (objectType !== 'ContentVersion') {
+            return this.targetConn.delete(ids);
+        }
+
+        const resp = await this.targetConn.queryAllPages(`SELECT Id, ContentDocumentId FROM ContentVersion WHERE Id IN (${ids.map(id => `'${id}'`).join(', ')})`);
+        const documentIds = new Map<string, string>((resp.records || []).map((version: any) => [version.Id, version.ContentDocumentId]));
+        const documents = Array.from(new Set(documentIds.values()));
+        const deleteResults = documents.length > 0 ? await this.targetConn.delete(documents) : [];
+        const resultByDocument = new Map(documents.map((documentId, index) => [documentId, deleteResults[index]]));
+        // Versions that no longer exist went with their document
+        return ids.map(id => documentIds.has(id) ? resultByDocument.get(documentIds.get(id)!) : { success: true });
+    }
+
+    private addRollbackRecord(rollback: RollbackResult, objectType: string, id: string, action: RollbackRecordResult['action'], outcome: any): boolean {
+        // Records removed since the transfer (e.g. by a cascade delete of their parent) count as rolled back
+        const alreadyDeleted = action === 'delete' && !outcome?.success
+            && (outcome?.errors || []).some((error: any) => error?.statusCode === 'ENTITY_IS_DELETED');
+        const success = !!outcome?.success || alreadyDeleted;
+
+        rollback.records.push({
+            objectType,
+            id,
+            action,
+            success,
+            error: success ? undefined : this.stringifyErrors(outcome?.errors) || 'Unknown error'
+        });
+        if (!success) {
+            rollback.failed += 1;
+        } else if (action === 'delete') {
+            rollback.deleted += 1;
+        } else {
+            rollback.restored += 1;
+        }
+        return success;
+    }
+
+    /**
+     * Run a transfer. Cancelling the token stops the transfer after the batch in flight;
+     * the returned result then describes what was written up to that point.
+     * Pass `resumeFrom` to continue an unfinished transfer from its last checkpoint.
+     */
+    public async transferData(options: DataTransferOptions, token?: vscode.CancellationToken, resumeFrom?: TransferCheckpoint): Promise<TransferResult> {
         if (!this.sourceConn || !this.targetConn) {
             throw new Error('Connections not initialized');
         }
@@ -269,17 +502,103 @@ export class DataTransferService {
             options.transferMode = 'insert';
         }
 
+        const retryPolicy = options.retryPolicy || DEFAULT_RETRY_POLICY;
+        this.sourceConn.setRetryPolicy(retryPolicy);
+        this.targetConn.setRetryPolicy(retryPolicy);
+        this.sourceBulk?.setCancellationToken(token);
+        this.targetBulk?.setCancellationToken(token);
+
+        // CSV rows have no source Ids to map
+        this.idMap = this.idMappingStore && !options.csvSource ? this.idMappingStore.forOrgs(options.sourceOrg, options.targetOrg) : null;
+        this.dryRunPlan = options.dryRun ? {
+            sourceOrg: options.sourceOrg.alias || options.sourceOrg.username,
+            targetOrg: options.targetOrg.alias || options.targetOrg.username,
+            generatedAt: new Date().toISOString(),
+            order: [],
+            objects: []
+        } : null;
+        this.dryRunTargetIds = {};
+        this.excludedFields = {};
+        this.transferOrder = [];
+        this.ownerMatch = null;
+        this.fallbackOwnerId = undefined;
+        this.recordTypeMap = {};
+        this.missingRecordTypes = [];
+        this.cascadeFilters = {};
+        this.deferredLookups = resumeFrom?.deferredLookups ? [...resumeFrom.deferredLookups] : [];
+        this.checkpoint = this.createCheckpoint(options, resumeFrom);
+        this.journal = this.dryRunPlan ? null : this.createJournal(options, resumeFrom);
+        this.checkpoint.journalId = this.journal?.id;
+        if (resumeFrom) {
+            this.idMap?.seed(resumeFrom.idMap);
+        } else if (!this.dryRunPlan) {
+            // Starting over replaces any unfinished transfer between these orgs
+            await this.checkpointStore?.clear(options.sourceOrg, options.targetOrg);
+        }
+
         const result: TransferResult = {
             success: false,
             recordsTransferred: 0,
-            errors: []
+            recordsCreated: 0,
+            recordsUpdated: 0,
+            recordsSucceededAfterRetry: 0,
+            errors: [],
+            writtenByObject: {},
+            cancelled: false,
+            lookupsDeferred: 0,
+            lookupsRestored: 0,
+            ledger: [],
+            dryRunPlan: this.dryRunPlan || undefined,
+            journalId: this.journal?.id,
+            // A resumed transfer reports totals for the whole run
+            ...(resumeFrom ? { ...resumeFrom.totals, writtenByObject: { ...resumeFrom.totals.writtenByObject } } : {})
         };
 
         try {
+            const ruleProblems = validateTransformRules(options.transformRules || {});
+            if (ruleProblems.length > 0) {
+                throw new Error(`Invalid transformation rules: ${ruleProblems.join('; ')}`);
+            }
+
+            if (options.csvSource) {
+                const objectType = options.csvSource.objectType;
+                this.transferOrder = [objectType];
+                if (this.dryRunPlan) {
+                    this.dryRunPlan.order = [objectType];
+                }
+                this.emitProgress({ type: 'transferStarted', objectTypes: [objectType] });
+                await this.transferCsvRecords(options.csvSource, options, result, token);
+                result.success = result.errors.length === 0 && !result.cancelled;
+                // CSV loads are not checkpointed; a stopped load is finished by retrying or upserting the file again
+                this.checkpoint = null;
+                return result;
+            }
+
+            if (options.ownerMapping?.enabled) {
+                const owners = await this.loadOwnerMatch(options.ownerMapping);
+                this.ownerMatch = owners.match;
+                this.fallbackOwnerId = owners.fallbackOwnerId;
+            }
+
             // If a custom query is provided, handle that path
             if (options.customQuery && options.customQuery.trim()) {
-                await this.transferByQuery(options.customQuery, options, result);
-                result.success = result.errors.length === 0;
+                const queryObject = this.parseFromObject(options.customQuery);
+                if (this.dryRunPlan && queryObject) {
+                    this.dryRunPlan.order = [queryObject];
+                }
+                if (options.excludeIncompatibleFields && queryObject) {
+                    await this.applySchemaExclusions([queryObject], options, result);
+                }
+                this.transferOrder = queryObject ? [queryObject] : [];
+                await this.loadRecordTypeMap(this.transferOrder, options);
+                this.emitProgress({ type: 'transferStarted', objectTypes: this.transferOrder });
+                await this.transferByQuery(options.customQuery, options, result, token);
+                if (!result.cancelled) {
+                    await this.restoreDeferredLookups(options, result);
+                    await this.recreateContentDocumentLinks(options, result);
+                }
+                result.success = result.errors.length === 0 && !result.cancelled;
+                await this.finishCheckpoint(queryObject ? [queryObject] : []);
                 return result;
             }
 
@@ -287,199 +606,1595 @@ export class DataTransferService {
                 throw new Error('No object types provided for transfer');
             }
 
-            for (const objectType of options.objectTypes) {
-                await this.transferObjectRecords(objectType, options, result);
+            // Cascaded children are transferred with the selected objects, limited to the transferred parents
+            const cascadeObjects = getCascadeObjects(options.objectTypes, options.cascade);
+            for (const relationship of getReachableRelationships(options.objectTypes, options.cascade)) {
+                if (cascadeObjects.includes(relationship.childObject)) {
+                    (this.cascadeFilters[relationship.childObject] || (this.cascadeFilters[relationship.childObject] = [])).push(relationship);
+                }
+            }
+
+            // Transfer parents before children regardless of the order objects were selected in.
+            // A retry can include auto-created parents that weren't selected.
+            const retryObjects = Object.keys(options.retry?.recordIds || {});
+            const plan = await this.planTransfer(Array.from(new Set([...options.objectTypes, ...cascadeObjects, ...retryObjects])));
+            result.plan = plan;
+            this.transferOrder = plan.order;
+            await this.loadRecordTypeMap(plan.order, options);
+            if (this.dryRunPlan) {
+                this.dryRunPlan.order = plan.order;
+            }
+            if (options.excludeIncompatibleFields) {
+                await this.applySchemaExclusions(plan.order, options, result);
+            }
+            this.emitProgress({ type: 'transferStarted', objectTypes: plan.order });
+
+            for (const objectType of plan.order) {
+                if (token?.isCancellationRequested) {
+                    result.cancelled = true;
+                    break;
+                }
+                // Objects finished before the checkpoint was written are not transferred again
+                if (this.checkpoint.completedObjects.includes(objectType)) {
+                    continue;
+                }
+                // ContentDocumentLink can't be queried without a document filter; links are recreated with the files.
+                // A retry only writes objects that had failed records. Both count as done for the checkpoint.
+                if (objectType === 'ContentDocumentLink' || (options.retry && !options.retry.recordIds[objectType])) {
+                    this.checkpoint.completedObjects.push(objectType);
+                    continue;
+                }
+                await this.transferObjectRecords(objectType, options, result, token);
+            }
+
+            // Second pass: fill in self/circular lookups now that their parents have target Ids,
+            // and share the copied files with the copied records
+            if (!result.cancelled) {
+                await this.restoreDeferredLookups(options, result);
+                await this.recreateContentDocumentLinks(options, result);
+            }
+
+            result.success = result.errors.length === 0 && !result.cancelled;
+            await this.finishCheckpoint(plan.order);
+            return result;
+
+        } catch (error) {
+            result.errors.push(`Transfer failed: ${error}`);
+            return result;
+        } finally {
+            await this.persistProgress();
+            if (this.journal) {
+                this.journal.finishedAt = new Date().toISOString();
+                // Runs that wrote nothing have no journal to roll back
+                result.journalId = await this.saveJournal() ? this.journal.id : undefined;
+                this.journal = null;
+            }
+        }
+    }
+
+    /**
+     * Resubmit the records a finished run failed to write, with the same options and Id map, and merge
+     * the outcome into that run's result. The records are fetched from the source again by Id.
+     */
+    public async retryFailedRecords(options: DataTransferOptions, previous: TransferResult, token?: vscode.CancellationToken): Promise<TransferResult> {
+        if (previous.cancelled) {
+            throw new Error('The transfer was stopped before it finished; resume it before retrying its failed records');
+        }
+        const recordIds = getFailedRecordIds(previous.ledger);
+        if (Object.keys(recordIds).length === 0) {
+            throw new Error('The transfer has no failed records to retry');
+        }
+
+        const retry = await this.transferData({ ...options, dryRun: false, retry: { recordIds, journalId: previous.journalId } }, token);
+        return this.mergeRetryResult(previous, retry);
+    }
+
+    private mergeRetryResult(previous: TransferResult, retry: TransferResult): TransferResult {
+        // Entries of retried records are replaced by their new outcome
+        const retried = new Set(retry.ledger.filter(entry => entry.operation !== 'update').map(entry => `${entry.objectType}:${entry.sourceId}`));
+        const ledger = [
+            ...previous.ledger.filter(entry => entry.status !== 'failed' || entry.operation === 'update' || !retried.has(`${entry.objectType}:${entry.sourceId}`)),
+            ...retry.ledger
+        ];
+        const writtenByObject = { ...previous.writtenByObject };
+        for (const [objectType, count] of Object.entries(retry.writtenByObject)) {
+            writtenByObject[objectType] = (writtenByObject[objectType] || 0) + count;
+        }
+        const unmatchedOwners = [...(previous.unmatchedOwners || [])];
+        for (const owner of retry.unmatchedOwners || []) {
+            if (!unmatchedOwners.some(known => known.sourceId === owner.sourceId)) { unmatchedOwners.push(owner); }
+        }
+        const missingRecordTypes = [...(previous.missingRecordTypes || [])];
+        for (const type of retry.missingRecordTypes || []) {
+            if (!missingRecordTypes.some(known => known.sourceId === type.sourceId)) { missingRecordTypes.push(type); }
+        }
+
+        return {
+            ...previous,
+            success: retry.success && !ledger.some(entry => entry.status === 'failed'),
+            recordsTransferred: previous.recordsTransferred + retry.recordsTransferred,
+            recordsCreated: previous.recordsCreated + retry.recordsCreated,
+            recordsUpdated: previous.recordsUpdated + retry.recordsUpdated,
+            recordsSucceededAfterRetry: previous.recordsSucceededAfterRetry + retry.recordsSucceededAfterRetry,
+            // The earlier errors were about the records that were just retried
+            errors: retry.errors,
+            writtenByObject,
+            cancelled: retry.cancelled,
+            maskedFields: previous.maskedFields || retry.maskedFields ? { ...previous.maskedFields, ...retry.maskedFields } : undefined,
+            lookupsDeferred: previous.lookupsDeferred + retry.lookupsDeferred,
+            lookupsRestored: previous.lookupsRestored + retry.lookupsRestored,
+            unmatchedOwners: unmatchedOwners.length > 0 ? unmatchedOwners : undefined,
+            missingRecordTypes: missingRecordTypes.length > 0 ? missingRecordTypes : undefined,
+            journalId: retry.journalId || previous.journalId,
+            ledger
+        };
+    }
+
+    /**
+     * Describe the objects in both orgs and report fields the target can't accept as sent
+     */
+    public async compareSchemas(
+        objectTypes: string[],
+        transferMode: 'insert' | 'upsert' = 'insert',
+        mappings?: TransferMappings,
+        recordTypeMapping?: RecordTypeMappings
+    ): Promise<ObjectSchemaDiff[]> {
+        if (!this.sourceConn || !this.targetConn) {
+            throw new Error('Connections not initialized');
+        }
+
+        const diffs: ObjectSchemaDiff[] = [];
+        for (const objectType of objectTypes) {
+            const sourceDescribe = await this.sourceConn.describe(objectType);
+            // A failed target describe means the object doesn't exist there or isn't accessible
+            const targetDescribe = await this.targetConn.describe(getTargetObject(mappings, objectType)).catch(() => null);
+            diffs.push(compareObjectSchemas(objectType, sourceDescribe, targetDescribe, transferMode, mappings?.[objectType]?.fields, recordTypeMapping?.[objectType]));
+        }
+        return diffs;
+    }
+
+    /**
+     * Suggest where a source object and its fields land in the target org, by API name and label similarity
+     */
+    public async suggestMappings(sourceObject: string, targetObject?: string): Promise<MappingSuggestion> {
+        if (!this.sourceConn || !this.targetConn) {
+            throw new Error('Connections not initialized');
+        }
+
+        const sourceDescribe = await this.sourceConn.describe(sourceObject);
+        if (!targetObject) {
+            const targetGlobal = await this.targetConn.describeGlobal();
+            const targetObjects = (targetGlobal.sobjects || []).filter((sobject: any) => sobject.createable);
+            const sameName = targetObjects.find((sobject: any) => sobject.name === sourceObject);
+            targetObject = sameName ? sameName.name : findBestMatch({ name: sourceObject, label: sourceDescribe.label }, targetObjects)?.name;
+        }
+
+        const targetDescribe = targetObject ? await this.targetConn.describe(targetObject).catch(() => null) : null;
+        const toFieldInfo = (field: any) => ({ name: field.name, label: field.label, type: field.type });
+        const sourceFields = sourceDescribe.fields.filter((field: any) => field.createable || field.updateable).map(toFieldInfo);
+        const targetFields = targetDescribe ? targetDescribe.fields.filter((field: any) => field.createable || field.updateable).map(toFieldInfo) : [];
+
+        return {
+            sourceObject,
+            targetObject: targetObject || sourceObject,
+            targetObjectExists: !!targetDescribe,
+            sourceFields,
+            targetFields,
+            fields: suggestFieldMappings(sourceFields, targetFields)
+        };
+    }
+
+    /**
+     * Writable fields of the target object a CSV file is loaded into, with a suggested field for every column.
+     * Lookups to a single object list the parent's external ID fields they can be matched on.
+     */
+    public async suggestCsvMappings(objectType: string, columns: string[]): Promise<CsvMappingSuggestion> {
+        if (!this.targetConn) {
+            throw new Error('Connections not initialized');
+        }
+
+        const describe = await this.targetConn.describe(objectType);
+        const writableFields = describe.fields.filter((field: any) => field.createable || field.updateable);
+        const parentExternalIds: Record<string, string[]> = {};
+        for (const field of writableFields) {
+            const parentObject = field.type === 'reference' && field.referenceTo?.length === 1 ? field.referenceTo[0] : undefined;
+            if (parentObject && !parentExternalIds[parentObject]) {
+                parentExternalIds[parentObject] = await this.targetConn.describe(parentObject)
+                    .then(parent => parent.fields.filter((parentField: any) => parentField.externalId).map((parentField: any) => parentField.name))
+                    .catch(() => []);
+            }
+        }
+
+        const fields: CsvTargetField[] = writableFields.map((field: any) => {
+            const parentObject = field.type === 'reference' && field.referenceTo?.length === 1 ? field.referenceTo[0] : undefined;
+            return {
+                name: field.name,
+                label: field.label,
+                type: field.type,
+                required: field.createable && !field.nillable && !field.defaultedOnCreate && field.type !== 'boolean',
+                externalId: !!field.externalId,
+                relationshipName: parentObject ? field.relationshipName || undefined : undefined,
+                parentObject,
+                parentExternalIdFields: parentObject ? parentExternalIds[parentObject] : undefined
+            };
+        });
+
+        return { objectType: describe.name, fields, columns: suggestCsvColumnMappings(columns, fields) };
+    }
+
+    /**
+     * Run an object's transformation rules against sample source records without transferring anything
+     */
+    public async previewTransformRules(objectType: string, rules: TransformRule[], sampleSize: number = 5): Promise<TransformPreviewRow[]> {
+        const problems = validateTransformRules({ [objectType]: rules });
+        if (problems.length > 0) {
+            throw new Error(problems.join('; '));
+        }
+        if (!this.sourceConn) {
+            throw new Error('Source connection not initialized');
+        }
+
+        // Query the fields the rules change or read that exist on the object
+        const metadata = await this.sourceConn.describe(objectType);
+        const touched = Array.from(new Set(rules.flatMap(rule => [rule.field, ...getReferencedFields(rule)])));
+        const queryable = touched.filter(name => name !== 'Id' && metadata.fields.some((field: any) => field.name === name));
+        const queryResult = await this.executeQuery(`SELECT Id${queryable.map(name => `, ${name}`).join('')} FROM ${objectType} LIMIT ${sampleSize}`);
+
+        return (queryResult.records || []).map((record: any) => {
+            const before: Record<string, any> = {};
+            for (const name of touched) {
+                if (name in record) { before[name] = record[name]; }
+            }
+            const after: Record<string, any> = { ...before };
+            applyTransformRules(rules, after, record);
+            return { before, after };
+        });
+    }
+
+    /**
+     * Match the users and queues referenced by the objects' owner and user lookups with the target org,
+     * so unmatched owners can be fixed before transferring
+     */
+    public async previewOwnerMapping(objectTypes: string[], ownerMapping: OwnerMappingOptions): Promise<OwnerMappingPreview> {
+        if (!this.sourceConn || !this.targetConn) {
+            throw new Error('Connections not initialized');
+        }
+
+        const { match, fallbackOwnerId } = await this.loadOwnerMatch(ownerMapping);
+        const referenced = await this.getReferencedOwnerIds(objectTypes);
+        return {
+            referencedOwners: referenced.size,
+            matched: Array.from(referenced).filter(id => match.ownerMap[id]).length,
+            unmatched: Array.from(referenced)
+                .filter(id => !match.ownerMap[id])
+                .map(id => match.unmatched.find(owner => owner.sourceId === id) || this.unknownOwner(id)),
+            fallbackOwnerId
+        };
+    }
+
+    private async loadOwnerMatch(ownerMapping: OwnerMappingOptions): Promise<{ match: OwnerMatchResult; fallbackOwnerId?: string }> {
+        if (!this.sourceConn || !this.targetConn) {
+            throw new Error('Connections not initialized');
+        }
+
+        const userSoql = 'SELECT Id, Username, Name, Email, FederationIdentifier, IsActive FROM User';
+        const queueSoql = "SELECT Id, DeveloperName, Name FROM Group WHERE Type = 'Queue'";
+        const sourceUsers: OrgUser[] = (await this.sourceConn.queryAllPages(userSoql)).records || [];
+        const targetUsers: OrgUser[] = (await this.targetConn.queryAllPages(userSoql)).records || [];
+        const sourceQueues: OrgQueue[] = (await this.sourceConn.queryAllPages(queueSoql)).records || [];
+        const targetQueues: OrgQueue[] = (await this.targetConn.queryAllPages(queueSoql)).records || [];
+
+        let fallbackOwnerId: string | undefined;
+        const fallbackOwner = ownerMapping.fallbackOwner?.trim();
+        if (fallbackOwner) {
+            const fallback = targetUsers.find(user => user.Username.toLowerCase() === fallbackOwner.toLowerCase());
+            if (!fallback || fallback.IsActive === false) {
+                throw new Error(`Fallback owner ${fallbackOwner} is not an active user in the target org`);
+            }
+            fallbackOwnerId = fallback.Id;
+        }
+
+        return {
+            match: matchOwners(sourceUsers, targetUsers, sourceQueues, targetQueues, ownerMapping.matchBy || DEFAULT_OWNER_MATCH_ORDER),
+            fallbackOwnerId
+        };
+    }
+
+    /**
+     * Distinct user and queue Ids held by the sent user/queue lookups of the objects
+     */
+    private async getReferencedOwnerIds(objectTypes: string[]): Promise<Set<string>> {
+        const ids = new Set<string>();
+        if (!this.sourceConn) { return ids; }
+
+        for (const objectType of objectTypes) {
+            const describe = await this.sourceConn.describe(objectType);
+            for (const field of this.getOwnerFields(describe).filter((f: any) => f.createable)) {
+                try {
+                    const resp = await this.sourceConn.queryAllPages(`SELECT ${field.name} FROM ${objectType} WHERE ${field.name} != null GROUP BY ${field.name}`);
+                    for (const record of resp.records || []) {
+                        if (OWNER_KEY_PREFIXES.includes(String(record[field.name]).substring(0, 3))) {
+                            ids.add(record[field.name]);
+                        }
+                    }
+                } catch {
+                    // Fields that can't be grouped are checked during the transfer instead
+                }
+            }
+        }
+        return ids;
+    }
+
+    private getOwnerFields(metadata: any): any[] {
+        return metadata.fields.filter((f: any) => f.type === 'reference' && Array.isArray(f.referenceTo) && f.referenceTo.some((parent: string) => OWNER_OBJECTS.includes(parent)));
+    }
+
+    private unknownOwner(sourceId: string): UnmatchedOwner {
+        return { sourceId, kind: sourceId.startsWith('00G') ? 'Queue' : 'User', name: sourceId };
+    }
+
+    /**
+     * Child relationships of an object that can be cascaded to (children that can be queried and created)
+     */
+    public async getChildRelationships(parentObject: string): Promise<CascadeRelationship[]> {
+        if (!this.sourceConn) {
+            throw new Error('Connections not initialized');
+        }
+
+        const describe = await this.sourceConn.describe(parentObject);
+        const copyable = new Set((await this.getSourceSObjects())
+            .filter((sobject: any) => sobject.createable && sobject.queryable)
+            .map((sobject: any) => sobject.name));
+
+        return (describe.childRelationships || [])
+            .filter((child: any) => child.relationshipName && !child.deprecatedAndHidden && copyable.has(child.childSObject))
+            .map((child: any) => ({
+                parentObject,
+                childObject: child.childSObject,
+                field: child.field,
+                relationshipName: child.relationshipName
+            }))
+            .sort((a: CascadeRelationship, b: CascadeRelationship) => a.childObject.localeCompare(b.childObject));
+    }
+
+    /**
+     * Query the children of the parents this transfer has written, one chunk of parent Ids at a time
+     */
+    private async fetchCascadeRecords(objectType: string, selectClause: string, options: DataTransferOptions, filter?: string): Promise<any[]> {
+        if (!this.sourceConn) {
+            throw new Error('Connections not initialized');
+        }
+
+        const chunkSize = 300; // Keeps the IN list well below the SOQL length limit
+        const recordsById = new Map<string, any>();
+        for (const relationship of this.cascadeFilters[objectType] || []) {
+            const parentIds = Object.keys({
+                ...this.idMap?.getSessionEntries()[relationship.parentObject],
+                ...this.dryRunTargetIds[relationship.parentObject]
+            });
+            for (let i = 0; i < parentIds.length; i += chunkSize) {
+                const chunk = parentIds.slice(i, i + chunkSize);
+                const soql = `${selectClause} WHERE ${relationship.field} IN (${chunk.map(id => `'${id}'`).join(', ')})${filter ? ` AND ${filter}` : ''}`;
+                const resp = await this.sourceConn.queryAllPages(soql, options.batchSize);
+                for (const record of resp.records || []) {
+                    recordsById.set(record.Id, record);
+                }
+            }
+        }
+
+        const records = Array.from(recordsById.values()).sort((a, b) => (a.Id < b.Id ? -1 : a.Id > b.Id ? 1 : 0));
+        const limit = options.recordLimits?.[objectType];
+        return limit ? records.slice(0, limit) : records;
+    }
+
+    /**
+     * Source records by Id, selected with `selectClause` ("SELECT ... FROM Object")
+     */
+    private async fetchRecordsById(selectClause: string, ids: string[], options: DataTransferOptions, filter?: string): Promise<any[]> {
+        if (!this.sourceConn) {
+            throw new Error('Connections not initialized');
+        }
+
+        const chunkSize = 300; // Keeps the IN list well below the SOQL length limit
+        const records: any[] = [];
+        for (let i = 0; i < ids.length; i += chunkSize) {
+            const chunk = ids.slice(i, i + chunkSize);
+            const soql = `${selectClause} WHERE Id IN (${chunk.map(id => `'${id}'`).join(', ')})${filter ? ` AND ${filter}` : ''}`;
+            const resp = await this.sourceConn.queryAllPages(soql, options.batchSize);
+            records.push(...(resp.records || []));
+        }
+        return records;
+    }
+
+    /**
+     * Point a cascaded child's lookups at the copies of the parents it was selected through
+     */
+    private remapCascadeLookups(objectType: string, batch: any[], cleanedBatch: any[]): void {
+        for (const relationship of this.cascadeFilters[objectType] || []) {
+            cleanedBatch.forEach((cleaned: any, idx: number) => {
+                const sourceId = batch[idx][relationship.field];
+                const targetId = sourceId && relationship.field in cleaned ? this.resolveTargetId(relationship.parentObject, sourceId) : undefined;
+                if (targetId) {
+                    cleaned[relationship.field] = targetId;
+                }
+            });
+        }
+    }
+
+    /**
+     * Match the objects' record types in both orgs by DeveloperName (or the hand-made mapping)
+     */
+    private async loadRecordTypeMap(objectTypes: string[], options: DataTransferOptions): Promise<void> {
+        if (!this.sourceConn || !this.targetConn || objectTypes.length === 0) { return; }
+
+        const targetObjects: Record<string, string> = {};
+        objectTypes.forEach(objectType => targetObjects[objectType] = getTargetObject(options.mappings, objectType));
+        const soql = (objects: string[]) =>
+            `SELECT Id, SobjectType, DeveloperName, Name, IsActive FROM RecordType WHERE SobjectType IN (${objects.map(name => `'${name}'`).join(', ')})`;
+
+        const sourceTypes: OrgRecordType[] = (await this.sourceConn.queryAllPages(soql(objectTypes))).records || [];
+        const targetTypes: OrgRecordType[] = (await this.targetConn.queryAllPages(soql(Object.values(targetObjects)))).records || [];
+        const match = matchRecordTypes(sourceTypes, targetTypes, targetObjects, options.recordTypeMapping);
+        this.recordTypeMap = match.recordTypeMap;
+        this.missingRecordTypes = match.missing;
+    }
+
+    /**
+     * Rewrite RecordTypeId to the matching target record type. Records whose record type is missing
+     * in the target are sent without one, so they get the default record type.
+     */
+    private applyRecordTypeMapping(batch: any[], cleanedBatch: any[], result: TransferResult): void {
+        cleanedBatch.forEach((cleaned: any, idx: number) => {
+            const sourceId = batch[idx].RecordTypeId;
+            if (!sourceId || !('RecordTypeId' in cleaned)) { return; }
+
+            if (this.recordTypeMap[sourceId]) {
+                cleaned.RecordTypeId = this.recordTypeMap[sourceId];
+                return;
+            }
+
+            delete cleaned.RecordTypeId;
+            const missing = result.missingRecordTypes || (result.missingRecordTypes = []);
+            if (!missing.some(type => type.sourceId === sourceId)) {
+                const recordType = this.missingRecordTypes.find(type => type.sourceId === sourceId);
+                missing.push(recordType || { objectType: '', sourceId, developerName: sourceId });
+                result.errors.push(`Record type ${recordType ? `${recordType.objectType}.${recordType.developerName}` : sourceId} does not exist in the target org; its records got the default record type`);
+            }
+        });
+    }
+
+    /**
+     * Point user and queue lookups at the matched target users and queues. An unmatched OwnerId gets the
+     * fallback owner, or is left out so the running user owns the record; other unmatched lookups are cleared.
+     */
+    private applyOwnerMapping(metadata: any, batch: any[], cleanedBatch: any[], result: TransferResult): void {
+        if (!this.ownerMatch) { return; }
+
+        const ownerFields = this.getOwnerFields(metadata);
+        cleanedBatch.forEach((cleaned: any, idx: number) => {
+            for (const field of ownerFields) {
+                const sourceId = batch[idx][field.name];
+                if (!(field.name in cleaned) || typeof sourceId !== 'string' || !OWNER_KEY_PREFIXES.includes(sourceId.substring(0, 3))) { continue; }
+
+                const targetId = this.ownerMatch!.ownerMap[sourceId];
+                if (targetId) {
+                    cleaned[field.name] = targetId;
+                    continue;
+                }
+
+                this.recordUnmatchedOwner(sourceId, result);
+                if (field.name === 'OwnerId' && this.fallbackOwnerId) {
+                    cleaned[field.name] = this.fallbackOwnerId;
+                } else {
+                    delete cleaned[field.name];
+                }
+            }
+        });
+    }
+
+    private recordUnmatchedOwner(sourceId: string, result: TransferResult): void {
+        const unmatched = result.unmatchedOwners || (result.unmatchedOwners = []);
+        if (!unmatched.some(owner => owner.sourceId === sourceId)) {
+            unmatched.push(this.ownerMatch?.unmatched.find(owner => owner.sourceId === sourceId) || this.unknownOwner(sourceId));
+        }
+    }
+
+    /**
+     * Remove self and circular lookups from the payloads and queue them for the update pass.
+     * Returns the batch with those lookups cleared, for parent resolution.
+     */
+    private async deferLookups(objectType: string, metadata: any, batch: any[], cleanedBatch: any[], deferrableParents: Set<string>): Promise<any[]> {
+        const lookupFields = metadata.fields.filter((field: any) =>
+            field.type === 'reference' && Array.isArray(field.referenceTo) && field.referenceTo.some((parent: string) => deferrableParents.has(parent)));
+        if (lookupFields.length === 0) { return batch; }
+
+        const parentBatch: any[] = [];
+        for (const [idx, record] of batch.entries()) {
+            // Without a source Id the record can't be found again for the update
+            if (!record.Id) {
+                parentBatch.push(record);
+                continue;
+            }
+
+            let parentRecord = record;
+            for (const field of lookupFields) {
+                const parentSourceId = record[field.name];
+                if (!parentSourceId || typeof parentSourceId !== 'string') { continue; }
+
+                const parentObject = field.referenceTo.length === 1
+                    ? field.referenceTo[0]
+                    : record[field.relationshipName]?.Type || await this.getObjectTypeForId(parentSourceId);
+                if (!parentObject || !deferrableParents.has(parentObject)) { continue; }
+
+                delete cleanedBatch[idx][field.name];
+                parentRecord = { ...parentRecord, [field.name]: null };
+                this.deferredLookups.push({ objectType, sourceId: record.Id, field: field.name, parentObject, parentSourceId });
+            }
+            parentBatch.push(parentRecord);
+        }
+        return parentBatch;
+    }
+
+    private resolveTargetId(objectType: string, sourceId: string): string | undefined {
+        return this.dryRunTargetIds[objectType]?.[sourceId] || this.idMap?.get(objectType, sourceId);
+    }
+
+    /**
+     * Update pass for deferred lookups. Lookups of records that failed to insert are dropped;
+     * lookups whose parent was never written are reported and left blank.
+     */
+    private async restoreDeferredLookups(options: DataTransferOptions, result: TransferResult): Promise<void> {
+        if (this.deferredLookups.length === 0 || !this.targetConn) { return; }
+
+        result.lookupsDeferred = this.deferredLookups.length;
+        const updatesByObject = new Map<string, Map<string, any>>(); // objectType -> target Id -> update payload
+        const sourceIds = new Map<string, string>(); // target Id -> source Id
+        const unresolved: Record<string, number> = {};
+
+        for (const lookup of this.deferredLookups) {
+            const targetId = this.resolveTargetId(lookup.objectType, lookup.sourceId);
+            const targetField = getTargetField(options.mappings, lookup.objectType, lookup.field);
+            if (!targetId || !targetField) { continue; }
+
+            const parentTargetId = this.resolveTargetId(lookup.parentObject, lookup.parentSourceId);
+            if (!parentTargetId) {
+                const key = `${lookup.objectType}.${lookup.field}`;
+                unresolved[key] = (unresolved[key] || 0) + 1;
+                continue;
+            }
+
+            const updates = updatesByObject.get(lookup.objectType) || new Map<string, any>();
+            updatesByObject.set(lookup.objectType, updates);
+            const payload = updates.get(targetId) || { Id: targetId };
+            payload[targetField] = parentTargetId;
+            updates.set(targetId, payload);
+            sourceIds.set(targetId, lookup.sourceId);
+        }
+
+        for (const [objectType, updates] of updatesByObject) {
+            const payloads = Array.from(updates.values());
+            const fieldCount = (payload: any) => Object.keys(payload).length - 1;
+            if (this.dryRunPlan) {
+                result.lookupsRestored += payloads.reduce((sum, payload) => sum + fieldCount(payload), 0);
+                continue;
+            }
+
+            try {
+                const targetObject = getTargetObject(options.mappings, objectType);
+                // Records this run didn't create (upserted matches) get their lookups' prior values journaled
+                let beforeImages = new Map<string, any>();
+                if (this.journal) {
+                    const created = new Set(this.journal.created[targetObject] || []);
+                    const existingIds = payloads.map(payload => payload.Id).filter(id => !created.has(id));
+                    const fields = Array.from(new Set(payloads.flatMap(payload => Object.keys(payload)))).filter(field => field !== 'Id');
+                    beforeImages = await this.queryBeforeImages(targetObject, 'Id', existingIds, fields);
+                }
+
+                const updateResults = await this.targetConn.update(targetObject, payloads);
+                updateResults.forEach((updateResult, index) => {
+                    result.ledger.push(createLedgerEntry(objectType, 'update', sourceIds.get(payloads[index].Id), { ...updateResult, id: payloads[index].Id }));
+                    if (updateResult.success) {
+                        result.lookupsRestored += fieldCount(payloads[index]);
+                        const before = beforeImages.get(payloads[index].Id.toLowerCase());
+                        if (before) {
+                            this.recordUpdated(targetObject, payloads[index].Id, before);
+                        }
+                    } else {
+                        result.errors.push(`${objectType}: failed to restore lookups: ${this.stringifyErrors(updateResult.errors)}`);
+                    }
+                });
+            } catch (error) {
+                result.errors.push(`${objectType}: failed to restore lookups: ${this.stringifyErrors(error)}`);
+            }
+        }
+
+        for (const [field, count] of Object.entries(unresolved)) {
+            result.errors.push(`${field}: ${count} lookups left blank because the referenced record was not transferred`);
+        }
+        this.deferredLookups = [];
+    }
+
+    private maskPayloads(objectType: string, plan: ObjectMaskingPlan, payloads: any[], options: DataTransferOptions, result: TransferResult): void {
+        if (Object.keys(plan).length === 0) { return; }
+
+        const salt = options.masking?.salt || '';
+        for (const payload of payloads) {
+            for (const field of maskRecord(payload, plan, salt)) {
+                const maskedFields = result.maskedFields || (result.maskedFields = {});
+                (maskedFields[objectType] || (maskedFields[objectType] = {}))[field] = plan[field];
+            }
+        }
+    }
+
+    private getRuleOnlyFields(rules: TransformRule[], metadata: any): string[] {
+        const targets = new Set(rules.map(rule => rule.field));
+        return rules
+            .flatMap(getReferencedFields)
+            .filter(name => !targets.has(name) && !metadata.fields.some((field: any) => field.name === name && (field.createable || field.updateable)));
+    }
+
+    private async applySchemaExclusions(objectTypes: string[], options: DataTransferOptions, result: TransferResult): Promise<void> {
+        const diffs = await this.compareSchemas(objectTypes, options.transferMode, options.mappings, options.recordTypeMapping);
+        this.excludedFields = getIncompatibleFields(diffs);
+        result.excludedFields = this.excludedFields;
+        for (const diff of diffs.filter(diff => diff.missingInTarget)) {
+            result.errors.push(`${diff.objectType}: object ${getTargetObject(options.mappings, diff.objectType)} does not exist in the target org`);
+        }
+    }
+
+    private isExcludedField(objectType: string, fieldName: string): boolean {
+        return this.excludedFields[objectType]?.includes(fieldName) || false;
+    }
+
+    /**
+     * Persist Id mappings; a dry run only uses them to resolve lookups and never saves changes
+     */
+    private async flushIdMap(): Promise<void> {
+        if (!this.dryRunPlan) {
+            await this.idMap?.flush();
+        }
+    }
+
+    private createCheckpoint(options: DataTransferOptions, resumeFrom?: TransferCheckpoint): TransferCheckpoint {
+        if (resumeFrom) {
+            return { ...resumeFrom, completedObjects: [...resumeFrom.completedObjects] };
+        }
+
+        // Never persist org connection details (access tokens)
+        const { sourceOrg, targetOrg, ...persistableOptions } = options;
+        // The masking salt stays in the user's settings
+        if (persistableOptions.masking) {
+            persistableOptions.masking = { ...persistableOptions.masking, salt: undefined };
+        }
+        const now = new Date().toISOString();
+        return {
+            sourceUsername: sourceOrg.username,
+            targetUsername: targetOrg.username,
+            sourceLabel: sourceOrg.alias || sourceOrg.username,
+            targetLabel: targetOrg.alias || targetOrg.username,
+            startedAt: now,
+            updatedAt: now,
+            options: persistableOptions,
+            completedObjects: [],
+            processedCount: 0,
+            idMap: {},
+            totals: {
+                recordsTransferred: 0,
+                recordsCreated: 0,
+                recordsUpdated: 0,
+                recordsSucceededAfterRetry: 0,
+                writtenByObject: {}
+            }
+        };
+    }
+
+    /**
+     * Record the batch that was just committed so the transfer can resume after it
+     */
+    private async saveCheckpoint(objectType: string, processedCount: number, lastSourceId: string | undefined, result: TransferResult): Promise<void> {
+        if (!this.checkpoint || this.dryRunPlan) {
+            await this.persistProgress();
+            return;
+        }
+
+        this.checkpoint.currentObject = objectType;
+        this.checkpoint.processedCount = processedCount;
+        this.checkpoint.lastSourceId = lastSourceId;
+        this.checkpoint.idMap = this.idMap ? this.idMap.getSessionEntries() : {};
+        this.checkpoint.deferredLookups = this.deferredLookups;
+        this.checkpoint.totals = {
+            recordsTransferred: result.recordsTransferred,
+            recordsCreated: result.recordsCreated,
+            recordsUpdated: result.recordsUpdated,
+            recordsSucceededAfterRetry: result.recordsSucceededAfterRetry,
+            writtenByObject: { ...result.writtenByObject }
+        };
+        await this.persistProgress();
+    }
+
+    private async completeCheckpointObject(objectType: string, result: TransferResult): Promise<void> {
+        if (!this.checkpoint) { return; }
+
+        this.checkpoint.completedObjects.push(objectType);
+        await this.saveCheckpoint(objectType, 0, undefined, result);
+        this.checkpoint.currentObject = undefined;
+    }
+
+    /**
+     * Write the Id map, journal and checkpoint to workspace state after every committed batch,
+     * so a crash never loses records that already exist in the target
+     */
+    private async persistProgress(): Promise<void> {
+        await this.flushIdMap();
+        await this.saveJournal();
+        if (this.checkpoint && this.checkpointStore && !this.dryRunPlan) {
+            await this.checkpointStore.save(this.checkpoint);
+        }
+    }
+
+    /**
+     * Drop the checkpoint once every object has been fully processed; keep it otherwise so the run can resume
+     */
+    private async finishCheckpoint(objectTypes: string[]): Promise<void> {
+        if (!this.checkpoint || !this.checkpointStore || this.dryRunPlan) {
+            this.checkpoint = null;
+            return;
+        }
+
+        if (objectTypes.every(objectType => this.checkpoint!.completedObjects.includes(objectType))) {
+            await this.checkpointStore.clear({ username: this.checkpoint.sourceUsername }, { username: this.checkpoint.targetUsername });
+        } else {
+            await this.checkpointStore.save(this.checkpoint);
+        }
+        this.checkpoint = null;
+    }
+
+    private createJournal(options: DataTransferOptions, resumeFrom?: TransferCheckpoint): TransferJournal {
+        const journalId = resumeFrom?.journalId || options.retry?.journalId;
+        const resumed = journalId ? this.journalStore?.get(journalId) : undefined;
+        if (resumed) {
+            return resumed;
+        }
+
+        const startedAt = new Date().toISOString();
+        return {
+            id: `${startedAt.replace(/\D/g, '')}-${Math.random().toString(36).slice(2, 8)}`,
+            sourceUsername: options.sourceOrg.username,
+            targetUsername: options.targetOrg.username,
+            sourceLabel: options.sourceOrg.alias || options.sourceOrg.username,
+            targetLabel: options.targetOrg.alias || options.targetOrg.username,
+            startedAt,
+            order: [],
+            created: {},
+            updated: {}
+        };
+    }
+
+    private recordCreated(targetObject: string, targetId: string): void {
+        if (!this.journal) { return; }
+
+        if (!this.journal.order.includes(targetObject)) {
+            this.journal.order.push(targetObject);
+        }
+        (this.journal.created[targetObject] || (this.journal.created[targetObject] = [])).push(targetId);
+    }
+
+    /**
+     * Keep the values a record had before this run first changed it
+     */
+    private recordUpdated(targetObject: string, targetId: string, before: Record<string, any>): void {
+        if (!this.journal) { return; }
+
+        const updated = this.journal.updated[targetObject] || (this.journal.updated[targetObject] = {});
+        updated[targetId] = { ...before, ...updated[targetId] };
+    }
+
+    /**
+     * Persist the journal; returns false when there is nothing to roll back
+     */
+    private async saveJournal(): Promise<boolean> {
+        if (!this.journal || !this.journalStore) { return false; }
+
+        const hasChanges = Object.values(this.journal.created).some(ids => ids.length > 0)
+            || Object.values(this.journal.updated).some(records => Object.keys(records).length > 0);
+        if (hasChanges) {
+            await this.journalStore.save(this.journal);
+        }
+        return hasChanges;
+    }
+
+    /**
+     * Values of `fields` for the target records whose `matchField` is one of `values`,
+     * keyed by the lower-cased match value (external IDs match case-insensitively)
+     */
+    private async queryBeforeImages(targetObject: string, matchField: string, values: any[], fields: string[]): Promise<Map<string, any>> {
+        const images = new Map<string, any>();
+        if (!this.targetConn || values.length === 0) { return images; }
+
+        const selectFields = Array.from(new Set(['Id', matchField, ...fields]));
+        const literal = (value: any) => typeof value === 'number' || typeof value === 'boolean' ? String(value) : `'${String(value).replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+        const chunkSize = 200;
+        for (let i = 0; i < values.length; i += chunkSize) {
+            const chunk = values.slice(i, i + chunkSize);
+            const resp = await this.targetConn.queryAllPages(`SELECT ${selectFields.join(', ')} FROM ${targetObject} WHERE ${matchField} IN (${chunk.map(literal).join(', ')})`);
+            for (const record of resp.records || []) {
+                images.set(String(record[matchField]).toLowerCase(), Object.fromEntries(fields.map(field => [field, record[field] ?? null])));
+            }
+        }
+        return images;
+    }
+
+    /**
+     * Lookup field of a relationship: custom relationships end in __r (field __c), standard ones drop the field's Id suffix
+     */
+    private getReferenceFieldName(relationshipName: string): string {
+        return relationshipName.endsWith('__r') ? `${relationshipName.slice(0, -3)}__c` : `${relationshipName}Id`;
+    }
+
+    private parseFromObject(soql: string): string | null {
+        // A simple regex to capture the first token after FROM (handling optional alias and newlines)
+        // Example: SELECT ... FROM Account a WHERE ...
+        const m = /\bFROM\s+([a-zA-Z0-9_]+)\b/i.exec(soql);
+        return m ? m[1] : null;
+    }
+
+    private async transferByQuery(soql: string, options: DataTransferOptions, result: TransferResult, token?: vscode.CancellationToken): Promise<void> {
+        if (!this.sourceConn || !this.targetConn) {
+            throw new Error('Connections not initialized');
+        }
+
+        const objectType = this.parseFromObject(soql);
+        if (!objectType) {
+            throw new Error('Unable to determine object type from SOQL query');
+        }
+
+        try {
+            let useBulk: boolean;
+            let records: any[];
+            if (options.retry) {
+                // Same fields as the query, but only the records being retried
+                const selectClause = /^[\s\S]*?\bFROM\s+[a-zA-Z0-9_]+/i.exec(soql)![0];
+                records = await this.fetchRecordsById(selectClause, options.retry.recordIds[objectType] || [], options);
+                useBulk = this.shouldUseBulkForCount(records.length, options);
+            } else {
+                useBulk = await this.shouldUseBulk(this.buildCountQuery(soql), options);
+                records = await this.fetchSourceRecords(soql, useBulk, options);
+            }
+
+            if (records.length === 0) {
+                this.emitProgress({ type: 'objectCompleted', objectType, recordsTransferred: 0, failureCount: 0 });
+                await this.completeCheckpointObject(objectType, result);
+                return;
+            }
+
+            const metadata = await this.sourceConn.describe(objectType);
+            await this.processRecords(objectType, metadata, records, useBulk, options, result, token);
+
+        } catch (error) {
+            result.errors.push(`Error transferring by query for ${objectType}: ${this.stringifyErrors(error)}`);
+        }
+    }
+
+    private async transferObjectRecords(
+        objectType: string, 
+        options: DataTransferOptions, 
+        result: TransferResult,
+        token?: vscode.CancellationToken
+    ): Promise<void> {
+        if (!this.sourceConn || !this.targetConn) {
+            throw new Error('Connections not initialized');
+        }
+
+        try {
+            // Get object metadata to understand fields and relationships
+            const metadata = await this.sourceConn.describe(objectType);
+            
+            // Build SOQL query with writable fields
+            const baseFields = metadata.fields
+                .filter((field: any) => (field.createable || field.updateable) && !this.isExcludedField(objectType, field.name))
+                .map((field: any) => field.name)
+                .join(', ');
+
+            // Add relationship fields if requested: the actual parent type of polymorphic lookups
+            let relationshipFields = '';
+            if (options.includeRelationships) {
+                const relationshipFieldNames = metadata.fields
+                    .filter((field: any) => field.type === 'reference' && field.relationshipName && field.referenceTo?.length > 1)
+                    .map((field: any) => `${field.relationshipName}.Type`)
+                    .join(', ');
+                
+                if (relationshipFieldNames) {
+                    relationshipFields = `, ${relationshipFieldNames}`;
+                }
+            }
+
+            // Apply record limit if configured for this object
+            const limitClause = options.recordLimits && options.recordLimits[objectType]
+                ? ` LIMIT ${options.recordLimits[objectType]}`
+                : '';
+
+            // Read-only fields that transformation rules copy from
+            const writableFields = new Set(baseFields.split(', '));
+            const ruleFields = (options.transformRules?.[objectType] || [])
+                .flatMap(getReferencedFields)
+                .filter(name => name !== 'Id' && !writableFields.has(name) && metadata.fields.some((field: any) => field.name === name));
+            // File objects also read the size of their content, checked before it is downloaded
+            const fileObject = FILE_OBJECTS[objectType];
+            if (fileObject && !writableFields.has(fileObject.sizeField)) {
+                ruleFields.push(fileObject.sizeField);
+            }
+            const extraFields = Array.from(new Set(ruleFields)).map(name => `, ${name}`).join('');
+            // Only the latest version of each file; older versions would become separate documents
+            const fileFilter = objectType === 'ContentVersion' ? 'IsLatest = true' : undefined;
+
+            const fields = baseFields; // keep naming stable for downstream
+            // Id identifies records for Id mappings and checkpoints; removeSystemFields keeps it out of payloads.
+            // Ordered by Id so a limited query selects the same records when the transfer is resumed.
+            const selectClause = `SELECT Id, ${fields}${extraFields}${relationshipFields} FROM ${objectType}`;
+            const query = `${selectClause}${fileFilter ? ` WHERE ${fileFilter}` : ''} ORDER BY Id${limitClause}`;
+
+            let records: any[];
+            let useBulk: boolean;
+            if (options.retry || this.cascadeFilters[objectType]) {
+                // Only the records being retried, or the children of transferred parents; their number decides the write API
+                records = options.retry
+                    ? await this.fetchRecordsById(selectClause, options.retry.recordIds[objectType] || [], options, fileFilter)
+                    : await this.fetchCascadeRecords(objectType, selectClause, options, fileFilter);
+                useBulk = !fileObject && this.shouldUseBulkForCount(records.length, options);
+            } else {
+                // Pick REST or Bulk API based on how many records will be moved. Bulk queries and
+                // ingest jobs can't carry file content, so file objects always use REST.
+                const countQuery = `SELECT COUNT() FROM ${objectType}${fileFilter ? ` WHERE ${fileFilter}` : ''}${limitClause}`;
+                useBulk = !fileObject && await this.shouldUseBulk(countQuery, options);
+
+                // Execute query and get records (following nextRecordsUrl for large result sets)
+                records = await this.fetchSourceRecords(query, useBulk, options);
+            }
+
+            if (records.length === 0) {
+                this.emitProgress({ type: 'objectCompleted', objectType, recordsTransferred: 0, failureCount: 0 });
+                await this.completeCheckpointObject(objectType, result);
+                return;
+            }
+
+            await this.processRecords(objectType, metadata, records, useBulk, options, result, token);
+
+        } catch (error) {
+            result.errors.push(`Error transferring ${objectType}: ${this.stringifyErrors(error)}`);
+        }
+    }
+
+    /**
+     * Clean, relationship-map and write source records to the target org batch by batch,
+     * reporting progress after each batch
+     */
+    private async processRecords(
+        objectType: string,
+        metadata: any,
+        records: any[],
+        useBulk: boolean,
+        options: DataTransferOptions,
+        result: TransferResult,
+        token?: vscode.CancellationToken
+    ): Promise<void> {
+        // Process records in a stable order so a checkpoint can point at the last committed record
+        if (records.length > 0 && records[0].Id) {
+            records = [...records].sort((a, b) => (a.Id < b.Id ? -1 : a.Id > b.Id ? 1 : 0));
+        }
+
+        // Skip records committed before the checkpoint when resuming this object
+        let startIndex = 0;
+        if (this.checkpoint?.currentObject === objectType) {
+            const lastSourceId = this.checkpoint.lastSourceId;
+            startIndex = lastSourceId
+                ? records.filter(record => record.Id && record.Id <= lastSourceId).length
+                : this.checkpoint.processedCount;
+        }
+
+        // Process records in batches (one ingest job per batch when using Bulk API)
+        const fileObject = FILE_OBJECTS[objectType];
+        const batchSize = useBulk ? BULK_BATCH_SIZE : fileObject ? Math.min(options.batchSize || 200, FILE_BATCH_SIZE) : (options.batchSize || 200);
+        const totalBatches = Math.ceil(records.length / batchSize);
+        const maskingPlan = buildMaskingPlan(objectType, metadata, options.masking);
+        const deferrableParents = new Set(this.transferOrder.slice(Math.max(this.transferOrder.indexOf(objectType), 0)));
+        deferrableParents.add(objectType);
+        let recordsTransferred = 0;
+        let failureCount = 0;
+        let completed = false;
+
+        this.emitProgress({ type: 'objectStarted', objectType, totalRecords: records.length, totalBatches });
+
+        try {
+            for (let i = startIndex; i < records.length; i += batchSize) {
+                // Stop cleanly between batches so nothing is left half-written
+                if (token?.isCancellationRequested) {
+                    result.cancelled = true;
+                    return;
+                }
+
+                const batch = records.slice(i, i + batchSize);
+
+                // Clean records for insertion (remove Id, system fields, etc.)
+                const cleanedBatch = batch.map((record: any) => {
+                    const cleaned: any = { ...record };
+                    // Remove system fields that are automatically managed by Salesforce
+                    this.removeSystemFields(cleaned);
+                    // Queried relationship objects (e.g. What.Type) are only read, never written
+                    for (const field of metadata.fields) {
+                        if (field.type === 'reference' && field.relationshipName && cleaned[field.relationshipName] && typeof cleaned[field.relationshipName] === 'object') {
+                            delete cleaned[field.relationshipName];
+                        }
+                    }
+                    for (const field of this.excludedFields[objectType] || []) {
+                        delete cleaned[field];
+                    }
+                    // File content is queried as a download URL; it is fetched and uploaded when the record is written
+                    if (fileObject) {
+                        delete cleaned[fileObject.blobField];
+                        delete cleaned[fileObject.sizeField];
+                        // Set only to add a version to an existing document, which doesn't exist in the target
+                        delete cleaned.ContentDocumentId;
+                    }
+                    return cleaned;
+                });
+
+                // Lookups to this object or one written later are blanked now and restored in the update pass
+                const parentBatch = await this.deferLookups(objectType, metadata, batch, cleanedBatch, deferrableParents);
+
+                // If relationship handling is enabled, ensure parent records exist in target
+                if (options.includeRelationships) {
+                    const idMap: Record<string, string> = await this.ensureParentRecordsExistNew(objectType, metadata, parentBatch, result, options);
+                    // Remap lookup fields on cleanedBatch using source->target Id map
+                    const referenceFields = metadata.fields.filter((f: any) => f.type === 'reference' && Array.isArray(f.referenceTo) && f.referenceTo.length > 0);
+                    cleanedBatch.forEach((cleaned: any, idx: number) => {
+                        const original = parentBatch[idx];
+                        for (const ref of referenceFields) {
+                            const srcId = original[ref.name];
+                            if (srcId && idMap[srcId]) {
+                                cleaned[ref.name] = idMap[srcId];
+                            }
+                        }
+                    });
+                }
+
+                this.remapCascadeLookups(objectType, batch, cleanedBatch);
+                this.applyOwnerMapping(metadata, batch, cleanedBatch, result);
+                this.applyRecordTypeMapping(batch, cleanedBatch, result);
+
+                // Apply value transformations; fields queried only for the rules are not sent
+                const rules = options.transformRules?.[objectType];
+                if (rules && rules.length > 0) {
+                    const ruleOnlyFields = this.getRuleOnlyFields(rules, metadata);
+                    cleanedBatch.forEach((cleaned: any, idx: number) => {
+                        ruleOnlyFields.forEach(field => delete cleaned[field]);
+                        applyTransformRules(rules, cleaned, batch[idx]);
+                    });
+                }
+
+                this.maskPayloads(objectType, maskingPlan, cleanedBatch, options, result);
+
+                // Rename/drop fields for the target object (after lookups were remapped by source field name)
+                cleanedBatch.forEach((cleaned: any) => applyFieldMapping(options.mappings, objectType, cleaned));
+
+                // Insert or upsert records into target org
+                const batchOutcome = await this.writeBatch(objectType, cleanedBatch, batch, options, result, useBulk);
+                recordsTransferred += batchOutcome.successCount;
+                failureCount += batchOutcome.failureCount;
+
+                // Persist Id mappings, the journal and the checkpoint so an interrupted run keeps what it copied
+                const processedCount = Math.min(i + batchSize, records.length);
+                await this.saveCheckpoint(objectType, processedCount, batch[batch.length - 1]?.Id, result);
+
+                this.emitProgress({
+                    type: 'batchCompleted',
+                    objectType,
+                    batchNumber: Math.ceil(processedCount / batchSize),
+                    totalBatches,
+                    successCount: batchOutcome.successCount,
+                    failureCount: batchOutcome.failureCount,
+                    recordsProcessed: processedCount,
+                    totalRecords: records.length
+                });
+            }
+            // Stop during the last batch aborts a Bulk job; its unprocessed rows are failed in the ledger and can be retried
+            if (token?.isCancellationRequested) {
+                result.cancelled = true;
+                return;
+            }
+            completed = true;
+        } finally {
+            this.emitProgress({ type: 'objectCompleted', objectType, recordsTransferred, failureCount });
+        }
+
+        if (completed) {
+            await this.completeCheckpointObject(objectType, result);
+        }
+    }
+
+    /**
+     * Load the rows of a CSV file into the target object, converting cells to the types of their mapped fields.
+     * Row numbers stand in for source Ids in the ledger, so failed rows can be retried.
+     */
+    private async transferCsvRecords(source: CsvSourceOptions, options: DataTransferOptions, result: TransferResult, token?: vscode.CancellationToken): Promise<void> {
+        if (!this.targetConn) {
+            throw new Error('Connections not initialized');
+        }
+
+        const objectType = source.objectType;
+        try {
+            if (FILE_OBJECTS[objectType]) {
+                throw new Error(`${objectType} records carry file content, which can't be loaded from a CSV file`);
+            }
+
+            const content = Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.file(source.filePath))).toString('utf8').replace(/^\uFEFF/, '');
+            const metadata = await this.targetConn.describe(objectType);
+            const { records, errors } = buildCsvRecords(parseCsvRows(content), source, metadata.fields);
+
+            // A retry only loads the rows that failed last time
+            const retryRows = options.retry ? new Set(options.retry.recordIds[objectType] || []) : null;
+            const isSelected = (row: number) => !retryRows || retryRows.has(String(row));
+
+            // Rows with values that can't be converted are never sent
+            const operation: LedgerOperation = options.transferMode === 'upsert' ? 'upsert' : 'insert';
+            const rowErrors = new Map<number, string[]>();
+            for (const error of errors.filter(error => isSelected(error.row))) {
+                result.errors.push(`${source.label} line ${error.row}, column ${error.column}: ${error.message}`);
+                rowErrors.set(error.row, [...(rowErrors.get(error.row) || []), `${error.column}: ${error.message}`]);
+            }
+            for (const [row, messages] of rowErrors) {
+                result.ledger.push(createFailedLedgerEntry(objectType, operation, String(row), messages.join('; ')));
+            }
+
+            const selected = records.filter(record => isSelected(record.row));
+            const maskingPlan = buildMaskingPlan(objectType, metadata, options.masking);
+            await this.processCsvRecords(objectType, selected, rowErrors.size, maskingPlan, this.shouldUseBulkForCount(selected.length, options), options, result, token);
+
+        } catch (error) {
+            result.errors.push(`Error loading ${source.label} into ${objectType}: ${this.stringifyErrors(error)}`);
+        }
+    }
+
+    /**
+     * Write converted CSV rows batch by batch, masking them like records read from an org and
+     * reporting progress after each batch. Rows that could not be converted count as failures of the object.
+     */
+    private async processCsvRecords(
+        objectType: string,
+        records: CsvRecord[],
+        skippedRows: number,
+        maskingPlan: ObjectMaskingPlan,
+        useBulk: boolean,
+        options: DataTransferOptions,
+        result: TransferResult,
+        token?: vscode.CancellationToken
+    ): Promise<void> {
+        const batchSize = useBulk ? BULK_BATCH_SIZE : (options.batchSize || 200);
+        const totalBatches = Math.ceil(records.length / batchSize);
+        let recordsTransferred = 0;
+        let failureCount = skippedRows;
+
+        this.emitProgress({ type: 'objectStarted', objectType, totalRecords: records.length, totalBatches });
+
+        try {
+            for (let i = 0; i < records.length; i += batchSize) {
+                if (token?.isCancellationRequested) {
+                    result.cancelled = true;
+                    return;
+                }
+
+                const batch = records.slice(i, i + batchSize);
+                const payloads = batch.map(record => record.payload);
+                this.maskPayloads(objectType, maskingPlan, payloads, options, result);
+                const batchOutcome = await this.writeBatch(
+                    objectType,
+                    payloads,
+                    batch.map(record => ({ Id: String(record.row) })),
+                    options,
+                    result,
+                    useBulk
+                );
+                await this.persistProgress();
+                recordsTransferred += batchOutcome.successCount;
+                failureCount += batchOutcome.failureCount;
+
+                const processedCount = Math.min(i + batchSize, records.length);
+                this.emitProgress({
+                    type: 'batchCompleted',
+                    objectType,
+                    batchNumber: Math.ceil(processedCount / batchSize),
+                    totalBatches,
+                    successCount: batchOutcome.successCount,
+                    failureCount: batchOutcome.failureCount,
+                    recordsProcessed: processedCount,
+                    totalRecords: records.length
+                });
+            }
+            result.cancelled = !!token?.isCancellationRequested;
+        } finally {
+            this.emitProgress({ type: 'objectCompleted', objectType, recordsTransferred, failureCount });
+        }
+    }
+
+    /**
+     * Write a cleaned batch to the target org, inserting or upserting depending on the transfer mode
+     */
+    private async writeBatch(objectType: string, cleanedBatch: any[], sourceRecords: any[], options: DataTransferOptions, result: TransferResult, useBulk: boolean = false): Promise<{ successCount: number; failureCount: number }> {
+        if (!this.targetConn || !this.targetBulk) {
+            throw new Error('Connections not initialized');
+        }
+
+        const targetConn = this.targetConn;
+        const targetBulk = this.targetBulk;
+        const targetObject = getTargetObject(options.mappings, objectType);
+        const sourceExternalIdField = options.externalIdMapping?.[objectType];
+        const externalIdField = sourceExternalIdField ? getTargetField(options.mappings, objectType, sourceExternalIdField) : undefined;
+        // Files are always inserted: their content can't be upserted
+        const fileObject = FILE_OBJECTS[objectType];
+        const operation: LedgerOperation = options.transferMode === 'upsert' && !fileObject ? 'upsert' : 'insert';
+        if (operation === 'upsert' && !externalIdField) {
+            const message = `No external ID field specified for ${objectType}. Please configure external ID mapping for upsert mode.`;
+            result.errors.push(message);
+            result.ledger.push(...sourceRecords.map(record => createFailedLedgerEntry(objectType, operation, record?.Id, message)));
+            return { successCount: 0, failureCount: cleanedBatch.length };
+        }
+
+        if (this.dryRunPlan) {
+            this.recordDryRunBatch(objectType, cleanedBatch, sourceRecords, options, useBulk);
+            return { successCount: cleanedBatch.length, failureCount: 0 };
+        }
+
+        const sourceByPayload = new Map(cleanedBatch.map((payload, index) => [payload, sourceRecords[index]]));
+        const submit = async (records: any[]): Promise<any[]> => {
+            if (fileObject) {
+                return this.uploadFiles(objectType, targetObject, fileObject, records, sourceByPayload, options);
+            }
+            if (options.transferMode === 'upsert') {
+                return useBulk
+                    ? targetBulk.ingest(targetObject, 'upsert', records, externalIdField!)
+                    : targetConn.upsert(targetObject, externalIdField!, records);
+            }
+            if (useBulk) {
+                return targetBulk.ingest(targetObject, 'insert', records);
+            }
+            const insertResult = await targetConn.create(targetObject, records);
+            // Single record inserts return one result object instead of an array
+            return Array.isArray(insertResult) ? insertResult : [insertResult];
+        };
+
+        // Upserts can change existing target records; keep their current values so the run can be rolled back
+        let beforeImages = new Map<string, any>();
+        if (this.journal && operation === 'upsert') {
+            // Lookups sent as a reference to the parent's external ID are read back through their Id field
+            const fields = Array.from(new Set(cleanedBatch.flatMap(payload => Object.entries(payload)
+                .map(([field, value]) => value && typeof value === 'object' ? this.getReferenceFieldName(field) : field))))
+                .filter(field => field !== externalIdField);
+            const values = cleanedBatch.map(payload => payload[externalIdField!]).filter(value => value !== null && value !== undefined && value !== '');
+            try {
+                beforeImages = await this.queryBeforeImages(targetObject, externalIdField!, values, fields);
+            } catch (error) {
+                result.errors.push(`${objectType}: could not read existing target records before the upsert, so a rollback can't restore them: ${this.stringifyErrors(error)}`);
+            }
+        }
+
+        let writeResults: any[];
+        try {
+            writeResults = await submit(cleanedBatch);
+        } catch (error) {
+            result.ledger.push(...sourceRecords.map(record => createFailedLedgerEntry(objectType, operation, record?.Id, this.stringifyErrors(error))));
+            throw error;
+        }
+
+        // Resubmit only the rows that failed with a transient error, backing off between attempts
+        const retryPolicy = options.retryPolicy || DEFAULT_RETRY_POLICY;
+        const succeededOnRetry = new Set<number>();
+        let pending = writeResults
+            .map((writeResult, index) => (!writeResult.success && isRetryableRecordError(writeResult.errors)) ? index : -1)
+            .filter(index => index >= 0);
+
+        for (let attempt = 1; pending.length > 0 && attempt < retryPolicy.maxAttempts; attempt++) {
+            await sleep(getRetryDelay(attempt, retryPolicy));
+            const retryResults = await submit(pending.map(index => cleanedBatch[index]));
+            pending.forEach((index, position) => {
+                writeResults[index] = retryResults[position];
+                if (retryResults[position]?.success) {
+                    succeededOnRetry.add(index);
+                }
+            });
+            pending = pending.filter(index => !writeResults[index]?.success && isRetryableRecordError(writeResults[index]?.errors));
+        }
+
+        let successCount = 0;
+        for (const [index, writeResult] of writeResults.entries()) {
+            result.ledger.push(createLedgerEntry(objectType, operation, sourceRecords[index]?.Id, writeResult));
+            if (writeResult.success) {
+                successCount += 1;
+                result.recordsTransferred += 1;
+                if (succeededOnRetry.has(index)) {
+                    result.recordsSucceededAfterRetry += 1;
+                }
+                const sourceId = sourceRecords[index]?.Id;
+                if (sourceId && writeResult.id) {
+                    this.idMap?.set(objectType, sourceId, writeResult.id);
+                }
+                result.writtenByObject[objectType] = (result.writtenByObject[objectType] || 0) + 1;
+                // Inserts don't report `created`; only an upsert can return false here
+                if (writeResult.created === false) {
+                    result.recordsUpdated += 1;
+                    const before = beforeImages.get(String(cleanedBatch[index][externalIdField!]).toLowerCase());
+                    if (before && writeResult.id) {
+                        this.recordUpdated(targetObject, writeResult.id, before);
+                    }
+                } else {
+                    result.recordsCreated += 1;
+                    if (writeResult.id) {
+                        this.recordCreated(targetObject, writeResult.id);
+                    }
+                }
+            } else {
+                const errStr = this.stringifyErrors(writeResult.errors);
+                result.errors.push(`${objectType}: ${errStr || 'Unknown error'}`);
             }
-
-            result.success = result.errors.length === 0;
-            return result;
-
-        } catch (error) {
-            result.errors.push(`Transfer failed: ${error}`);
-            return result;
         }
-    }
 
-    private parseFromObject(soql: string): string | null {
-        // A simple regex to capture the first token after FROM (handling optional alias and newlines)
-        // Example: SELECT ... FROM Account a WHERE ...
-        const m = /\bFROM\s+([a-zA-Z0-9_]+)\b/i.exec(soql);
-        return m ? m[1] : null;
+        return { successCount, failureCount: writeResults.length - successCount };
     }
 
-    private async transferByQuery(soql: string, options: DataTransferOptions, result: TransferResult): Promise<void> {
+    /**
+     * Insert file records one by one with their content downloaded from the source.
+     * Returns one result per record like the collections API, so failures are reported per file.
+     */
+    private async uploadFiles(
+        objectType: string,
+        targetObject: string,
+        fileObject: FileObjectInfo,
+        payloads: any[],
+        sourceByPayload: Map<any, any>,
+        options: DataTransferOptions
+    ): Promise<any[]> {
         if (!this.sourceConn || !this.targetConn) {
             throw new Error('Connections not initialized');
         }
 
-        const objectType = this.parseFromObject(soql);
-        if (!objectType) {
-            throw new Error('Unable to determine object type from SOQL query');
-        }
-
-        try {
-            const queryResult = await this.sourceConn.query(soql);
-            const records: any[] = queryResult.records || [];
+        const maxBytes = (options.maxFileSizeMb ?? DEFAULT_MAX_FILE_SIZE_MB) * 1024 * 1024;
+        const results: any[] = [];
+        for (const payload of payloads) {
+            const source = sourceByPayload.get(payload) || {};
+            const fileName = String(source[fileObject.fileNameField || 'Title'] || source.Title || source.Id);
+            const size = Number(source[fileObject.sizeField] || 0);
+            if (size > maxBytes) {
+                results.push({ success: false, errors: [`${fileName}: ${(size / 1024 / 1024).toFixed(1)} MB exceeds the ${options.maxFileSizeMb ?? DEFAULT_MAX_FILE_SIZE_MB} MB file size limit`] });
+                continue;
+            }
 
-            if (records.length === 0) {
-                return;
+            const record = { ...payload };
+            // A first publish location that wasn't copied would fail the insert; the file is shared through its links instead
+            if (objectType === 'ContentVersion' && record.FirstPublishLocationId && record.FirstPublishLocationId === source.FirstPublishLocationId) {
+                delete record.FirstPublishLocationId;
             }
 
-            const metadata = await this.sourceConn.describe(objectType);
+            try {
+                const content = await this.sourceConn.getBlob(objectType, source.Id, fileObject.blobField);
+                if (fileObject.multipart) {
+                    results.push(await this.targetConn.createWithBlob(targetObject, record, fileObject.blobField, fileName, content));
+                } else {
+                    results.push(await this.targetConn.create(targetObject, [{ ...record, [fileObject.blobField]: content.toString('base64') }]));
+                }
+            } catch (error) {
+                results.push({ success: false, errors: [`${fileName}: ${this.stringifyErrors(error)}`] });
+            }
+        }
+        return results;
+    }
 
-            // Process in batches
-            const batchSize = options.batchSize || 200;
-            for (let i = 0; i < records.length; i += batchSize) {
-                const batch = records.slice(i, i + batchSize);
+    /**
+     * Link the copied files and notes to the copied records they were linked to in the source.
+     * Links to users and the org are left out: owners and libraries get their links automatically.
+     */
+    private async recreateContentDocumentLinks(options: DataTransferOptions, result: TransferResult): Promise<void> {
+        if (!this.sourceConn || !this.targetConn) { return; }
 
-                // Clean records for insertion
-                const cleanedBatch = batch.map((record: any) => {
-                    const cleaned: any = { ...record };
-                    // Remove system fields that are automatically managed by Salesforce
-                    this.removeSystemFields(cleaned);
-                    return cleaned;
-                });
+        const sessionEntries = this.idMap?.getSessionEntries() || {};
+        const versionMap = { ...sessionEntries.ContentVersion, ...this.dryRunTargetIds.ContentVersion };
+        const noteMap = { ...sessionEntries.ContentNote, ...this.dryRunTargetIds.ContentNote };
+        if (Object.keys(versionMap).length === 0 && Object.keys(noteMap).length === 0) { return; }
 
-                // Relationship handling (ensure parents exist and map Ids)
-                if (options.includeRelationships) {
-                    const idMap = await this.ensureParentRecordsExistNew(objectType, metadata, batch, result, options);
-                    const referenceFields = metadata.fields.filter((f: any) => f.type === 'reference' && Array.isArray(f.referenceTo) && f.referenceTo.length > 0);
-                    cleanedBatch.forEach((cleaned: any, idx: number) => {
-                        const original = batch[idx];
-                        for (const ref of referenceFields) {
-                            const srcId = original[ref.name];
-                            if (srcId && idMap[srcId]) {
-                                cleaned[ref.name] = idMap[srcId];
-                            }
-                        }
-                    });
+        const inList = (ids: string[]) => ids.map(id => `'${id}'`).join(', ');
+        const chunkSize = 200;
+        try {
+            // Source ContentDocumentId -> target ContentDocumentId (a note's Id is its document's Id)
+            const documentMap: Record<string, string> = { ...noteMap };
+            const sourceVersionIds = Object.keys(versionMap);
+            for (let i = 0; i < sourceVersionIds.length; i += chunkSize) {
+                const chunk = sourceVersionIds.slice(i, i + chunkSize);
+                const sourceVersions = (await this.sourceConn.queryAllPages(`SELECT Id, ContentDocumentId FROM ContentVersion WHERE Id IN (${inList(chunk)})`)).records || [];
+                const targetDocuments: Record<string, string> = {};
+                if (!this.dryRunPlan) {
+                    const targetVersions = await this.targetConn.queryAllPages(`SELECT Id, ContentDocumentId FROM ContentVersion WHERE Id IN (${inList(chunk.map(id => versionMap[id]))})`);
+                    for (const version of targetVersions.records || []) {
+                        targetDocuments[version.Id] = version.ContentDocumentId;
+                    }
                 }
+                for (const version of sourceVersions) {
+                    const targetDocument = this.dryRunPlan ? versionMap[version.Id] : targetDocuments[versionMap[version.Id]];
+                    if (targetDocument) {
+                        documentMap[version.ContentDocumentId] = targetDocument;
+                    }
+                }
+            }
 
-                // Insert into target
-                const insertResult = await this.targetConn.create(objectType, cleanedBatch);
-
-                if (Array.isArray(insertResult)) {
-                    const successCount = insertResult.filter(r => r.success).length;
-                    result.recordsTransferred += successCount;
-                    const failures = insertResult.filter(r => !r.success);
-                    failures.forEach(failure => {
-                        const errStr = this.stringifyErrors((failure as any).errors);
-                        result.errors.push(`${objectType}: ${errStr || 'Unknown error'}`);
-                    });
-                } else if (insertResult.success) {
-                    result.recordsTransferred += 1;
-                } else {
-                    const errStr = this.stringifyErrors((insertResult as any).errors);
-                    result.errors.push(`${objectType}: ${errStr || 'Unknown error'}`);
+            const sourceDocumentIds = Object.keys(documentMap);
+            const links: any[] = [];
+            for (let i = 0; i < sourceDocumentIds.length; i += chunkSize) {
+                const chunk = sourceDocumentIds.slice(i, i + chunkSize);
+                const resp = await this.sourceConn.queryAllPages(`SELECT ContentDocumentId, LinkedEntityId, ShareType, Visibility FROM ContentDocumentLink WHERE ContentDocumentId IN (${inList(chunk)})`);
+                for (const link of resp.records || []) {
+                    if (OWNER_KEY_PREFIXES.includes(link.LinkedEntityId.substring(0, 3)) || link.LinkedEntityId.startsWith('00D')) { continue; }
+
+                    const linkedObject = await this.getObjectTypeForId(link.LinkedEntityId);
+                    const linkedEntityId = linkedObject ? this.resolveTargetId(linkedObject, link.LinkedEntityId) : undefined;
+                    if (linkedEntityId) {
+                        links.push({
+                            ContentDocumentId: documentMap[link.ContentDocumentId],
+                            LinkedEntityId: linkedEntityId,
+                            ShareType: link.ShareType,
+                            Visibility: link.Visibility
+                        });
+                    }
                 }
             }
+            if (links.length === 0) { return; }
+
+            this.emitProgress({ type: 'objectStarted', objectType: 'ContentDocumentLink', totalRecords: links.length, totalBatches: 1 });
+            let linked = 0;
+            let failed = 0;
+            if (this.dryRunPlan) {
+                this.recordDryRunBatch('ContentDocumentLink', links, [], options, false);
+                linked = links.length;
+            } else {
+                // Files published to a copied record already have that link
+                const targetDocumentIds = Array.from(new Set(links.map(link => link.ContentDocumentId)));
+                const existing = new Set<string>();
+                for (let i = 0; i < targetDocumentIds.length; i += chunkSize) {
+                    const resp = await this.targetConn.queryAllPages(`SELECT ContentDocumentId, LinkedEntityId FROM ContentDocumentLink WHERE ContentDocumentId IN (${inList(targetDocumentIds.slice(i, i + chunkSize))})`);
+                    (resp.records || []).forEach((link: any) => existing.add(`${link.ContentDocumentId}:${link.LinkedEntityId}`));
+                }
 
+                const newLinks = links.filter(link => !existing.has(`${link.ContentDocumentId}:${link.LinkedEntityId}`));
+                if (newLinks.length > 0) {
+                    const createResult = await this.targetConn.create('ContentDocumentLink', newLinks);
+                    for (const linkResult of Array.isArray(createResult) ? createResult : [createResult]) {
+                        if (linkResult.success) {
+                            linked++;
+                            this.recordCreated('ContentDocumentLink', linkResult.id);
+                        } else {
+                            failed++;
+                            result.errors.push(`ContentDocumentLink: ${this.stringifyErrors(linkResult.errors)}`);
+                        }
+                    }
+                }
+                result.writtenByObject.ContentDocumentLink = (result.writtenByObject.ContentDocumentLink || 0) + linked;
+            }
+            this.emitProgress({ type: 'objectCompleted', objectType: 'ContentDocumentLink', recordsTransferred: linked, failureCount: failed });
         } catch (error) {
-            result.errors.push(`Error transferring by query for ${objectType}: ${this.stringifyErrors(error)}`);
+            result.errors.push(`Error linking files to records: ${this.stringifyErrors(error)}`);
         }
     }
 
-    private async transferObjectRecords(
-        objectType: string, 
-        options: DataTransferOptions, 
-        result: TransferResult
-    ): Promise<void> {
-        if (!this.sourceConn || !this.targetConn) {
+    /**
+     * Dry run: record what writeBatch would send instead of sending it
+     */
+    private recordDryRunBatch(objectType: string, cleanedBatch: any[], sourceRecords: any[], options: DataTransferOptions, useBulk: boolean): void {
+        const objectPlan = this.getDryRunObjectPlan(objectType, options);
+        objectPlan.api = useBulk ? 'bulk' : 'rest';
+        objectPlan.recordCount += cleanedBatch.length;
+
+        const fields = new Set(objectPlan.fields);
+        cleanedBatch.forEach(payload => Object.keys(payload).forEach(field => fields.add(field)));
+        objectPlan.fields = Array.from(fields);
+
+        const sampleSize = options.dryRunSampleSize ?? DEFAULT_DRY_RUN_SAMPLE_SIZE;
+        objectPlan.samplePayloads.push(...cleanedBatch.slice(0, Math.max(sampleSize - objectPlan.samplePayloads.length, 0)));
+
+        // Later objects can then resolve lookups to these records as if they had been written
+        for (const sourceRecord of sourceRecords) {
+            if (sourceRecord?.Id) {
+                this.setDryRunTargetId(objectType, sourceRecord.Id);
+            }
+        }
+    }
+
+    private getDryRunObjectPlan(objectType: string, options: DataTransferOptions): DryRunObjectPlan {
+        let objectPlan = this.dryRunPlan!.objects.find(plan => plan.objectType === objectType);
+        if (!objectPlan) {
+            const externalIdField = options.externalIdMapping?.[objectType];
+            objectPlan = {
+                objectType,
+                targetObject: getTargetObject(options.mappings, objectType),
+                operation: options.transferMode,
+                externalIdField: options.transferMode === 'upsert' && externalIdField ? getTargetField(options.mappings, objectType, externalIdField) || undefined : undefined,
+                api: 'rest',
+                recordCount: 0,
+                fields: [],
+                samplePayloads: [],
+                parents: {}
+            };
+            this.dryRunPlan!.objects.push(objectPlan);
+        }
+        return objectPlan;
+    }
+
+    private setDryRunTargetId(objectType: string, sourceId: string): string {
+        const targetIds = this.dryRunTargetIds[objectType] || (this.dryRunTargetIds[objectType] = {});
+        return targetIds[sourceId] || (targetIds[sourceId] = placeholderId(objectType, sourceId));
+    }
+
+    /**
+     * Decide whether an extraction should run through Bulk API 2.0.
+     * In 'auto' mode the record count is checked against the configured threshold.
+     */
+    private async shouldUseBulk(countQuery: string, options: DataTransferOptions): Promise<boolean> {
+        if (!this.sourceConn) {
             throw new Error('Connections not initialized');
         }
 
+        const apiMode = options.apiMode || 'auto';
+        if (apiMode !== 'auto') {
+            return apiMode === 'bulk';
+        }
+
         try {
-            // Get object metadata to understand fields and relationships
-            const metadata = await this.sourceConn.describe(objectType);
-            
-            // Build SOQL query with writable fields
-            const baseFields = metadata.fields
-                .filter((field: any) => field.createable || field.updateable)
-                .map((field: any) => field.name)
-                .join(', ');
+            const countResult = await this.sourceConn.query(countQuery);
+            let recordCount: number = countResult.totalSize || 0;
 
-            // Add relationship fields if requested
-            let relationshipFields = '';
-            if (options.includeRelationships) {
-                const relationshipFieldNames = metadata.fields
-                    .filter((field: any) => field.type === 'reference' && field.relationshipName)
-                    .map((field: any) => field.relationshipName)
-                    .join(', ');
-                
-                if (relationshipFieldNames) {
-                    relationshipFields = `, ${relationshipFieldNames}`;
-                }
+            // COUNT() ignores LIMIT, so apply it ourselves
+            const limitMatch = /\bLIMIT\s+(\d+)\s*$/i.exec(countQuery);
+            if (limitMatch) {
+                recordCount = Math.min(recordCount, parseInt(limitMatch[1], 10));
             }
 
-            // Apply record limit if configured for this object
-            const limitClause = options.recordLimits && options.recordLimits[objectType]
-                ? ` LIMIT ${options.recordLimits[objectType]}`
-                : '';
-
-            const fields = baseFields; // keep naming stable for downstream
-            const query = `SELECT ${fields}${relationshipFields} FROM ${objectType}${limitClause}`;
-            
-            // Execute query and get records
-            const queryResult = await this.sourceConn.query(query);
-            const records = queryResult.records;
+            return recordCount > (options.bulkThreshold || DEFAULT_BULK_THRESHOLD);
+        } catch {
+            // Counting is only an optimisation - fall back to REST if it fails
+            return false;
+        }
+    }
 
-            if (records.length === 0) {
-                return;
-            }
+    /**
+     * Same choice as shouldUseBulk for records that were already fetched
+     */
+    private shouldUseBulkForCount(recordCount: number, options: DataTransferOptions): boolean {
+        const apiMode = options.apiMode || 'auto';
+        return apiMode === 'auto' ? recordCount > (options.bulkThreshold || DEFAULT_BULK_THRESHOLD) : apiMode === 'bulk';
+    }
 
-            // Process records in batches
-            const batchSize = options.batchSize || 200;
-            for (let i = 0; i < records.length; i += batchSize) {
-                const batch = records.slice(i, i + batchSize);
-                
-                // Clean records for insertion (remove Id, system fields, etc.)
-                const cleanedBatch = batch.map((record: any) => {
-                    const cleaned: any = { ...record };
-                    // Remove system fields that are automatically managed by Salesforce
-                    this.removeSystemFields(cleaned);
-                    return cleaned;
-                });
+    private async fetchSourceRecords(soql: string, useBulk: boolean, options: DataTransferOptions): Promise<any[]> {
+        if (!this.sourceConn || !this.sourceBulk) {
+            throw new Error('Connections not initialized');
+        }
 
-                // If relationship handling is enabled, ensure parent records exist in target
-                        if (options.includeRelationships) {
-                            const idMap: Record<string, string> = await this.ensureParentRecordsExistNew(objectType, metadata, batch, result, options);
-                            // Remap lookup fields on cleanedBatch using source->target Id map
-                            const referenceFields = metadata.fields.filter((f: any) => f.type === 'reference' && Array.isArray(f.referenceTo) && f.referenceTo.length > 0);
-                            cleanedBatch.forEach((cleaned: any, idx: number) => {
-                                const original = batch[idx];
-                                for (const ref of referenceFields) {
-                                    const srcId = original[ref.name];
-                                    if (srcId && idMap[srcId]) {
-                                        cleaned[ref.name] = idMap[srcId];
-                                    }
-                                }
-                            });
-                        }
+        if (useBulk) {
+            return this.sourceBulk.query(soql);
+        }
 
-                // Insert records into target org
-                const insertResult = await this.targetConn.create(objectType, cleanedBatch);
-                
-                // Handle results
-                if (Array.isArray(insertResult)) {
-                    const successCount = insertResult.filter(r => r.success).length;
-                    result.recordsTransferred += successCount;
-                    
-                    const failures = insertResult.filter(r => !r.success);
-                    failures.forEach(failure => {
-                        const errStr = this.stringifyErrors((failure as any).errors);
-                        result.errors.push(`${objectType}: ${errStr || 'Unknown error'}`);
-                    });
-                } else if (insertResult.success) {
-                    result.recordsTransferred += 1;
-                } else {
-                    const errStr = this.stringifyErrors((insertResult as any).errors);
-                    result.errors.push(`${objectType}: ${errStr || 'Unknown error'}`);
-                }
-            }
+        const queryResult = await this.sourceConn.queryAllPages(soql, options.batchSize);
+        return queryResult.records || [];
+    }
 
-        } catch (error) {
-            result.errors.push(`Error transferring ${objectType}: ${this.stringifyErrors(error)}`);
+    /**
+     * Convert SELECT ... FROM Object WHERE ... into SELECT COUNT() FROM Object WHERE ...
+     * keeping any LIMIT so the caller can cap the count.
+     */
+    private buildCountQuery(soql: string): string {
+        const fromMatch = /\sFROM\s/i.exec(soql);
+        if (!fromMatch) {
+            return soql;
         }
+
+        const limitMatch = /\s+LIMIT\s+\d+\s*$/i.exec(soql);
+        let fromPart = soql.substring(fromMatch.index, limitMatch ? limitMatch.index : soql.length);
+        fromPart = fromPart.replace(/\s+ORDER\s+BY\s+.*$/is, '');
+
+        return `SELECT COUNT()${fromPart}${limitMatch ? limitMatch[0] : ''}`;
     }
 
     public async getObjectTypes(): Promise<string[]> {
@@ -555,6 +2270,10 @@ export class DataTransferService {
         return null;
     }
 
+    /**
+     * First page of a query's results (up to 2000 records), for previews and validation.
+     * `totalSize` still counts every match; transfers read all pages through queryAllPages.
+     */
     public async executeQuery(soql: string): Promise<any> {
         if (!this.sourceConn) {
             throw new Error('Source connection not initialized');
@@ -578,12 +2297,12 @@ export class DataTransferService {
             for (const objectType of objectTypes) {
                 const metadata = await this.sourceConn.describe(objectType);
                 const relatedObjects = metadata.fields
-                    .filter((field: any) => field.type === 'reference' && field.referenceTo)
-                    .map((field: any) => field.referenceTo?.[0])
-                    .filter((ref: any) => ref && objectTypes.includes(ref)) as string[];
+                    .filter((field: any) => field.type === 'reference' && Array.isArray(field.referenceTo))
+                    .flatMap((field: any) => field.referenceTo as string[])
+                    .filter((ref: string) => ref && objectTypes.includes(ref)) as string[];
                 
                 if (relatedObjects.length > 0) {
-                    relationships.set(objectType, relatedObjects);
+                    relationships.set(objectType, [...new Set(relatedObjects)]);
                 }
             }
 
@@ -594,199 +2313,239 @@ export class DataTransferService {
     }
 
     /**
-     * Ensure parent records referenced by lookup fields exist in target org.
-     * Strategy:
-     * - Identify reference fields for this object
-     * - Collect unique parent Ids from the batch
-     * - Fetch parent records from source (only needed key fields)
-     * - Try to upsert into target using External Id fields if available; otherwise, naive insert if not existing
+     * Work out the order objects must be transferred in so parents land before their children
+     */
+    public async planTransfer(objectTypes: string[]): Promise<TransferPlan> {
+        const relationships = await this.analyzeRelationships(objectTypes);
+        return planTransferOrder(objectTypes, relationships);
+    }
+
+    /**
+     * New approach: Handle relationships based on transfer mode and user configuration
      */
-    private async ensureParentRecordsExist(objectType: string, metadata: any, batch: any[], result: TransferResult): Promise<Record<string, string>> {
+    private async ensureParentRecordsExistNew(
+        objectType: string,
+        metadata: any,
+        batch: any[],
+        result: TransferResult,
+        options: DataTransferOptions,
+        // Objects whose records are being resolved below this one (empty for transferred records)
+        ancestry: string[] = []
+    ): Promise<Record<string, string>> {
         if (!this.sourceConn || !this.targetConn) { return {}; }
 
         const referenceFields = metadata.fields.filter((f: any) => f.type === 'reference' && Array.isArray(f.referenceTo) && f.referenceTo.length > 0);
-        if (referenceFields.length === 0) { return {}; } // Early return for no reference fields
+        if (referenceFields.length === 0) { return {}; }
 
         const sourceToTargetId: Record<string, string> = {};
 
-        // Map of parent object -> Set of Ids
-        const parentIdsByObject: Record<string, Set<string>> = {};
-        for (const rec of batch) {
-            for (const ref of referenceFields) {
-                const idVal = rec[ref.name];
-                const parentObject = ref.referenceTo[0];
-                if (idVal && typeof idVal === 'string' && parentObject) {
-                    parentIdsByObject[parentObject] = parentIdsByObject[parentObject] || new Set<string>();
-                    parentIdsByObject[parentObject].add(idVal);
-                }
-            }
-        }
+        // Collect all parent IDs from reference fields, grouped by the object each Id actually belongs to
+        const parentIdsByObject = await this.groupParentIdsByObject(referenceFields, batch);
 
-        // For each parent object, fetch minimal fields and try to ensure existence in target
+        // Process each parent object type
         for (const [parentObject, idSet] of Object.entries(parentIdsByObject)) {
             const ids = Array.from(idSet);
             if (ids.length === 0) { continue; }
 
-            // Describe parent to find candidate external id fields
-            const parentDescribe: any = await this.sourceConn.describe(parentObject);
-            const externalIdFields: string[] = parentDescribe.fields.filter((f: any) => f.externalId).map((f: any) => f.name as string);
-            const nameField: any = parentDescribe.fields.find((f: any) => f.name === 'Name');
-
-            // Build a minimal field list for fetching from source
-            const parentFetchFields = ['Id'];
-            if (nameField) { parentFetchFields.push('Name'); }
-            parentFetchFields.push(...externalIdFields);
-
-            // Split ids into chunks to avoid query length limits
-            const chunkSize = 1000;
-            const fetchedParents: any[] = [];
-            for (let i = 0; i < ids.length; i += chunkSize) {
-                const chunk = ids.slice(i, i + chunkSize);
-                const soql = `SELECT ${parentFetchFields.join(', ')} FROM ${parentObject} WHERE Id IN (${chunk.map(id => `'${id}'`).join(', ')})`;
-                const resp = await this.sourceConn.query(soql);
-                if (resp?.records?.length) { fetchedParents.push(...resp.records); }
-            }
-
-            if (fetchedParents.length === 0) { continue; }
-
-            // Prepare lookup in target by external id (preferred)
-            let existingByExternal: Record<string, string> = {};
-            if (externalIdFields.length > 0) {
-                const ext: string = externalIdFields[0];
-                const extValues = fetchedParents.map(p => p[ext]).filter((v: any) => v !== undefined && v !== null);
-                if (extValues.length > 0) {
-                    for (let i = 0; i < extValues.length; i += 1000) {
-                        const chunk = extValues.slice(i, i + 1000);
-                        const q = `SELECT Id, ${ext} FROM ${parentObject} WHERE ${ext} IN (${chunk.map((v: any) => typeof v === 'string' ? `'${String(v).replace(/'/g, "\\'")}'` : v).join(', ')})`;
-                        try {
-                            const targetResp = await this.targetConn.query(q);
-                            if (targetResp?.records?.length) {
-                                for (const r of targetResp.records) {
-                                    existingByExternal[r[ext]] = r.Id;
-                                }
-                            }
-                        } catch (e) {
-                            result.errors.push(`Lookup of existing ${parentObject} by external id failed: ${this.stringifyErrors(e)}`);
-                        }
+            // A dry run resolves records it would already have written to their placeholders
+            let fromTransfer = 0;
+            if (this.dryRunPlan) {
+                for (const id of ids) {
+                    const placeholder = this.dryRunTargetIds[parentObject]?.[id];
+                    if (placeholder) {
+                        sourceToTargetId[id] = placeholder;
+                        fromTransfer++;
                     }
                 }
             }
 
-            // Prepare create payloads for parents possibly missing in target
-            const createPayload = fetchedParents.map((p: any) => {
-                const out: any = {};
-                if (nameField && p.Name) { out.Name = p.Name; }
-                for (const ext of externalIdFields) {
-                    if (p[ext] !== undefined) { out[ext] = p[ext]; }
-                }
-                return out;
-            });
-
-            // Create parents (idempotent if external ids exist)
-            try {
-                if (createPayload.length > 0) {
-                    await this.targetConn.create(parentObject, createPayload);
-                }
-            } catch (e) {
-                result.errors.push(`Parent ensure failed for ${parentObject}: ${this.stringifyErrors(e)}`);
-            }
-
-            // Build source->target id mapping
-            for (const p of fetchedParents) {
-                let tgtId: string | undefined;
-                if (externalIdFields.length > 0) {
-                    const ext = externalIdFields[0];
-                    const val = p[ext];
-                    if (val !== undefined) {
-                        // Try cache first
-                        if (existingByExternal[val]) {
-                            tgtId = existingByExternal[val];
-                        } else {
-                            // Query target by external id
-                            try {
-                                const q = `SELECT Id FROM ${parentObject} WHERE ${ext} = ${typeof val === 'string' ? `'${String(val).replace(/'/g, "\\'")}'` : val} LIMIT 1`;
-                                const tr = await this.targetConn.query(q);
-                                if (tr?.records?.length) {
-                                    tgtId = tr.records[0].Id;
-                                }
-                            } catch { /* ignore */ }
-                        }
-                        return sourceToTargetId;
+            // Users and queues resolve to their owner mapping match, record types to the same DeveloperName
+            const setupMap = parentObject === 'RecordType' ? this.recordTypeMap
+                : OWNER_OBJECTS.includes(parentObject) ? this.ownerMatch?.ownerMap : undefined;
+            if (setupMap) {
+                for (const id of ids) {
+                    if (setupMap[id]) {
+                        sourceToTargetId[id] = setupMap[id];
                     }
                 }
+            }
 
-                // Fallback by Name
-                if (!tgtId && nameField && p.Name) {
-                    try {
-                        const q = `SELECT Id FROM ${parentObject} WHERE Name = '${String(p.Name).replace(/'/g, "\\'")}' LIMIT 1`;
-                        const tr = await this.targetConn.query(q);
-                        if (tr?.records?.length) {
-                            tgtId = tr.records[0].Id;
-                        }
-                    } catch { /* ignore */ }
-                }
+            // Reuse parents copied by an earlier batch or run instead of creating/matching them again
+            await this.applyKnownIdMappings(parentObject, ids.filter(id => !sourceToTargetId[id]), sourceToTargetId, options);
+            const pendingIds = ids.filter(id => !sourceToTargetId[id]);
+            const matchedBeforeHandling = ids.length - fromTransfer - pendingIds.length;
+            // Users, queues and record types can only be resolved through their mappings
+            const unresolvedIds = NON_COPYABLE_PARENTS.includes(parentObject) ? [] : pendingIds;
 
-                if (tgtId) {
-                    sourceToTargetId[p.Id] = tgtId;
-                }
+            if (unresolvedIds.length > 0 && options.transferMode === 'insert') {
+                // INSERT MODE: Create parents first, map source IDs to new target IDs
+                await this.handleInsertModeParents(parentObject, unresolvedIds, sourceToTargetId, result, options, [...ancestry, objectType]);
+            } else if (unresolvedIds.length > 0 && options.transferMode === 'upsert') {
+                // UPSERT MODE: Use user-specified external ID for matching
+                await this.handleUpsertModeParents(parentObject, unresolvedIds, sourceToTargetId, result, options);
+            }
+
+            const resolved = ids.filter(id => sourceToTargetId[id]).length;
+            // Grandparents are part of the parent's resolution, not a parent of a planned object
+            if (this.dryRunPlan && ancestry.length === 0) {
+                // Whatever insert/upsert handling resolved was either created (insert) or matched (upsert)
+                const handled = resolved - fromTransfer - matchedBeforeHandling;
+                const objectPlan = this.getDryRunObjectPlan(objectType, options);
+                const summary = objectPlan.parents[parentObject] || (objectPlan.parents[parentObject] = {
+                    referenced: 0, matched: 0, toCreate: 0, fromTransfer: 0, unresolved: 0
+                });
+                summary.referenced += ids.length;
+                summary.fromTransfer += fromTransfer;
+                summary.matched += matchedBeforeHandling + (options.transferMode === 'upsert' ? handled : 0);
+                summary.toCreate += options.transferMode === 'insert' ? handled : 0;
+                summary.unresolved += ids.length - resolved;
             }
+
+            this.emitProgress({
+                type: 'parentsResolved',
+                objectType,
+                parentObject,
+                requested: ids.length,
+                resolved
+            });
         }
 
         return sourceToTargetId;
     }
 
     /**
-     * New approach: Handle relationships based on transfer mode and user configuration
+     * Group the Ids referenced by a batch per parent object. Polymorphic lookups (WhatId, WhoId,
+     * OwnerId to User or Queue) can point at several objects, so their type comes from the queried
+     * `<Relationship>.Type`, else the Id's key prefix, else the Name pseudo-object.
      */
-    private async ensureParentRecordsExistNew(objectType: string, metadata: any, batch: any[], result: TransferResult, options: DataTransferOptions): Promise<Record<string, string>> {
-        if (!this.sourceConn || !this.targetConn) { return {}; }
-
-        const referenceFields = metadata.fields.filter((f: any) => f.type === 'reference' && Array.isArray(f.referenceTo) && f.referenceTo.length > 0);
-        if (referenceFields.length === 0) { return {}; }
-
-        const sourceToTargetId: Record<string, string> = {};
+    private async groupParentIdsByObject(referenceFields: any[], batch: any[]): Promise<Record<string, Set<string>>> {
         const parentIdsByObject: Record<string, Set<string>> = {};
+        const add = (parentObject: string, parentId: string) => {
+            (parentIdsByObject[parentObject] || (parentIdsByObject[parentObject] = new Set<string>())).add(parentId);
+        };
 
-        // Collect all parent IDs from reference fields
+        const untyped = new Map<string, string[]>(); // Id -> objects the lookup allows
         for (const rec of batch) {
             for (const ref of referenceFields) {
                 const parentId = rec[ref.name];
-                const parentObject = ref.referenceTo[0];
-                if (parentId && typeof parentId === 'string' && parentObject) {
-                    parentIdsByObject[parentObject] = parentIdsByObject[parentObject] || new Set<string>();
-                    parentIdsByObject[parentObject].add(parentId);
+                if (!parentId || typeof parentId !== 'string') { continue; }
+
+                if (ref.referenceTo.length === 1) {
+                    add(ref.referenceTo[0], parentId);
+                    continue;
+                }
+
+                const parentObject = rec[ref.relationshipName]?.Type || await this.getObjectTypeForId(parentId);
+                if (parentObject && ref.referenceTo.includes(parentObject)) {
+                    add(parentObject, parentId);
+                } else {
+                    untyped.set(parentId, ref.referenceTo);
                 }
             }
         }
 
-        // Process each parent object type
-        for (const [parentObject, idSet] of Object.entries(parentIdsByObject)) {
-            const ids = Array.from(idSet);
-            if (ids.length === 0) { continue; }
+        if (untyped.size > 0 && this.sourceConn) {
+            const ids = Array.from(untyped.keys());
+            for (let i = 0; i < ids.length; i += 200) {
+                const chunk = ids.slice(i, i + 200);
+                try {
+                    const resp = await this.sourceConn.queryAllPages(`SELECT Id, Type FROM Name WHERE Id IN (${chunk.map(id => `'${id}'`).join(', ')})`);
+                    for (const record of resp.records || []) {
+                        if (untyped.get(record.Id)?.includes(record.Type)) {
+                            add(record.Type, record.Id);
+                        }
+                    }
+                } catch {
+                    // Ids whose type can't be determined are left unresolved
+                }
+            }
+        }
 
-            if (options.transferMode === 'insert') {
-                // INSERT MODE: Create parents first, map source IDs to new target IDs
-                await this.handleInsertModeParents(parentObject, ids, sourceToTargetId, result);
-            } else if (options.transferMode === 'upsert') {
-                // UPSERT MODE: Use user-specified external ID for matching
-                await this.handleUpsertModeParents(parentObject, ids, sourceToTargetId, result, options);
+        return parentIdsByObject;
+    }
+
+    /**
+     * sObject an Id belongs to, from its key prefix in the source org
+     */
+    private async getObjectTypeForId(id: string): Promise<string | undefined> {
+        if (!this.keyPrefixes) {
+            this.keyPrefixes = new Map<string, string>();
+            try {
+                for (const sobject of await this.getSourceSObjects()) {
+                    // Several objects can share a prefix (e.g. Group and Queue views); keep the first
+                    if (sobject.keyPrefix && !this.keyPrefixes.has(sobject.keyPrefix)) {
+                        this.keyPrefixes.set(sobject.keyPrefix, sobject.name);
+                    }
+                }
+            } catch {
+                // Fall back to the Name lookup
             }
         }
+        return this.keyPrefixes.get(id.substring(0, 3));
+    }
+
+    private async getSourceSObjects(): Promise<any[]> {
+        if (!this.sourceSObjects && this.sourceConn) {
+            const global = await this.sourceConn.describeGlobal();
+            this.sourceSObjects = global.sobjects || [];
+        }
+        return this.sourceSObjects || [];
+    }
 
-        return sourceToTargetId;
+    /**
+     * Fill idMapping from the persistent Id map, dropping entries whose target record no longer exists
+     */
+    private async applyKnownIdMappings(parentObject: string, parentIds: string[], idMapping: Record<string, string>, options: DataTransferOptions): Promise<void> {
+        if (!this.targetConn || !this.idMap) { return; }
+
+        const known = parentIds
+            .map(sourceId => ({ sourceId, targetId: this.idMap!.get(parentObject, sourceId) }))
+            .filter((entry): entry is { sourceId: string; targetId: string } => !!entry.targetId);
+        if (known.length === 0) { return; }
+
+        try {
+            const existing = new Set<string>();
+            const chunkSize = 500;
+            for (let i = 0; i < known.length; i += chunkSize) {
+                const chunk = known.slice(i, i + chunkSize);
+                const soql = `SELECT Id FROM ${getTargetObject(options.mappings, parentObject)} WHERE Id IN (${chunk.map(entry => `'${entry.targetId}'`).join(', ')})`;
+                const resp = await this.targetConn.queryAllPages(soql);
+                for (const record of resp.records || []) {
+                    existing.add(record.Id);
+                }
+            }
+
+            for (const { sourceId, targetId } of known) {
+                if (existing.has(targetId)) {
+                    idMapping[sourceId] = targetId;
+                } else {
+                    // The copied record was deleted in the target - forget it so it gets recreated
+                    this.idMap.delete(parentObject, sourceId);
+                }
+            }
+        } catch {
+            // Verification is best effort; unresolved parents fall through to normal handling
+        }
     }
 
     /**
      * Insert mode: Create parent records first, then use the new IDs for children
      */
-    private async handleInsertModeParents(parentObject: string, parentIds: string[], idMapping: Record<string, string>, result: TransferResult): Promise<void> {
+    private async handleInsertModeParents(
+        parentObject: string,
+        parentIds: string[],
+        idMapping: Record<string, string>,
+        result: TransferResult,
+        options: DataTransferOptions,
+        ancestry: string[]
+    ): Promise<void> {
         if (!this.sourceConn || !this.targetConn) { return; }
 
         try {
             // Fetch parent records from source with all necessary fields
             const parentDescribe = await this.sourceConn.describe(parentObject);
             const insertableFields = parentDescribe.fields
-                .filter((f: any) => f.createable && !f.autoNumber && f.name !== 'Id' && this.isInsertableField(f))
+                .filter((f: any) => f.createable && !f.autoNumber && f.name !== 'Id' && this.isInsertableField(f) && !this.isExcludedField(parentObject, f.name))
                 .map((f: any) => f.name);
 
             if (insertableFields.length === 0) { return; }
@@ -798,7 +2557,7 @@ export class DataTransferService {
             for (let i = 0; i < parentIds.length; i += chunkSize) {
                 const chunk = parentIds.slice(i, i + chunkSize);
                 const soql = `SELECT Id, ${insertableFields.join(', ')} FROM ${parentObject} WHERE Id IN (${chunk.map(id => `'${id}'`).join(', ')})`;
-                const resp = await this.sourceConn.query(soql);
+                const resp = await this.sourceConn.queryAllPages(soql);
                 if (resp?.records?.length) {
                     parentRecords.push(...resp.records);
                 }
@@ -806,31 +2565,86 @@ export class DataTransferService {
 
             if (parentRecords.length === 0) { return; }
 
+            // Resolve the parents' own lookups first (creating or matching grandparents) within the depth limit.
+            // Lookups back to an object already being resolved in this chain would recurse forever; they are
+            // queued for the update pass below instead, like self lookups.
+            const chain = [...ancestry, parentObject];
+            const lookupFields = parentDescribe.fields.filter((f: any) => f.type === 'reference' && Array.isArray(f.referenceTo) && f.referenceTo.length > 0);
+            const cyclicLookups = lookupFields.filter((f: any) => f.referenceTo.length === 1 && chain.includes(f.referenceTo[0]));
+            const grandparentLookups = lookupFields.filter((f: any) => !f.referenceTo.some((parent: string) => chain.includes(parent)));
+            const grandparentIds = ancestry.length < (options.maxParentDepth ?? DEFAULT_PARENT_DEPTH) && grandparentLookups.length > 0
+                ? await this.ensureParentRecordsExistNew(parentObject, { ...parentDescribe, fields: grandparentLookups }, parentRecords, result, options, ancestry)
+                : {};
+
             // Clean and prepare records for insert
+            const maskingPlan = buildMaskingPlan(parentObject, parentDescribe, options.masking);
             const cleanParents = parentRecords.map(record => {
                 const clean: any = { ...record };
                 // Remove system fields
                 this.removeSystemFields(clean);
-                // Remove any lookup fields to avoid circular dependencies
+                // Point lookups at the resolved grandparents; unresolved ones would carry source Ids and fail the insert
                 Object.keys(clean).forEach(key => {
                     const field = parentDescribe.fields.find((f: any) => f.name === key);
                     if (field && field.type === 'reference') {
-                        delete clean[key]; // Remove lookup fields
+                        if (clean[key] && grandparentIds[clean[key]]) {
+                            clean[key] = grandparentIds[clean[key]];
+                        } else {
+                            delete clean[key];
+                        }
                     }
                 });
+                // Record types are setup data rather than a dependency; keep the ones that exist in the target
+                if (record.RecordTypeId && this.recordTypeMap[record.RecordTypeId]) {
+                    clean.RecordTypeId = this.recordTypeMap[record.RecordTypeId];
+                }
+                // Owners are setup data rather than a dependency, so they can be kept when owner mapping is on
+                if (this.ownerMatch && record.OwnerId) {
+                    const ownerId = this.ownerMatch.ownerMap[record.OwnerId] || this.fallbackOwnerId;
+                    if (ownerId) {
+                        clean.OwnerId = ownerId;
+                    }
+                }
                 return clean;
             });
+            this.maskPayloads(parentObject, maskingPlan, cleanParents, options, result);
+            cleanParents.forEach(clean => applyFieldMapping(options.mappings, parentObject, clean));
+
+            // Dry run: map to placeholders so children show the lookups they would get
+            if (this.dryRunPlan) {
+                for (const parentRecord of parentRecords) {
+                    idMapping[parentRecord.Id] = this.setDryRunTargetId(parentObject, parentRecord.Id);
+                }
+                return;
+            }
 
             // Insert parent records and map IDs
-            const insertResult = await this.targetConn.create(parentObject, cleanParents);
+            const insertResult = await this.targetConn.create(getTargetObject(options.mappings, parentObject), cleanParents);
+            // Single record inserts return one result object instead of an array
+            const insertResults = Array.isArray(insertResult) ? insertResult : [insertResult];
             
-            if (insertResult && Array.isArray(insertResult)) {
-                for (let i = 0; i < insertResult.length; i++) {
-                    const insertedRecord = insertResult[i];
+            if (insertResult) {
+                for (let i = 0; i < insertResults.length; i++) {
+                    const insertedRecord = insertResults[i];
                     const originalRecord = parentRecords[i];
-                    
+                    result.ledger.push(createLedgerEntry(parentObject, 'insert', originalRecord.Id, insertedRecord));
+
                     if (insertedRecord.success && insertedRecord.id) {
+                        // Self and cyclic lookups (e.g. ParentId) are restored by the update pass if their parent gets copied too
+                        for (const field of cyclicLookups) {
+                            if (originalRecord[field.name]) {
+                                this.deferredLookups.push({
+                                    objectType: parentObject,
+                                    sourceId: originalRecord.Id,
+                                    field: field.name,
+                                    parentObject: field.referenceTo[0],
+                                    parentSourceId: originalRecord[field.name]
+                                });
+                            }
+                        }
                         idMapping[originalRecord.Id] = insertedRecord.id;
+                        this.idMap?.set(parentObject, originalRecord.Id, insertedRecord.id);
+                        this.recordCreated(getTargetObject(options.mappings, parentObject), insertedRecord.id);
+                        result.writtenByObject[parentObject] = (result.writtenByObject[parentObject] || 0) + 1;
                     } else {
                         result.errors.push(`Failed to insert parent ${parentObject}: ${this.stringifyErrors(insertedRecord.errors)}`);
                     }
@@ -861,24 +2675,33 @@ export class DataTransferService {
             for (let i = 0; i < parentIds.length; i += chunkSize) {
                 const chunk = parentIds.slice(i, i + chunkSize);
                 const soql = `SELECT Id, ${externalIdField} FROM ${parentObject} WHERE Id IN (${chunk.map(id => `'${id}'`).join(', ')})`;
-                const resp = await this.sourceConn.query(soql);
+                const resp = await this.sourceConn.queryAllPages(soql);
                 if (resp?.records?.length) {
                     parentRecords.push(...resp.records);
                 }
             }
 
+            // Parents were written with their external ID masked, so look them up by the masked value
+            const maskingStrategy = options.masking?.enabled
+                ? buildMaskingPlan(parentObject, await this.sourceConn.describe(parentObject), options.masking)[externalIdField]
+                : undefined;
+
             // Query target org to find existing records by external ID
             for (const parentRecord of parentRecords) {
-                const externalIdValue = parentRecord[externalIdField];
+                const externalIdValue = maskingStrategy
+                    ? maskValue(parentRecord[externalIdField], maskingStrategy, options.masking?.salt || '', externalIdField)
+                    : parentRecord[externalIdField];
                 if (!externalIdValue) { continue; }
 
                 try {
-                    const targetQuery = `SELECT Id FROM ${parentObject} WHERE ${externalIdField} = '${String(externalIdValue).replace(/'/g, "\\'")}'`;
+                    const targetExternalIdField = getTargetField(options.mappings, parentObject, externalIdField) || externalIdField;
+                    const targetQuery = `SELECT Id FROM ${getTargetObject(options.mappings, parentObject)} WHERE ${targetExternalIdField} = '${String(externalIdValue).replace(/'/g, "\\'")}'`;
                     const targetResult = await this.targetConn.query(targetQuery);
                     
                     if (targetResult?.records?.length > 0) {
                         // Found existing record - map source ID to target ID
                         idMapping[parentRecord.Id] = targetResult.records[0].Id;
+                        this.idMap?.set(parentObject, parentRecord.Id, targetResult.records[0].Id);
                     } else {
                         // No existing record found - user needs to handle this case
                         result.errors.push(`Parent record ${parentObject} with ${externalIdField} = '${externalIdValue}' not found in target org. Consider running parent transfer first.`);
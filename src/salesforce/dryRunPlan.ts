@@ -0,0 +1,95 @@
+/**
+ * How the parents referenced by one object's lookups would be resolved in the target
+ */
+export interface DryRunParentSummary {
+    // Distinct parent records referenced by the object's lookups
+    referenced: number;
+    // Already present in the target (known Id mapping or external ID match)
+    matched: number;
+    // Would be auto-created before the children
+    toCreate: number;
+    // Written earlier in the same run (an object earlier in the order, or a parent created for an earlier batch)
+    fromTransfer: number;
+    // Could not be resolved; the lookup would be sent with the source Id
+    unresolved: number;
+}
+
+export interface DryRunObjectPlan {
+    objectType: string;
+    // Object the records are written to (differs when an object mapping is configured)
+    targetObject: string;
+    operation: 'insert' | 'upsert';
+    externalIdField?: string;
+    api: 'rest' | 'bulk';
+    // Records that would be written to the target
+    recordCount: number;
+    // Fields present in at least one payload
+    fields: string[];
+    // First payloads exactly as they would be sent
+    samplePayloads: any[];
+    parents: Record<string, DryRunParentSummary>;
+}
+
+/**
+ * Everything a transfer would do, produced by a dry run without writing to the target
+ */
+export interface DryRunPlan {
+    sourceOrg: string;
+    targetOrg: string;
+    generatedAt: string;
+    order: string[];
+    objects: DryRunObjectPlan[];
+}
+
+// Stand-in target Id for a record a dry run would create
+export function placeholderId(objectType: string, sourceId: string): string {
+    return `<new ${objectType} for ${sourceId}>`;
+}
+
+/**
+ * Render a dry-run plan as a markdown report
+ */
+export function formatDryRunPlanMarkdown(plan: DryRunPlan): string {
+    const lines: string[] = [
+        `# Dry run: ${plan.sourceOrg} → ${plan.targetOrg}`,
+        '',
+        `Generated ${plan.generatedAt}. Nothing was written to the target org.`,
+        ''
+    ];
+
+    if (plan.order.length > 0) {
+        lines.push(`**Order:** ${plan.order.join(' → ')}`, '');
+    }
+
+    lines.push('| Object | Operation | API | Records | Fields |', '| --- | --- | --- | --- | --- |');
+    for (const objectPlan of plan.objects) {
+        const operation = objectPlan.externalIdField ? `${objectPlan.operation} on ${objectPlan.externalIdField}` : objectPlan.operation;
+        const object = objectPlan.targetObject !== objectPlan.objectType ? `${objectPlan.objectType} → ${objectPlan.targetObject}` : objectPlan.objectType;
+        lines.push(`| ${object} | ${operation} | ${objectPlan.api} | ${objectPlan.recordCount} | ${objectPlan.fields.length} |`);
+    }
+
+    for (const objectPlan of plan.objects) {
+        lines.push('', `## ${objectPlan.objectType}${objectPlan.targetObject !== objectPlan.objectType ? ` → ${objectPlan.targetObject}` : ''}`, '');
+        lines.push(`${objectPlan.recordCount} records would be ${objectPlan.operation === 'upsert' ? 'upserted' : 'inserted'} through the ${objectPlan.api === 'bulk' ? 'Bulk API 2.0' : 'REST API'}.`, '');
+
+        if (objectPlan.fields.length > 0) {
+            lines.push(`**Fields sent:** ${objectPlan.fields.join(', ')}`, '');
+        }
+
+        const parents = Object.entries(objectPlan.parents);
+        if (parents.length > 0) {
+            lines.push('| Parent | Referenced | Matched in target | Would be created | From this transfer | Unresolved |', '| --- | --- | --- | --- | --- | --- |');
+            for (const [parentObject, summary] of parents) {
+                lines.push(`| ${parentObject} | ${summary.referenced} | ${summary.matched} | ${summary.toCreate} | ${summary.fromTransfer} | ${summary.unresolved} |`);
+            }
+            lines.push('');
+        }
+
+        if (objectPlan.samplePayloads.length > 0) {
+            lines.push(`First ${objectPlan.samplePayloads.length} payloads:`, '', '```json', JSON.stringify(objectPlan.samplePayloads, null, 2), '```');
+        }
+    }
+
+    return lines.join('\n') + '\n';
+}
+
@@ -0,0 +1,161 @@
+/**
+ * How one source object lands in the target org. Fields without an entry keep their name;
+ * a null entry leaves the field out of the payload.
+ */
+export interface ObjectMapping {
+    targetObject?: string;
+    fields: Record<string, string | null>; // source field -> target field (null = ignore)
+}
+
+// Source object -> mapping
+export type TransferMappings = Record<string, ObjectMapping>;
+
+export interface FieldInfo {
+    name: string;
+    label: string;
+    type?: string;
+}
+
+export interface MappingSuggestion {
+    sourceObject: string;
+    targetObject: string;
+    targetObjectExists: boolean;
+    sourceFields: FieldInfo[];
+    targetFields: FieldInfo[];
+    // Source field -> suggested target field, null when nothing similar exists in the target
+    fields: Record<string, string | null>;
+}
+
+// Below this similarity a field or object is not suggested
+const SUGGESTION_THRESHOLD = 0.6;
+
+export function getTargetObject(mappings: TransferMappings | undefined, sourceObject: string): string {
+    return mappings?.[sourceObject]?.targetObject || sourceObject;
+}
+
+/**
+ * Target name of a source field, or null when the field is ignored
+ */
+export function getTargetField(mappings: TransferMappings | undefined, sourceObject: string, sourceField: string): string | null {
+    const fields = mappings?.[sourceObject]?.fields;
+    if (!fields || !(sourceField in fields)) { return sourceField; }
+    return fields[sourceField];
+}
+
+/**
+ * Rename and drop payload fields in place according to the object's field mapping
+ */
+export function applyFieldMapping(mappings: TransferMappings | undefined, sourceObject: string, payload: any): void {
+    const fields = mappings?.[sourceObject]?.fields;
+    if (!fields) { return; }
+
+    // Read all values first so swapped names (A -> B, B -> A) don't overwrite each other
+    const mapped: Record<string, any> = {};
+    for (const [sourceField, targetField] of Object.entries(fields)) {
+        if (sourceField in payload) {
+            if (targetField) {
+                mapped[targetField] = payload[sourceField];
+            }
+            delete payload[sourceField];
+        }
+    }
+    Object.assign(payload, mapped);
+}
+
+function normalizeName(name: string): string {
+    return name
+        .replace(/^[a-zA-Z0-9]+__(?=.+__[a-z]+$)/, '') // namespace prefix
+        .replace(/__[a-z]+$/i, '') // __c, __r, __mdt...
+        .replace(/[^a-zA-Z0-9]/g, '')
+        .toLowerCase();
+}
+
+function bigrams(text: string): string[] {
+    const result: string[] = [];
+    for (let i = 0; i < text.length - 1; i++) {
+        result.push(text.slice(i, i + 2));
+    }
+    return result;
+}
+
+// Dice coefficient over character bigrams, 0..1
+function diceSimilarity(a: string, b: string): number {
+    if (a === b) { return 1; }
+    const aBigrams = bigrams(a);
+    const bBigrams = bigrams(b);
+    if (aBigrams.length === 0 || bBigrams.length === 0) { return 0; }
+
+    const remaining = [...bBigrams];
+    let matches = 0;
+    for (const bigram of aBigrams) {
+        const index = remaining.indexOf(bigram);
+        if (index >= 0) {
+            matches++;
+            remaining.splice(index, 1);
+        }
+    }
+    return (2 * matches) / (aBigrams.length + bBigrams.length);
+}
+
+/**
+ * Similarity of two fields or objects by API name and label. A name contained in the
+ * other (Legacy_Code__c / Code__c) counts as a strong match.
+ */
+export function nameSimilarity(source: FieldInfo, target: FieldInfo): number {
+    const sourceName = normalizeName(source.name);
+    const targetName = normalizeName(target.name);
+    const sourceLabel = (source.label || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+    const targetLabel = (target.label || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+    let score = Math.max(diceSimilarity(sourceName, targetName), diceSimilarity(sourceLabel, targetLabel));
+    const shorter = sourceName.length < targetName.length ? sourceName : targetName;
+    const longer = shorter === sourceName ? targetName : sourceName;
+    if (shorter.length >= 3 && longer.includes(shorter)) {
+        score = Math.max(score, 0.8);
+    }
+    if (source.type && target.type && source.type !== target.type) {
+        score -= 0.15;
+    }
+    return score;
+}
+
+/**
+ * Best matching candidate above the suggestion threshold
+ */
+export function findBestMatch(source: FieldInfo, candidates: FieldInfo[]): FieldInfo | undefined {
+    let best: FieldInfo | undefined;
+    let bestScore = SUGGESTION_THRESHOLD;
+    for (const candidate of candidates) {
+        const score = nameSimilarity(source, candidate);
+        if (score >= bestScore) {
+            best = candidate;
+            bestScore = score;
+        }
+    }
+    return best;
+}
+
+/**
+ * Suggest a target field for every source field: same API name first, otherwise the most
+ * similar target field that no other source field uses
+ */
+export function suggestFieldMappings(sourceFields: FieldInfo[], targetFields: FieldInfo[]): Record<string, string | null> {
+    const suggestions: Record<string, string | null> = {};
+    const targetByName = new Map(targetFields.map(field => [field.name.toLowerCase(), field]));
+    const unclaimed = targetFields.filter(field => !sourceFields.some(source => source.name.toLowerCase() === field.name.toLowerCase()));
+
+    for (const sourceField of sourceFields) {
+        const sameName = targetByName.get(sourceField.name.toLowerCase());
+        if (sameName) {
+            suggestions[sourceField.name] = sameName.name;
+            continue;
+        }
+
+        const match = findBestMatch(sourceField, unclaimed);
+        suggestions[sourceField.name] = match ? match.name : null;
+        if (match) {
+            unclaimed.splice(unclaimed.indexOf(match), 1);
+        }
+    }
+    return suggestions;
+}
@@ -0,0 +1,132 @@
+import * as vscode from 'vscode';
+import { SalesforceOrg } from './orgManager';
+
+const KEY_PREFIX = 'sf-data-transfer.idMap:';
+
+interface StoredOrgPairMapping {
+    sourceLabel: string;
+    targetLabel: string;
+    // objectType -> source Id -> target Id
+    objects: Record<string, Record<string, string>>;
+}
+
+export interface IdMappingSummary {
+    key: string;
+    sourceLabel: string;
+    targetLabel: string;
+    objectType: string;
+    count: number;
+}
+
+function orgKey(org: SalesforceOrg): string {
+    return org.orgId && org.orgId !== 'unknown' ? org.orgId : org.username;
+}
+
+/**
+ * Source-to-target record Id map for one source/target org pair.
+ * Changes are kept in memory and written back to the store on flush().
+ */
+export class OrgPairIdMap {
+    private dirty = false;
+    // Entries written through this instance, i.e. by the current transfer
+    private sessionEntries: Record<string, Record<string, string>> = {};
+
+    constructor(private store: IdMappingStore, private key: string, private mapping: StoredOrgPairMapping) {}
+
+    get(objectType: string, sourceId: string): string | undefined {
+        return this.mapping.objects[objectType]?.[sourceId];
+    }
+
+    set(objectType: string, sourceId: string, targetId: string): void {
+        const objectMap = this.mapping.objects[objectType] || (this.mapping.objects[objectType] = {});
+        if (objectMap[sourceId] !== targetId) {
+            objectMap[sourceId] = targetId;
+            this.dirty = true;
+        }
+        (this.sessionEntries[objectType] || (this.sessionEntries[objectType] = {}))[sourceId] = targetId;
+    }
+
+    getSessionEntries(): Record<string, Record<string, string>> {
+        return this.sessionEntries;
+    }
+
+    /**
+     * Load entries recorded elsewhere (e.g. a transfer checkpoint)
+     */
+    seed(entries: Record<string, Record<string, string>>): void {
+        for (const [objectType, ids] of Object.entries(entries)) {
+            for (const [sourceId, targetId] of Object.entries(ids)) {
+                this.set(objectType, sourceId, targetId);
+            }
+        }
+    }
+
+    delete(objectType: string, sourceId: string): void {
+        if (this.mapping.objects[objectType]?.[sourceId]) {
+            delete this.mapping.objects[objectType][sourceId];
+            delete this.sessionEntries[objectType]?.[sourceId];
+            this.dirty = true;
+        }
+    }
+
+    async flush(): Promise<void> {
+        if (!this.dirty) { return; }
+        await this.store.save(this.key, this.mapping);
+        this.dirty = false;
+    }
+}
+
+/**
+ * Persists source-to-target Id maps in workspace state, keyed by source org, target org and object,
+ * so later batches and later runs reuse records that were already copied.
+ */
+export class IdMappingStore {
+    constructor(private storage: vscode.Memento) {}
+
+    forOrgs(sourceOrg: SalesforceOrg, targetOrg: SalesforceOrg): OrgPairIdMap {
+        const key = `${KEY_PREFIX}${orgKey(sourceOrg)}:${orgKey(targetOrg)}`;
+        const stored = this.storage.get<StoredOrgPairMapping>(key);
+        const mapping: StoredOrgPairMapping = {
+            sourceLabel: sourceOrg.alias || sourceOrg.username,
+            targetLabel: targetOrg.alias || targetOrg.username,
+            objects: stored?.objects || {}
+        };
+        return new OrgPairIdMap(this, key, mapping);
+    }
+
+    list(): IdMappingSummary[] {
+        const summaries: IdMappingSummary[] = [];
+        for (const key of this.storage.keys().filter(k => k.startsWith(KEY_PREFIX))) {
+            const mapping = this.storage.get<StoredOrgPairMapping>(key);
+            if (!mapping) { continue; }
+            for (const [objectType, ids] of Object.entries(mapping.objects)) {
+                summaries.push({
+                    key,
+                    sourceLabel: mapping.sourceLabel,
+                    targetLabel: mapping.targetLabel,
+                    objectType,
+                    count: Object.keys(ids).length
+                });
+            }
+        }
+        return summaries;
+    }
+
+    getObjectMapping(key: string, objectType: string): Record<string, string> {
+        return this.storage.get<StoredOrgPairMapping>(key)?.objects[objectType] || {};
+    }
+
+    async clear(key: string, objectType?: string): Promise<void> {
+        const mapping = this.storage.get<StoredOrgPairMapping>(key);
+        if (!mapping) { return; }
+
+        if (objectType) {
+            delete mapping.objects[objectType];
+        }
+        await this.storage.update(key, objectType && Object.keys(mapping.objects).length > 0 ? mapping : undefined);
+    }
+
+    async save(key: string, mapping: StoredOrgPairMapping): Promise<void> {
+        await this.storage.update(key, mapping);
+    }
+}
@@ -0,0 +1,99 @@
+import * as crypto from 'crypto';
+
+export type MaskingStrategy = 'email' | 'phone' | 'name' | 'redact' | 'hash' | 'none';
+
+export interface MaskingOptions {
+    enabled: boolean;
+    // Mixed into every hash so masked values can't be reversed by hashing guesses
+    salt?: string;
+    // objectType -> field -> strategy; 'none' turns off automatic masking for a field
+    overrides?: Record<string, Record<string, MaskingStrategy>>;
+}
+
+// field -> strategy for one object
+export type ObjectMaskingPlan = Record<string, MaskingStrategy>;
+
+const FIRST_NAMES = ['Alex', 'Sam', 'Jordan', 'Taylor', 'Morgan', 'Casey', 'Riley', 'Jamie', 'Avery', 'Quinn', 'Harper', 'Rowan', 'Skyler', 'Drew', 'Parker', 'Reese'];
+const LAST_NAMES = ['Smith', 'Jones', 'Brown', 'Garcia', 'Miller', 'Davis', 'Wilson', 'Moore', 'Clark', 'Lewis', 'Walker', 'Young', 'King', 'Scott', 'Green', 'Baker'];
+
+// Field types masked without configuration
+const AUTOMATIC_STRATEGIES: Record<string, MaskingStrategy> = {
+    email: 'email',
+    phone: 'phone'
+};
+
+function digest(value: string, salt: string): Buffer {
+    return crypto.createHmac('sha256', salt).update(value).digest();
+}
+
+function pick(list: string[], hash: Buffer, offset: number): string {
+    return list[hash[offset] % list.length];
+}
+
+/**
+ * Mask one value. The same value, strategy and salt always produce the same output,
+ * so masked records keep matching each other (duplicates, external IDs).
+ */
+export function maskValue(value: any, strategy: MaskingStrategy, salt: string = '', fieldName: string = ''): any {
+    if (value === null || value === undefined || value === '' || strategy === 'none') {
+        return value;
+    }
+
+    const text = String(value);
+    const hash = digest(text, salt);
+    switch (strategy) {
+        case 'email':
+            // Unique per input, and the reserved .invalid TLD guarantees nothing is ever delivered
+            return `user.${hash.toString('hex').slice(0, 12)}@example.invalid`;
+        case 'phone': {
+            // Keep the formatting, replace every digit
+            let index = 0;
+            return text.replace(/\d/g, () => String(hash[index++ % hash.length] % 10));
+        }
+        case 'name':
+            if (/first/i.test(fieldName)) { return pick(FIRST_NAMES, hash, 0); }
+            if (/last/i.test(fieldName)) { return pick(LAST_NAMES, hash, 1); }
+            return `${pick(FIRST_NAMES, hash, 0)} ${pick(LAST_NAMES, hash, 1)}`;
+        case 'redact':
+            return '[REDACTED]';
+        case 'hash':
+            return hash.toString('hex').slice(0, 16);
+    }
+}
+
+/**
+ * Which fields of an object get masked: email/phone field types automatically, then per-field overrides
+ */
+export function buildMaskingPlan(objectType: string, metadata: any, options: MaskingOptions | undefined): ObjectMaskingPlan {
+    const plan: ObjectMaskingPlan = {};
+    if (!options?.enabled) { return plan; }
+
+    for (const field of metadata.fields || []) {
+        const strategy = AUTOMATIC_STRATEGIES[field.type];
+        if (strategy) {
+            plan[field.name] = strategy;
+        }
+    }
+    for (const [fieldName, strategy] of Object.entries(options.overrides?.[objectType] || {})) {
+        if (strategy === 'none') {
+            delete plan[fieldName];
+        } else {
+            plan[fieldName] = strategy;
+        }
+    }
+    return plan;
+}
+
+/**
+ * Mask a payload in place; returns the fields that actually carried a value
+ */
+export function maskRecord(payload: any, plan: ObjectMaskingPlan, salt: string = ''): string[] {
+    const masked: string[] = [];
+    for (const [fieldName, strategy] of Object.entries(plan)) {
+        if (fieldName in payload && payload[fieldName] !== null && payload[fieldName] !== '') {
+            payload[fieldName] = maskValue(payload[fieldName], strategy, salt, fieldName);
+            masked.push(fieldName);
+        }
+    }
+    return masked;
+}
@@ -0,0 +1,158 @@
+export type OwnerMatchField = 'username' | 'email' | 'federationId';
+
+export interface OwnerMappingOptions {
+    enabled: boolean;
+    // Tried in order for every source user
+    matchBy?: OwnerMatchField[];
+    // Username of the target user that owns records whose owner has no match
+    fallbackOwner?: string;
+}
+
+export interface OrgUser {
+    Id: string;
+    Username: string;
+    Name?: string;
+    Email?: string;
+    FederationIdentifier?: string;
+    IsActive?: boolean;
+}
+
+export interface OrgQueue {
+    Id: string;
+    DeveloperName: string;
+    Name?: string;
+}
+
+export interface UnmatchedOwner {
+    sourceId: string;
+    kind: 'User' | 'Queue';
+    // Username for users, DeveloperName for queues
+    name: string;
+    label?: string;
+}
+
+export interface OwnerMappingPreview {
+    // Distinct users and queues referenced by the objects' owner and user lookups
+    referencedOwners: number;
+    matched: number;
+    unmatched: UnmatchedOwner[];
+    fallbackOwnerId?: string;
+}
+
+export interface OwnerMatchResult {
+    // Source user/queue Id -> target user/queue Id
+    ownerMap: Record<string, string>;
+    // How each source user was matched
+    matchedBy: Record<string, OwnerMatchField | 'developerName'>;
+    unmatched: UnmatchedOwner[];
+}
+
+export const DEFAULT_OWNER_MATCH_ORDER: OwnerMatchField[] = ['username', 'email', 'federationId'];
+
+/**
+ * Username without its last domain label, which is where Salesforce appends the sandbox name
+ * when a sandbox is copied (jane@acme.com.uat -> jane@acme.com). Undefined when the domain
+ * has no label to spare.
+ */
+export function stripSandboxSuffix(username: string): string | undefined {
+    const [local, domain] = splitAddress(username);
+    const labels = domain.split('.');
+    return labels.length > 2 ? `${local}@${labels.slice(0, -1).join('.')}` : undefined;
+}
+
+// Sandbox copies make emails undeliverable by appending .invalid
+function normalizeEmail(email: string): string {
+    return email.toLowerCase().replace(/\.invalid$/, '');
+}
+
+function splitAddress(address: string): [string, string] {
+    const at = address.lastIndexOf('@');
+    const lower = address.toLowerCase();
+    return at < 0 ? [lower, ''] : [lower.slice(0, at), lower.slice(at + 1)];
+}
+
+// Index users by a key; keys shared by several users are ambiguous and never match
+function indexUsers(users: OrgUser[], key: (user: OrgUser) => string | undefined): Map<string, OrgUser | null> {
+    const index = new Map<string, OrgUser | null>();
+    for (const user of users) {
+        const value = key(user);
+        if (!value) { continue; }
+        index.set(value, index.has(value) ? null : user);
+    }
+    return index;
+}
+
+/**
+ * Match source users to target users and source queues to target queues (by DeveloperName).
+ * Usernames match exactly first, then when one of them is the other plus a sandbox suffix.
+ * Inactive target users are only used when no active user matches.
+ */
+export function matchOwners(
+    sourceUsers: OrgUser[],
+    targetUsers: OrgUser[],
+    sourceQueues: OrgQueue[],
+    targetQueues: OrgQueue[],
+    matchBy: OwnerMatchField[] = DEFAULT_OWNER_MATCH_ORDER
+): OwnerMatchResult {
+    const result: OwnerMatchResult = { ownerMap: {}, matchedBy: {}, unmatched: [] };
+
+    const active = targetUsers.filter(user => user.IsActive !== false);
+    const inactive = targetUsers.filter(user => user.IsActive === false);
+    // Each lookup keys the source user one way and the target users another
+    type UserKey = (user: OrgUser) => string | undefined;
+    const username: UserKey = user => user.Username?.toLowerCase();
+    const strippedUsername: UserKey = user => user.Username && stripSandboxSuffix(user.Username);
+    const email: UserKey = user => user.Email && normalizeEmail(user.Email);
+    const federationId: UserKey = user => user.FederationIdentifier?.toLowerCase();
+    const keys: Record<OwnerMatchField, Array<{ source: UserKey; target: UserKey }>> = {
+        username: [
+            { source: username, target: username },
+            { source: username, target: strippedUsername },
+            { source: strippedUsername, target: username }
+        ],
+        email: [{ source: email, target: email }],
+        federationId: [{ source: federationId, target: federationId }]
+    };
+    const indexes = [active, inactive].map(candidates => matchBy.map(field => ({
+        field,
+        lookups: keys[field].map(({ source, target }) => ({ key: source, index: indexUsers(candidates, target) }))
+    })));
+
+    for (const sourceUser of sourceUsers) {
+        let match: { user: OrgUser; field: OwnerMatchField } | undefined;
+        for (const fieldIndexes of indexes) {
+            for (const { field, lookups } of fieldIndexes) {
+                for (const { key, index } of lookups) {
+                    const value = key(sourceUser);
+                    const user = value ? index.get(value) : undefined;
+                    if (user) {
+                        match = { user, field };
+                        break;
+                    }
+                }
+                if (match) { break; }
+            }
+            if (match) { break; }
+        }
+
+        if (match) {
+            result.ownerMap[sourceUser.Id] = match.user.Id;
+            result.matchedBy[sourceUser.Id] = match.field;
+        } else {
+            result.unmatched.push({ sourceId: sourceUser.Id, kind: 'User', name: sourceUser.Username, label: sourceUser.Name });
+        }
+    }
+
+    const queuesByName = new Map(targetQueues.map(queue => [queue.DeveloperName.toLowerCase(), queue]));
+    for (const sourceQueue of sourceQueues) {
+        const queue = queuesByName.get(sourceQueue.DeveloperName.toLowerCase());
+        if (queue) {
+            result.ownerMap[sourceQueue.Id] = queue.Id;
+            result.matchedBy[sourceQueue.Id] = 'developerName';
+        } else {
+            result.unmatched.push({ sourceId: sourceQueue.Id, kind: 'Queue', name: sourceQueue.DeveloperName, label: sourceQueue.Name });
+        }
+    }
+
+    return result;
+}
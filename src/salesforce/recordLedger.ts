@@ -0,0 +1,83 @@
+import { formatCsv } from '../utils/csv';
+
+// 'update' is the second pass that restores self/circular lookups
+export type LedgerOperation = 'insert' | 'upsert' | 'update';
+export type LedgerStatus = 'created' | 'updated' | 'failed';
+
+/**
+ * Outcome of writing one record to the target org
+ */
+export interface LedgerEntry {
+    // Source object (records land in a differently named object when an object mapping is configured)
+    objectType: string;
+    sourceId?: string;
+    targetId?: string;
+    operation: LedgerOperation;
+    status: LedgerStatus;
+    errorCode?: string;
+    message?: string;
+    // Fields the error refers to
+    fields?: string[];
+}
+
+const LEDGER_COLUMNS: Array<keyof LedgerEntry> = ['objectType', 'sourceId', 'targetId', 'operation', 'status', 'errorCode', 'message', 'fields'];
+
+/**
+ * Ledger entry for one record result as returned by the collections API, the Bulk API or a file upload.
+ * Errors can be Salesforce error objects ({ statusCode, message, fields }) or plain messages.
+ */
+export function createLedgerEntry(objectType: string, operation: LedgerOperation, sourceId: string | undefined, writeResult: any): LedgerEntry {
+    // Failed updates still name the record they were meant for
+    const entry: LedgerEntry = { objectType, sourceId, targetId: writeResult?.id || undefined, operation, status: 'failed' };
+    if (writeResult?.success) {
+        // Inserts don't report `created`; only an upsert can return false here
+        entry.status = operation === 'update' || writeResult.created === false ? 'updated' : 'created';
+        return entry;
+    }
+
+    const errors: any[] = Array.isArray(writeResult?.errors) ? writeResult.errors : [writeResult?.errors].filter(Boolean);
+    const codes = new Set<string>();
+    const messages: string[] = [];
+    const fields = new Set<string>();
+    for (const error of errors) {
+        if (typeof error === 'string') {
+            messages.push(error);
+            continue;
+        }
+        if (error?.statusCode) { codes.add(String(error.statusCode)); }
+        if (error?.message) { messages.push(String(error.message)); }
+        (Array.isArray(error?.fields) ? error.fields : []).forEach((field: string) => fields.add(field));
+    }
+
+    entry.errorCode = codes.size > 0 ? Array.from(codes).join(', ') : undefined;
+    entry.message = messages.length > 0 ? messages.join('; ') : 'Unknown error';
+    entry.fields = fields.size > 0 ? Array.from(fields) : undefined;
+    return entry;
+}
+
+/**
+ * Failed entry for a record that was never sent (e.g. upsert without an external ID field)
+ */
+export function createFailedLedgerEntry(objectType: string, operation: LedgerOperation, sourceId: string | undefined, message: string): LedgerEntry {
+    return { objectType, sourceId, operation, status: 'failed', message };
+}
+
+export function formatLedgerCsv(entries: LedgerEntry[]): string {
+    return formatCsv(LEDGER_COLUMNS, entries.map(entry => ({ ...entry, fields: entry.fields?.join(';') })));
+}
+
+/**
+ * Source Ids of the records a run failed to write, per object. Failed lookup restores are left out:
+ * their records were written and only a lookup is missing.
+ */
+export function getFailedRecordIds(entries: LedgerEntry[]): Record<string, string[]> {
+    const failed: Record<string, string[]> = {};
+    for (const entry of entries) {
+        if (entry.status !== 'failed' || entry.operation === 'update' || !entry.sourceId) { continue; }
+        const ids = failed[entry.objectType] || (failed[entry.objectType] = []);
+        if (!ids.includes(entry.sourceId)) {
+            ids.push(entry.sourceId);
+        }
+    }
+    return failed;
+}
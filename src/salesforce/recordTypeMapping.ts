@@ -0,0 +1,54 @@
+export interface OrgRecordType {
+    Id: string;
+    SobjectType: string;
+    DeveloperName: string;
+    Name?: string;
+    IsActive?: boolean;
+}
+
+// Source object -> source record type DeveloperName -> target record type DeveloperName
+export type RecordTypeMappings = Record<string, Record<string, string>>;
+
+export interface MissingRecordType {
+    objectType: string;
+    sourceId: string;
+    developerName: string;
+    name?: string;
+}
+
+export interface RecordTypeMatchResult {
+    // Source record type Id -> target record type Id
+    recordTypeMap: Record<string, string>;
+    missing: MissingRecordType[];
+}
+
+/**
+ * Match record types by object and DeveloperName. `targetObjects` maps source objects to the
+ * object they are written to; hand-made mappings take precedence over matching names.
+ */
+export function matchRecordTypes(
+    sourceTypes: OrgRecordType[],
+    targetTypes: OrgRecordType[],
+    targetObjects: Record<string, string>,
+    manual: RecordTypeMappings = {}
+): RecordTypeMatchResult {
+    const result: RecordTypeMatchResult = { recordTypeMap: {}, missing: [] };
+    const targetByName = new Map(targetTypes.map(type => [`${type.SobjectType}.${type.DeveloperName}`.toLowerCase(), type]));
+
+    for (const sourceType of sourceTypes) {
+        const targetObject = targetObjects[sourceType.SobjectType] || sourceType.SobjectType;
+        const developerName = manual[sourceType.SobjectType]?.[sourceType.DeveloperName] || sourceType.DeveloperName;
+        const targetType = targetByName.get(`${targetObject}.${developerName}`.toLowerCase());
+        if (targetType) {
+            result.recordTypeMap[sourceType.Id] = targetType.Id;
+        } else {
+            result.missing.push({
+                objectType: sourceType.SobjectType,
+                sourceId: sourceType.Id,
+                developerName: sourceType.DeveloperName,
+                name: sourceType.Name
+            });
+        }
+    }
+    return result;
+}
@@ -0,0 +1,272 @@
+import { DEFAULT_RETRY_POLICY, RetryPolicy, getRetryDelay, isNetworkError, isRetryableStatus, isThrottlingStatus, sleep } from './retryPolicy';
+
+// Salesforce REST API client
+export class SalesforceRestClient {
+    private instanceUrl: string;
+    private accessToken: string;
+    private apiVersion: string = '59.0';
+    private retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+
+    constructor(instanceUrl: string, accessToken: string) {
+        this.instanceUrl = instanceUrl.endsWith('/') ? instanceUrl.slice(0, -1) : instanceUrl;
+        this.accessToken = accessToken;
+    }
+
+    setRetryPolicy(retryPolicy: RetryPolicy): void {
+        this.retryPolicy = retryPolicy;
+    }
+
+    getRetryPolicy(): RetryPolicy {
+        return this.retryPolicy;
+    }
+
+    /**
+     * Send a request relative to the versioned data API and return the raw response.
+     * Used directly by callers that exchange non-JSON payloads (e.g. Bulk API CSV).
+     * Transient failures (throttling, 5xx gateway errors, network resets) are retried
+     * according to the client's retry policy. Writes (POST, PATCH) may have been committed
+     * before a dropped connection or gateway error, so they are only retried when throttled;
+     * failed records are resubmitted by the caller.
+     */
+    async request(endpoint: string, options: any = {}): Promise<Response> {
+        const url = `${this.instanceUrl}/services/data/v${this.apiVersion}${endpoint}`;
+        const { headers, ...fetchOptions } = options;
+        const idempotent = !['POST', 'PATCH'].includes(String(fetchOptions.method || 'GET').toUpperCase());
+
+        for (let attempt = 1; ; attempt++) {
+            const canRetry = attempt < this.retryPolicy.maxAttempts;
+            let response: Response;
+
+            try {
+                response = await fetch(url, {
+                    ...fetchOptions,
+                    headers: {
+                        'Authorization': `Bearer ${this.accessToken}`,
+                        'Content-Type': 'application/json',
+                        ...headers
+                    }
+                });
+            } catch (error) {
+                if (canRetry && idempotent && isNetworkError(error)) {
+                    await sleep(getRetryDelay(attempt, this.retryPolicy));
+                    continue;
+                }
+                throw error;
+            }
+
+            if (response.ok) {
+                return response;
+            }
+
+            const errorText = await response.text();
+            if (canRetry && (idempotent ? isRetryableStatus(response.status, errorText) : isThrottlingStatus(response.status, errorText))) {
+                await sleep(getRetryDelay(attempt, this.retryPolicy, response.headers.get('Retry-After')));
+                continue;
+            }
+
+            let errorMessage = `Salesforce API error: ${response.status} ${response.statusText}`;
+            
+            if (response.status === 401) {
+                errorMessage += ' - Access token is invalid or expired. Please re-authenticate your org using Salesforce CLI.';
+            } else {
+                errorMessage += ` - ${errorText}`;
+            }
+            
+            throw new Error(errorMessage);
+        }
+    }
+
+    private async makeRequest(endpoint: string, options: any = {}): Promise<any> {
+        const response = await this.request(endpoint, options);
+        return response.json();
+    }
+
+    async describeGlobal(): Promise<any> {
+        return this.makeRequest('/sobjects/');
+    }
+
+    async describe(sobjectType: string): Promise<any> {
+        return this.makeRequest(`/sobjects/${sobjectType}/describe/`);
+    }
+
+    async query(soql: string, batchSize?: number): Promise<any> {
+        const encodedQuery = encodeURIComponent(soql);
+        return this.makeRequest(`/query/?q=${encodedQuery}`, {
+            headers: this.queryOptionsHeader(batchSize)
+        });
+    }
+
+    /**
+     * Fetch the next page of a query using the nextRecordsUrl returned by Salesforce
+     */
+    async queryMore(nextRecordsUrl: string, batchSize?: number): Promise<any> {
+        // nextRecordsUrl is absolute from the instance root (/services/data/vXX.X/query/01g...)
+        const endpoint = nextRecordsUrl.replace(/^\/services\/data\/v[\d.]+/, '');
+        return this.makeRequest(endpoint, {
+            headers: this.queryOptionsHeader(batchSize)
+        });
+    }
+
+    /**
+     * Run a query and follow nextRecordsUrl until every record has been retrieved
+     */
+    async queryAllPages(soql: string, batchSize?: number): Promise<any> {
+        const firstPage = await this.query(soql, batchSize);
+        const records: any[] = [...(firstPage.records || [])];
+
+        let page = firstPage;
+        while (!page.done && page.nextRecordsUrl) {
+            page = await this.queryMore(page.nextRecordsUrl, batchSize);
+            records.push(...(page.records || []));
+        }
+
+        return {
+            totalSize: firstPage.totalSize,
+            done: true,
+            records
+        };
+    }
+
+    private queryOptionsHeader(batchSize?: number): Record<string, string> {
+        if (!batchSize) { return {}; }
+        // Salesforce only honours batch sizes between 200 and 2000
+        const size = Math.min(Math.max(Math.floor(batchSize), 200), 2000);
+        return { 'Sforce-Query-Options': `batchSize=${size}` };
+    }
+
+    async create(sobjectType: string, records: any[]): Promise<any> {
+        if (records.length === 1) {
+            return this.makeRequest(`/sobjects/${sobjectType}/`, {
+                method: 'POST',
+                body: JSON.stringify(records[0])
+            });
+        } else {
+            // Use composite API for multiple records (at most 200 records per request)
+            const chunkSize = 200;
+            const results: any[] = [];
+
+            for (let i = 0; i < records.length; i += chunkSize) {
+                const compositeRequest = {
+                    allOrNone: false,
+                    records: records.slice(i, i + chunkSize).map(record => ({
+                        attributes: { type: sobjectType },
+                        ...record
+                    }))
+                };
+
+                const response = await this.makeRequest(`/composite/sobjects/`, {
+                    method: 'POST',
+                    body: JSON.stringify(compositeRequest)
+                });
+                results.push(...response);
+            }
+
+            return results;
+        }
+    }
+
+    /**
+     * Update existing records by Id (each record must carry its Id)
+     */
+    async update(sobjectType: string, records: any[]): Promise<any[]> {
+        const chunkSize = 200;
+        const results: any[] = [];
+
+        for (let i = 0; i < records.length; i += chunkSize) {
+            const compositeRequest = {
+                allOrNone: false,
+                records: records.slice(i, i + chunkSize).map(record => ({
+                    attributes: { type: sobjectType },
+                    ...record
+                }))
+            };
+
+            const response = await this.makeRequest(`/composite/sobjects/`, {
+                method: 'PATCH',
+                body: JSON.stringify(compositeRequest)
+            });
+            results.push(...response);
+        }
+
+        return results;
+    }
+
+    /**
+     * Upsert records matched on an external ID field via the sObject Collections API.
+     * Every result carries a `created` flag telling inserts apart from updates.
+     */
+    async upsert(sobjectType: string, externalIdField: string, records: any[]): Promise<any[]> {
+        // The collections endpoint accepts at most 200 records per request
+        const chunkSize = 200;
+        const results: any[] = [];
+
+        for (let i = 0; i < records.length; i += chunkSize) {
+            const chunk = records.slice(i, i + chunkSize);
+            const compositeRequest = {
+                allOrNone: false,
+                records: chunk.map(record => ({
+                    attributes: { type: sobjectType },
+                    ...record
+                }))
+            };
+
+            const response = await this.makeRequest(`/composite/sobjects/${sobjectType}/${externalIdField}`, {
+                method: 'PATCH',
+                body: JSON.stringify(compositeRequest)
+            });
+            results.push(...response);
+        }
+
+        return results;
+    }
+
+    /**
+     * Delete records by Id via the sObject Collections API; results follow the order of `ids`
+     */
+    async delete(ids: string[]): Promise<any[]> {
+        const chunkSize = 200;
+        const results: any[] = [];
+
+        for (let i = 0; i < ids.length; i += chunkSize) {
+            const chunk = ids.slice(i, i + chunkSize);
+            const response = await this.makeRequest(`/composite/sobjects?ids=${chunk.join(',')}&allOrNone=false`, {
+                method: 'DELETE'
+            });
+            results.push(...response);
+        }
+
+        return results;
+    }
+
+    /**
+     * Download the content of a binary field (ContentVersion.VersionData, Attachment.Body...)
+     */
+    async getBlob(sobjectType: string, id: string, field: string): Promise<Buffer> {
+        const response = await this.request(`/sobjects/${sobjectType}/${id}/${field}`);
+        return Buffer.from(await response.arrayBuffer());
+    }
+
+    /**
+     * Insert one record with the content of its binary field as a multipart request,
+     * which avoids the size limits of base64 content in JSON
+     */
+    async createWithBlob(sobjectType: string, record: any, blobField: string, fileName: string, content: Buffer): Promise<any> {
+        const boundary = `boundary_${Date.now().toString(16)}${Math.random().toString(16).slice(2)}`;
+        const body = Buffer.concat([
+            Buffer.from(`--${boundary}\r\nContent-Disposition: form-data; name="entity_content"\r\nContent-Type: application/json\r\n\r\n${JSON.stringify(record)}\r\n`),
+            Buffer.from(`--${boundary}\r\nContent-Disposition: form-data; name="${blobField}"; filename="${fileName.replace(/"/g, '')}"\r\nContent-Type: application/octet-stream\r\n\r\n`),
+            content,
+            Buffer.from(`\r\n--${boundary}--\r\n`)
+        ]);
+
+        return this.makeRequest(`/sobjects/${sobjectType}/`, {
+            method: 'POST',
+            headers: { 'Content-Type': `multipart/form-data; boundary="${boundary}"` },
+            body
+        });
+    }
+
+    async identity(): Promise<any> {
+        return this.makeRequest('/');
+    }
+}
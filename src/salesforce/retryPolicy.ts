@@ -0,0 +1,79 @@
+export interface RetryPolicy {
+    maxAttempts: number; // Total attempts including the first one
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000
+};
+
+// HTTP statuses worth retrying: throttling and temporary server/gateway failures
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+
+// Record-level error codes that usually succeed when resubmitted a little later
+const RETRYABLE_ERROR_CODES = [
+    'UNABLE_TO_LOCK_ROW',
+    'REQUEST_LIMIT_EXCEEDED',
+    'SERVER_UNAVAILABLE',
+    'QUERY_TIMEOUT',
+    'TXN_SECURITY_METERING_ERROR'
+];
+
+export function isRetryableStatus(status: number, body: string = ''): boolean {
+    return RETRYABLE_STATUSES.includes(status) || isThrottlingStatus(status, body);
+}
+
+/**
+ * Whether Salesforce refused a request for exceeding a rate or API limit, so nothing was processed
+ */
+export function isThrottlingStatus(status: number, body: string = ''): boolean {
+    // API limit errors come back as 403 with REQUEST_LIMIT_EXCEEDED in the body
+    return status === 429 || (status === 403 && body.includes('REQUEST_LIMIT_EXCEEDED'));
+}
+
+/**
+ * Whether a per-record failure (sObject Collections / Bulk result) is transient
+ */
+export function isRetryableRecordError(errors: any): boolean {
+    if (!Array.isArray(errors) || errors.length === 0) { return false; }
+    return errors.every((error: any) => {
+        const code = String(error?.statusCode || error?.errorCode || '');
+        const message = String(error?.message || '');
+        return RETRYABLE_ERROR_CODES.some(retryable => code === retryable || message.includes(retryable));
+    });
+}
+
+/**
+ * Network level failures (connection reset, DNS hiccups, timeouts) surface as fetch TypeErrors
+ */
+export function isNetworkError(error: any): boolean {
+    const code = error?.cause?.code || error?.code;
+    return error instanceof TypeError || ['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EAI_AGAIN', 'UND_ERR_SOCKET'].includes(code);
+}
+
+/**
+ * Delay before the given retry (1-based). Honours a Retry-After header when present,
+ * otherwise uses exponential backoff with full jitter.
+ */
+export function getRetryDelay(retry: number, policy: RetryPolicy, retryAfter?: string | null): number {
+    if (retryAfter) {
+        const seconds = Number(retryAfter);
+        if (!isNaN(seconds)) {
+            return Math.min(seconds * 1000, policy.maxDelayMs);
+        }
+        const date = Date.parse(retryAfter);
+        if (!isNaN(date)) {
+            return Math.min(Math.max(date - Date.now(), 0), policy.maxDelayMs);
+        }
+    }
+
+    const exponential = Math.min(policy.baseDelayMs * Math.pow(2, retry - 1), policy.maxDelayMs);
+    return Math.round(Math.random() * exponential);
+}
+
+export function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,142 @@
+export type SchemaIssueKind = 'missingField' | 'typeMismatch' | 'lengthMismatch' | 'picklistValues' | 'notCreateable';
+
+export interface FieldSchemaIssue {
+    field: string;
+    kind: SchemaIssueKind;
+    // Errors make every record carrying the field fail; warnings only affect some values
+    severity: 'error' | 'warning';
+    detail: string;
+}
+
+export interface RecordTypeRef {
+    developerName: string;
+    name: string;
+}
+
+export interface ObjectSchemaDiff {
+    objectType: string;
+    // The object does not exist (or is not visible) in the target org
+    missingInTarget: boolean;
+    // Source fields the transfer would send
+    comparedFields: number;
+    issues: FieldSchemaIssue[];
+    // Source record types with no counterpart (same DeveloperName or mapped by hand) in the target
+    missingRecordTypes: RecordTypeRef[];
+    // Record types available in the target, for mapping the missing ones
+    targetRecordTypes: RecordTypeRef[];
+}
+
+// Types that accept free text, and numeric types that accept each other's values
+const TEXT_TYPES = ['string', 'textarea', 'email', 'phone', 'url', 'picklist', 'combobox', 'encryptedstring'];
+const NUMERIC_TYPES = ['double', 'currency', 'percent', 'int', 'long'];
+
+function isCompatibleType(sourceType: string, targetType: string): boolean {
+    if (sourceType === targetType) { return true; }
+    if (['string', 'textarea', 'combobox'].includes(targetType) && TEXT_TYPES.includes(sourceType)) { return true; }
+    return NUMERIC_TYPES.includes(sourceType) && NUMERIC_TYPES.includes(targetType);
+}
+
+// Record types from a describe, without the Master placeholder every object has
+function recordTypes(describe: any): RecordTypeRef[] {
+    return (describe.recordTypeInfos || [])
+        .filter((info: any) => !info.master)
+        .map((info: any) => ({ developerName: info.developerName, name: info.name }));
+}
+
+function activePicklistValues(field: any): string[] {
+    return (field.picklistValues || []).filter((entry: any) => entry.active !== false).map((entry: any) => entry.value);
+}
+
+/**
+ * Compare the fields a transfer would send (createable or updateable in the source)
+ * with the target org's describe of the object they are written to.
+ * `fieldMap` renames source fields (null = field is not sent), as configured in the transfer mappings;
+ * `recordTypeMap` maps source record type DeveloperNames to target ones by hand.
+ */
+export function compareObjectSchemas(
+    objectType: string,
+    sourceDescribe: any,
+    targetDescribe: any | null,
+    transferMode: 'insert' | 'upsert',
+    fieldMap: Record<string, string | null> = {},
+    recordTypeMap: Record<string, string> = {}
+): ObjectSchemaDiff {
+    const sourceFields = (sourceDescribe.fields || [])
+        .filter((field: any) => (field.createable || field.updateable) && fieldMap[field.name] !== null);
+    const diff: ObjectSchemaDiff = {
+        objectType,
+        missingInTarget: !targetDescribe,
+        comparedFields: sourceFields.length,
+        issues: [],
+        missingRecordTypes: [],
+        targetRecordTypes: []
+    };
+    if (!targetDescribe) { return diff; }
+
+    diff.targetRecordTypes = recordTypes(targetDescribe);
+    const targetRecordTypeNames = new Set(diff.targetRecordTypes.map(type => type.developerName.toLowerCase()));
+    diff.missingRecordTypes = recordTypes(sourceDescribe)
+        .filter(type => !targetRecordTypeNames.has((recordTypeMap[type.developerName] || type.developerName).toLowerCase()));
+
+    const targetFields = new Map<string, any>((targetDescribe.fields || []).map((field: any) => [field.name.toLowerCase(), field]));
+
+    for (const sourceField of sourceFields) {
+        const targetName: string = fieldMap[sourceField.name] || sourceField.name;
+        const targetField = targetFields.get(targetName.toLowerCase());
+        const issue = (kind: SchemaIssueKind, severity: 'error' | 'warning', detail: string) =>
+            diff.issues.push({ field: sourceField.name, kind, severity, detail });
+
+        if (!targetField) {
+            issue('missingField', 'error', targetName === sourceField.name
+                ? 'Field does not exist in the target org'
+                : `Mapped field ${targetName} does not exist in the target org`);
+            continue;
+        }
+
+        // Upserts can still set updateable-only fields on records that already exist
+        if (!targetField.createable) {
+            if (transferMode === 'upsert' && targetField.updateable) {
+                issue('notCreateable', 'warning', 'Not createable for the target user; only set when an existing record is updated');
+            } else {
+                issue('notCreateable', 'error', 'Not createable for the target user');
+            }
+        }
+
+        if (!isCompatibleType(sourceField.type, targetField.type)) {
+            issue('typeMismatch', 'error', `Source type ${sourceField.type}, target type ${targetField.type}`);
+            continue;
+        }
+
+        if (sourceField.length && targetField.length && targetField.length < sourceField.length) {
+            issue('lengthMismatch', 'warning', `Target length ${targetField.length} is shorter than source length ${sourceField.length}; longer values will be rejected`);
+        }
+        if (targetField.precision && sourceField.precision && targetField.precision < sourceField.precision) {
+            issue('lengthMismatch', 'warning', `Target precision ${targetField.precision} is lower than source precision ${sourceField.precision}`);
+        }
+
+        if (['picklist', 'multipicklist'].includes(sourceField.type)) {
+            const targetValues = new Set(activePicklistValues(targetField));
+            const missingValues = activePicklistValues(sourceField).filter(value => !targetValues.has(value));
+            if (missingValues.length > 0) {
+                // Unrestricted picklists accept unknown values, restricted ones reject the record
+                issue('picklistValues', targetField.restrictedPicklist ? 'error' : 'warning', `Values missing in target: ${missingValues.join(', ')}`);
+            }
+        }
+    }
+
+    return diff;
+}
+
+/**
+ * Fields that would make records fail and can be left out of the transfer
+ */
+export function getIncompatibleFields(diffs: ObjectSchemaDiff[]): Record<string, string[]> {
+    const excluded: Record<string, string[]> = {};
+    for (const diff of diffs) {
+        const fields = Array.from(new Set(diff.issues.filter(issue => issue.severity === 'error').map(issue => issue.field)));
+        if (fields.length > 0) {
+            excluded[diff.objectType] = fields;
+        }
+    }
+    return excluded;
+}
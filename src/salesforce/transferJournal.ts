@@ -0,0 +1,101 @@
+import * as vscode from 'vscode';
+
+const KEY_PREFIX = 'sf-data-transfer.journal:';
+// Older journals are dropped once this many are stored
+const MAX_JOURNALS = 20;
+
+/**
+ * Target records a transfer created or changed, written as the transfer runs so it can be rolled back
+ */
+export interface TransferJournal {
+    id: string;
+    sourceUsername: string;
+    targetUsername: string;
+    sourceLabel: string;
+    targetLabel: string;
+    startedAt: string;
+    finishedAt?: string;
+    // Set once every recorded change was undone
+    rolledBackAt?: string;
+    // Target objects in the order their first record was written; rollback deletes in reverse
+    order: string[];
+    // Target object -> Ids of records the transfer inserted
+    created: Record<string, string[]>;
+    // Target object -> target Id -> field values before the transfer first changed the record
+    updated: Record<string, Record<string, Record<string, any>>>;
+}
+
+export interface TransferJournalSummary {
+    // Target object -> record count
+    created: Record<string, number>;
+    updated: Record<string, number>;
+    totalCreated: number;
+    totalUpdated: number;
+}
+
+export interface RollbackRecordResult {
+    objectType: string;
+    id: string;
+    action: 'delete' | 'restore';
+    success: boolean;
+    error?: string;
+}
+
+export interface RollbackResult {
+    success: boolean;
+    deleted: number;
+    restored: number;
+    failed: number;
+    // True when the rollback was stopped before every change was undone
+    cancelled: boolean;
+    records: RollbackRecordResult[];
+}
+
+export function summarizeJournal(journal: TransferJournal): TransferJournalSummary {
+    const summary: TransferJournalSummary = { created: {}, updated: {}, totalCreated: 0, totalUpdated: 0 };
+    for (const [objectType, ids] of Object.entries(journal.created)) {
+        if (ids.length === 0) { continue; }
+        summary.created[objectType] = ids.length;
+        summary.totalCreated += ids.length;
+    }
+    for (const [objectType, records] of Object.entries(journal.updated)) {
+        const count = Object.keys(records).length;
+        if (count === 0) { continue; }
+        summary.updated[objectType] = count;
+        summary.totalUpdated += count;
+    }
+    return summary;
+}
+
+/**
+ * Persists the journals of recent transfers in workspace state, one entry per run
+ */
+export class TransferJournalStore {
+    constructor(private storage: vscode.Memento) {}
+
+    /**
+     * Stored journals, newest first
+     */
+    list(): TransferJournal[] {
+        return this.storage.keys()
+            .filter(key => key.startsWith(KEY_PREFIX))
+            .map(key => this.storage.get<TransferJournal>(key))
+            .filter((journal): journal is TransferJournal => !!journal)
+            .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+    }
+
+    get(id: string): TransferJournal | undefined {
+        return this.storage.get<TransferJournal>(`${KEY_PREFIX}${id}`);
+    }
+
+    async save(journal: TransferJournal): Promise<void> {
+        await this.storage.update(`${KEY_PREFIX}${journal.id}`, journal);
+        for (const old of this.list().slice(MAX_JOURNALS)) {
+            await this.delete(old.id);
+        }
+    }
+
+    async delete(id: string): Promise<void> {
+        await this.storage.update(`${KEY_PREFIX}${id}`, undefined);
+    }
+}
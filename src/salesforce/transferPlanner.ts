@@ -0,0 +1,84 @@
+/**
+ * A lookup left blank on insert because its parent is written later in the same transfer
+ * (self references and circular lookups); it is restored by an update once the parent exists
+ */
+export interface DeferredLookup {
+    objectType: string;
+    sourceId: string;
+    field: string; // Source field name
+    parentObject: string;
+    parentSourceId: string;
+}
+
+export interface TransferPlan {
+    // Objects in the order they should be transferred (parents before children)
+    order: string[];
+    // Groups of objects that reference each other and cannot be strictly ordered
+    cycles: string[][];
+}
+
+/**
+ * Order objects so that every parent is transferred before the objects that look it up.
+ *
+ * `dependencies` maps an object to the parent objects it references (as returned by
+ * DataTransferService.analyzeRelationships). Objects caught in a reference cycle are kept
+ * together in their original selection order and reported in `cycles`.
+ */
+export function planTransferOrder(objectTypes: string[], dependencies: Map<string, string[]>): TransferPlan {
+    const selected = new Set(objectTypes);
+    const order: string[] = [];
+    const cycles: string[][] = [];
+
+    // Tarjan's strongly connected components. Edges point from child to parent, so each
+    // component is emitted only after every parent it depends on - i.e. in transfer order.
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    let counter = 0;
+
+    const visit = (node: string) => {
+        index.set(node, counter);
+        lowLink.set(node, counter);
+        counter++;
+        stack.push(node);
+        onStack.add(node);
+
+        for (const parent of dependencies.get(node) || []) {
+            // Self references are handled during the transfer itself, not by ordering
+            if (parent === node || !selected.has(parent)) { continue; }
+
+            if (!index.has(parent)) {
+                visit(parent);
+                lowLink.set(node, Math.min(lowLink.get(node)!, lowLink.get(parent)!));
+            } else if (onStack.has(parent)) {
+                lowLink.set(node, Math.min(lowLink.get(node)!, index.get(parent)!));
+            }
+        }
+
+        if (lowLink.get(node) === index.get(node)) {
+            const component: string[] = [];
+            let member: string;
+            do {
+                member = stack.pop()!;
+                onStack.delete(member);
+                component.push(member);
+            } while (member !== node);
+
+            // Keep the user's selection order inside a component so the result is stable
+            component.sort((a, b) => objectTypes.indexOf(a) - objectTypes.indexOf(b));
+            order.push(...component);
+            if (component.length > 1) {
+                cycles.push(component);
+            }
+        }
+    };
+
+    for (const objectType of objectTypes) {
+        if (!index.has(objectType)) {
+            visit(objectType);
+        }
+    }
+
+    return { order, cycles };
+}
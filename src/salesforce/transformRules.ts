@@ -0,0 +1,132 @@
+/**
+ * Declarative value changes applied to each record on its way to the target.
+ * Field names are source field names; rules run in order, so a rule sees the result of the previous ones.
+ */
+export type TransformRule =
+    | { type: 'setConstant'; field: string; value: any }
+    // `from` is a field name or a template such as "{FirstName} {LastName}"
+    | { type: 'copyField'; field: string; from: string }
+    | { type: 'regexReplace'; field: string; pattern: string; replacement: string; flags?: string }
+    // Values missing from the table are kept unless a default is given
+    | { type: 'lookup'; field: string; table: Record<string, string>; default?: string }
+    | { type: 'uppercase' | 'lowercase' | 'trim'; field: string }
+    | { type: 'dateShift'; field: string; days: number };
+
+// Source object -> rules
+export type TransformRuleSet = Record<string, TransformRule[]>;
+
+export interface TransformPreviewRow {
+    before: Record<string, any>;
+    after: Record<string, any>;
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+function shiftDate(value: any, days: number): any {
+    if (typeof value !== 'string' || !value) { return value; }
+
+    if (DATE_ONLY.test(value)) {
+        const date = new Date(`${value}T00:00:00Z`);
+        date.setUTCDate(date.getUTCDate() + days);
+        return date.toISOString().slice(0, 10);
+    }
+
+    const timestamp = Date.parse(value);
+    if (isNaN(timestamp)) { return value; }
+    return new Date(timestamp + days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+function resolveTemplate(from: string, payload: any, sourceRecord: any): any {
+    const read = (field: string) => (field in payload ? payload[field] : sourceRecord?.[field]);
+    if (!from.includes('{')) {
+        return read(from);
+    }
+    return from.replace(/\{([a-zA-Z0-9_.]+)\}/g, (_match, field) => {
+        const value = read(field);
+        return value === null || value === undefined ? '' : String(value);
+    });
+}
+
+/**
+ * Rule fields other than the target, i.e. source fields a rule reads
+ */
+export function getReferencedFields(rule: TransformRule): string[] {
+    if (rule.type !== 'copyField') { return []; }
+    if (!rule.from.includes('{')) { return [rule.from]; }
+    return Array.from(rule.from.matchAll(/\{([a-zA-Z0-9_.]+)\}/g), match => match[1]);
+}
+
+/**
+ * Problems that would make a rule set fail at transfer time (e.g. invalid regular expressions)
+ */
+export function validateTransformRules(ruleSet: TransformRuleSet): string[] {
+    const problems: string[] = [];
+    for (const [objectType, rules] of Object.entries(ruleSet)) {
+        rules.forEach((rule, index) => {
+            const where = `${objectType} rule ${index + 1} (${rule.type})`;
+            if (!rule.field) {
+                problems.push(`${where}: no field specified`);
+            }
+            if (rule.type === 'regexReplace') {
+                try {
+                    new RegExp(rule.pattern, rule.flags);
+                } catch (error) {
+                    problems.push(`${where}: invalid regular expression: ${error instanceof Error ? error.message : error}`);
+                }
+            }
+            if (rule.type === 'dateShift' && !Number.isFinite(rule.days)) {
+                problems.push(`${where}: days must be a number`);
+            }
+            if (rule.type === 'copyField' && !rule.from) {
+                problems.push(`${where}: no source field specified`);
+            }
+            // Only the record's own fields are queried, so a parent's field would always copy as blank
+            for (const field of getReferencedFields(rule).filter(name => name.includes('.'))) {
+                problems.push(`${where}: ${field} is a field of a related record; only fields of the record itself can be copied`);
+            }
+        });
+    }
+    return problems;
+}
+
+/**
+ * Apply an object's rules to a cleaned payload in place. `sourceRecord` is the record as
+ * queried, so rules can read fields that cleaning removed (Id, CreatedDate...).
+ */
+export function applyTransformRules(rules: TransformRule[] | undefined, payload: any, sourceRecord?: any): void {
+    for (const rule of rules || []) {
+        const value = payload[rule.field];
+        switch (rule.type) {
+            case 'setConstant':
+                payload[rule.field] = rule.value;
+                break;
+            case 'copyField':
+                payload[rule.field] = resolveTemplate(rule.from, payload, sourceRecord);
+                break;
+            case 'regexReplace':
+                if (value !== null && value !== undefined) {
+                    payload[rule.field] = String(value).replace(new RegExp(rule.pattern, rule.flags ?? 'g'), rule.replacement);
+                }
+                break;
+            case 'lookup':
+                if (value !== null && value !== undefined && Object.prototype.hasOwnProperty.call(rule.table, String(value))) {
+                    payload[rule.field] = rule.table[String(value)];
+                } else if (rule.default !== undefined) {
+                    payload[rule.field] = rule.default;
+                }
+                break;
+            case 'uppercase':
+                if (typeof value === 'string') { payload[rule.field] = value.toUpperCase(); }
+                break;
+            case 'lowercase':
+                if (typeof value === 'string') { payload[rule.field] = value.toLowerCase(); }
+                break;
+            case 'trim':
+                if (typeof value === 'string') { payload[rule.field] = value.trim(); }
+                break;
+            case 'dateShift':
+                if (rule.field in payload) { payload[rule.field] = shiftDate(value, rule.days); }
+                break;
+        }
+    }
+}
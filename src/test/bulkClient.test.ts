@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import { SalesforceBulkClient } from '../salesforce/bulkClient';
+import { SalesforceRestClient } from '../salesforce/restClient';
+
+/**
+ * REST transport for one ingest job: records the requests and answers from `results`
+ */
+class FakeBulkTransport {
+	readonly requests: { method: string; endpoint: string; body?: any }[] = [];
+	state = 'InProgress';
+	results: Record<string, string> = { successfulResults: '', failedResults: '', unprocessedrecords: '' };
+
+	async request(endpoint: string, options: any = {}): Promise<Response> {
+		const method = options.method || 'GET';
+		this.requests.push({ method, endpoint, body: options.body });
+		if (method === 'POST') {
+			return Response.json({ id: '750J1', state: 'Open' });
+		}
+		if (method === 'PATCH') {
+			const state = JSON.parse(options.body).state;
+			if (state === 'Aborted') {
+				this.state = 'Aborted';
+			}
+			return Response.json({ id: '750J1', state });
+		}
+		const resultFile = /\/(successfulResults|failedResults|unprocessedrecords)\/$/.exec(endpoint);
+		if (resultFile) {
+			return new Response(this.results[resultFile[1]]);
+		}
+		return Response.json({ id: '750J1', state: this.state });
+	}
+
+	uploadedCsv(): string {
+		return this.requests.find(request => request.method === 'PUT')!.body;
+	}
+}
+
+function bulkClient(transport: FakeBulkTransport): SalesforceBulkClient {
+	const client = new SalesforceBulkClient(transport as unknown as SalesforceRestClient);
+	Object.assign(client as any, { pollIntervalMs: 1, maxPollIntervalMs: 1 });
+	return client;
+}
+
+suite('bulkClient', () => {
+	test('writes relationship columns and clears null fields with #N/A', async () => {
+		const transport = new FakeBulkTransport();
+		transport.state = 'JobComplete';
+		await bulkClient(transport).ingest('Contact', 'insert', [
+			{ LastName: 'Lee', Phone: null, Account: { attributes: { type: 'Account' }, Ext__c: 'A-1' } }
+		]);
+		assert.strictEqual(transport.uploadedCsv(), 'LastName,Phone,Account.Ext__c\nLee,#N/A,A-1\n');
+	});
+
+	test('matches results to records by the echoed values, whatever their order', async () => {
+		const transport = new FakeBulkTransport();
+		transport.state = 'JobComplete';
+		transport.results = {
+			successfulResults: 'sf__Id,sf__Created,Name,Phone\n001T2,true,Globex,#N/A\n001T1,true,Acme,#N/A\n',
+			failedResults: 'sf__Id,sf__Error,Name,Phone\n,REQUIRED_FIELD_MISSING:Required fields are missing: [Industry]:Industry,Initech,555\n',
+			unprocessedrecords: ''
+		};
+		const results = await bulkClient(transport).ingest('Account', 'insert', [
+			{ Name: 'Acme', Phone: null },
+			{ Name: 'Initech', Phone: '555' },
+			{ Name: 'Globex', Phone: null }
+		]);
+		assert.deepStrictEqual(results, [
+			{ id: '001T1', success: true, created: true, errors: [] },
+			{ success: false, errors: [{ statusCode: 'REQUIRED_FIELD_MISSING', message: 'Required fields are missing: [Industry]:Industry' }] },
+			{ id: '001T2', success: true, created: true, errors: [] }
+		]);
+	});
+
+	test('aborts a job when the transfer is stopped and keeps the rows it already committed', async () => {
+		const transport = new FakeBulkTransport();
+		transport.results = {
+			successfulResults: 'sf__Id,sf__Created,Name\n001T1,true,Acme\n',
+			failedResults: '',
+			unprocessedrecords: 'Name\nGlobex\n'
+		};
+		const client = bulkClient(transport);
+		client.setCancellationToken({ isCancellationRequested: true, onCancellationRequested: () => ({ dispose: () => undefined }) });
+
+		const results = await client.ingest('Account', 'insert', [{ Name: 'Acme' }, { Name: 'Globex' }]);
+
+		assert.ok(transport.requests.some(request => request.method === 'PATCH' && JSON.parse(request.body).state === 'Aborted'));
+		assert.deepStrictEqual(results[0], { id: '001T1', success: true, created: true, errors: [] });
+		assert.deepStrictEqual(results[1], { success: false, errors: [{ message: 'Record not processed (job Aborted: the transfer was stopped)' }] });
+	});
+
+	test('fails a query job that was stopped', async () => {
+		const transport = new FakeBulkTransport();
+		const client = bulkClient(transport);
+		client.setCancellationToken({ isCancellationRequested: true, onCancellationRequested: () => ({ dispose: () => undefined }) });
+		await assert.rejects(client.query('SELECT Id FROM Account'), /Aborted: the transfer was stopped/);
+	});
+});
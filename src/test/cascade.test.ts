@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import { CascadeRelationship, getCascadeObjects, getReachableRelationships } from '../salesforce/cascade';
+
+const relationship = (parentObject: string, childObject: string, field: string): CascadeRelationship =>
+	({ parentObject, childObject, field, relationshipName: `${childObject}s` });
+
+suite('cascade', () => {
+	const contacts = relationship('Account', 'Contact', 'AccountId');
+	const cases = relationship('Contact', 'Case', 'ContactId');
+	const comments = relationship('Case', 'CaseComment', 'ParentId');
+	const childAccounts = relationship('Account', 'Account', 'ParentId');
+
+	test('follows relationships level by level within the depth limit', () => {
+		const cascade = { relationships: [comments, cases, contacts], maxDepth: 2 };
+		assert.deepStrictEqual(getReachableRelationships(['Account'], cascade), [contacts, cases]);
+		assert.deepStrictEqual(getCascadeObjects(['Account'], cascade), ['Contact', 'Case']);
+	});
+
+	test('does not revisit objects or report selected ones', () => {
+		const cascade = { relationships: [contacts, childAccounts, cases], maxDepth: 5 };
+		assert.deepStrictEqual(getReachableRelationships(['Account'], cascade), [contacts, childAccounts, cases]);
+		assert.deepStrictEqual(getCascadeObjects(['Account', 'Case'], cascade), ['Contact']);
+	});
+
+	test('returns nothing without relationships', () => {
+		assert.deepStrictEqual(getReachableRelationships(['Account'], undefined), []);
+		assert.deepStrictEqual(getCascadeObjects(['Account'], { relationships: [], maxDepth: 3 }), []);
+	});
+});
@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import { formatCsv, formatCsvValue, parseCsv, parseCsvRecords } from '../utils/csv';
+
+suite('csv', () => {
+	test('parses quoted fields, escaped quotes and CRLF line breaks', () => {
+		assert.deepStrictEqual(parseCsv('a,b\r\n"x, y","say ""hi"""\r\n'), [['a', 'b'], ['x, y', 'say "hi"']]);
+	});
+
+	test('keeps line breaks inside quoted fields', () => {
+		assert.deepStrictEqual(parseCsvRecords('Name,Notes\nAcme,"line 1\nline 2"'), [{ Name: 'Acme', Notes: 'line 1\nline 2' }]);
+	});
+
+	test('skips blank rows and fills missing cells', () => {
+		assert.deepStrictEqual(parseCsvRecords('a,b\n1\n\n2,3\n'), [{ a: '1', b: '' }, { a: '2', b: '3' }]);
+	});
+
+	test('quotes values only when needed', () => {
+		assert.strictEqual(formatCsvValue('plain'), 'plain');
+		assert.strictEqual(formatCsvValue('a,b'), '"a,b"');
+		assert.strictEqual(formatCsvValue('say "hi"'), '"say ""hi"""');
+		assert.strictEqual(formatCsvValue(null), '');
+		assert.strictEqual(formatCsv(['a', 'b'], [{ a: 1, b: 'x\ny' }]), 'a,b\n1,"x\ny"\n');
+	});
+
+	test('round-trips formatted values', () => {
+		const records = [{ a: 'x, "y"', b: 'line\nbreak' }];
+		assert.deepStrictEqual(parseCsvRecords(formatCsv(['a', 'b'], records)), records);
+	});
+});
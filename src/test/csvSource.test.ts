@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import { CsvSourceOptions, DEFAULT_CSV_CONVERSION, buildCsvRecords, convertCsvValue, suggestCsvColumnMappings } from '../salesforce/csvSource';
+import { parseCsvRows } from '../utils/csv';
+
+const FIELDS = [
+	{ name: 'Name', type: 'string' },
+	{ name: 'NumberOfEmployees', type: 'int' },
+	{ name: 'ParentId', type: 'reference', relationshipName: 'Parent', referenceTo: ['Account'] }
+];
+
+function source(overrides: Partial<CsvSourceOptions> = {}): CsvSourceOptions {
+	return {
+		filePath: '/tmp/accounts.csv',
+		label: 'accounts.csv',
+		objectType: 'Account',
+		columns: { Name: { field: 'Name' }, Employees: { field: 'NumberOfEmployees' } },
+		conversion: DEFAULT_CSV_CONVERSION,
+		...overrides
+	};
+}
+
+suite('csvSource', () => {
+	test('converts numbers with either decimal separator', () => {
+		assert.deepStrictEqual(convertCsvValue('1,234.5', 'double', DEFAULT_CSV_CONVERSION), { value: 1234.5 });
+		assert.deepStrictEqual(convertCsvValue('1.234,5', 'double', { ...DEFAULT_CSV_CONVERSION, decimalSeparator: ',' }), { value: 1234.5 });
+		assert.ok(convertCsvValue('12.5', 'int', DEFAULT_CSV_CONVERSION).error);
+	});
+
+	test('converts dates in the configured format and rejects impossible ones', () => {
+		assert.deepStrictEqual(convertCsvValue('03/31/2024', 'date', { ...DEFAULT_CSV_CONVERSION, dateFormat: 'mdy' }), { value: '2024-03-31' });
+		assert.deepStrictEqual(convertCsvValue('31.03.24', 'date', { ...DEFAULT_CSV_CONVERSION, dateFormat: 'dmy' }), { value: '2024-03-31' });
+		assert.ok(convertCsvValue('2024-02-30', 'date', DEFAULT_CSV_CONVERSION).error);
+		assert.ok(convertCsvValue('03/31/20245', 'date', { ...DEFAULT_CSV_CONVERSION, dateFormat: 'mdy' }).error);
+	});
+
+	test('converts checkboxes, times and multi-select picklists', () => {
+		assert.deepStrictEqual(convertCsvValue('Yes', 'boolean', DEFAULT_CSV_CONVERSION), { value: true });
+		assert.ok(convertCsvValue('maybe', 'boolean', DEFAULT_CSV_CONVERSION).error);
+		assert.deepStrictEqual(convertCsvValue('2:05 pm', 'time', DEFAULT_CSV_CONVERSION), { value: '14:05:00.000Z' });
+		assert.deepStrictEqual(convertCsvValue('a, b;;c', 'multipicklist', DEFAULT_CSV_CONVERSION), { value: 'a;b;c' });
+	});
+
+	test('parses rows with the line each one starts on', () => {
+		const rows = parseCsvRows('a,b\n1,"multi\nline"\n\n3,4\r\n5,6');
+		assert.deepStrictEqual(rows.map(row => row.line), [2, 5, 6]);
+		assert.strictEqual(rows[0].record.b, 'multi\nline');
+	});
+
+	test('reports errors by the line the row starts on', () => {
+		const rows = parseCsvRows('Name,Employees\n"Acme\nCorp",10\n\nGlobex,many\n');
+		const { records, errors } = buildCsvRecords(rows, source(), FIELDS);
+		assert.deepStrictEqual(records, [{ row: 2, payload: { Name: 'Acme\nCorp', NumberOfEmployees: 10 } }]);
+		assert.deepStrictEqual(errors, [{ row: 5, column: 'Employees', message: '"many" is not a whole number' }]);
+	});
+
+	test('leaves blank cells out unless they clear the field', () => {
+		const rows = parseCsvRows('Name,Employees\nAcme,\n');
+		assert.deepStrictEqual(buildCsvRecords(rows, source(), FIELDS).records[0].payload, { Name: 'Acme' });
+		const clearing = source({ conversion: { ...DEFAULT_CSV_CONVERSION, blankAsNull: true } });
+		assert.deepStrictEqual(buildCsvRecords(rows, clearing, FIELDS).records[0].payload, { Name: 'Acme', NumberOfEmployees: null });
+	});
+
+	test('writes external ID lookups as relationship references', () => {
+		const rows = parseCsvRows('Name,Parent.Ext__c\nAcme,P-1\n');
+		const lookup = source({ columns: { Name: { field: 'Name' }, 'Parent.Ext__c': { field: 'ParentId', externalIdField: 'Ext__c' } } });
+		assert.deepStrictEqual(buildCsvRecords(rows, lookup, FIELDS).records[0].payload, {
+			Name: 'Acme',
+			Parent: { attributes: { type: 'Account' }, Ext__c: 'P-1' }
+		});
+	});
+
+	test('suggests external ID lookups for relationship columns', () => {
+		const fields = [
+			{ name: 'Name', label: 'Account Name', type: 'string', required: true, externalId: false },
+			{ name: 'ParentId', label: 'Parent Account', type: 'reference', required: false, externalId: false, relationshipName: 'Parent', parentObject: 'Account', parentExternalIdFields: ['Ext__c'] }
+		];
+		assert.deepStrictEqual(suggestCsvColumnMappings(['name', 'parent.ext__c', 'Unrelated'], fields), {
+			'parent.ext__c': { field: 'ParentId', externalIdField: 'Ext__c' },
+			name: { field: 'Name' },
+			Unrelated: null
+		});
+	});
+});
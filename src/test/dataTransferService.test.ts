@@ -0,0 +1,339 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CheckpointStore } from '../salesforce/checkpointStore';
+import { DEFAULT_CSV_CONVERSION } from '../salesforce/csvSource';
+import { DataTransferOptions, DataTransferService } from '../salesforce/dataTransferService';
+import { IdMappingStore } from '../salesforce/idMappingStore';
+import { getFailedRecordIds } from '../salesforce/recordLedger';
+import { TransferJournalStore } from '../salesforce/transferJournal';
+import { FakeOrgs, MemoryMemento, SOURCE_ORG, TARGET_ORG, connectFakeOrgs, field } from './fakes';
+
+function transferOptions(overrides: Partial<DataTransferOptions> = {}): DataTransferOptions {
+	return {
+		sourceOrg: SOURCE_ORG,
+		targetOrg: TARGET_ORG,
+		objectTypes: ['Account'],
+		includeRelationships: false,
+		batchSize: 200,
+		transferMode: 'insert',
+		retryPolicy: { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 0 },
+		...overrides
+	};
+}
+
+suite('DataTransferService', () => {
+	let service: DataTransferService;
+	let orgs: FakeOrgs;
+	let idMappingStore: IdMappingStore;
+	let checkpointStore: CheckpointStore;
+	let journalStore: TransferJournalStore;
+
+	setup(() => {
+		const storage = new MemoryMemento();
+		idMappingStore = new IdMappingStore(storage);
+		checkpointStore = new CheckpointStore(storage);
+		journalStore = new TransferJournalStore(storage);
+		service = new DataTransferService(idMappingStore, checkpointStore, journalStore);
+		orgs = connectFakeOrgs(service);
+	});
+
+	function addAccounts(count: number): void {
+		const accounts = Array.from({ length: count }, (_, index) => ({ Id: `001S${String(index + 1).padStart(14, '0')}`, Name: `Account ${index + 1}` }));
+		orgs.source.addObject('Account', '001', [field('Name')], accounts);
+		orgs.target.addObject('Account', '001', [field('Name')]);
+	}
+
+	function stopAfterWrites(count: number) {
+		const token = { isCancellationRequested: false, onCancellationRequested: () => ({ dispose: () => undefined }) };
+		let writes = 0;
+		orgs.target.onWrite = () => {
+			token.isCancellationRequested = ++writes >= count;
+			return undefined;
+		};
+		return token;
+	}
+
+	suite('checkpoints', () => {
+		test('saves the checkpoint after every committed batch', async () => {
+			addAccounts(3);
+			const savedBeforeWrite: number[] = [];
+			// Stop before the transfer finishes so the checkpoint is kept
+			const token = { isCancellationRequested: false, onCancellationRequested: () => ({ dispose: () => undefined }) };
+			orgs.target.onWrite = () => {
+				savedBeforeWrite.push(checkpointStore.get(SOURCE_ORG, TARGET_ORG)?.processedCount ?? -1);
+				token.isCancellationRequested = savedBeforeWrite.length === 3;
+				return undefined;
+			};
+			await service.transferData(transferOptions({ batchSize: 1 }), token);
+
+			assert.deepStrictEqual(savedBeforeWrite, [-1, 1, 2]);
+			const checkpoint = checkpointStore.get(SOURCE_ORG, TARGET_ORG)!;
+			assert.strictEqual(checkpoint.processedCount, 3);
+			assert.strictEqual(checkpoint.lastSourceId, '001S00000000000003');
+			assert.strictEqual(Object.keys(checkpoint.idMap.Account).length, 3);
+		});
+
+		test('resumes after the last committed batch and clears the checkpoint when done', async () => {
+			addAccounts(3);
+			const stopped = await service.transferData(transferOptions({ batchSize: 1 }), stopAfterWrites(2));
+			assert.strictEqual(stopped.cancelled, true);
+			orgs.target.onWrite = undefined;
+
+			const resumed = await service.transferData(transferOptions({ batchSize: 1 }), undefined, checkpointStore.get(SOURCE_ORG, TARGET_ORG));
+
+			assert.deepStrictEqual(orgs.target.records.Account.map(record => record.Name), ['Account 1', 'Account 2', 'Account 3']);
+			assert.strictEqual(resumed.recordsTransferred, 3);
+			assert.strictEqual(resumed.journalId, stopped.journalId);
+			assert.strictEqual(checkpointStore.get(SOURCE_ORG, TARGET_ORG), undefined);
+		});
+	});
+
+	suite('Id map', () => {
+		function addContactsOfOneAccount(): void {
+			orgs.source.addObject('Account', '001', [field('Name')], [{ Id: '001S00000000000001', Name: 'Acme' }]);
+			orgs.source.addObject('Contact', '003', [field('LastName'), field('AccountId', 'reference', { referenceTo: ['Account'], relationshipName: 'Account' })], [
+				{ Id: '003S00000000000001', LastName: 'Lee', AccountId: '001S00000000000001' },
+				{ Id: '003S00000000000002', LastName: 'Kim', AccountId: '001S00000000000001' }
+			]);
+			orgs.target.addObject('Account', '001', [field('Name')]);
+			orgs.target.addObject('Contact', '003', [field('LastName'), field('AccountId', 'reference', { referenceTo: ['Account'], relationshipName: 'Account' })]);
+		}
+
+		test('creates a parent referenced by several batches and runs only once', async () => {
+			addContactsOfOneAccount();
+			const options = transferOptions({ objectTypes: ['Contact'], includeRelationships: true, batchSize: 1 });
+
+			await service.transferData(options);
+			orgs.source.records.Contact.push({ Id: '003S00000000000003', LastName: 'Ng', AccountId: '001S00000000000001' });
+			await service.transferData({ ...options, retry: { recordIds: { Contact: ['003S00000000000003'] } } });
+
+			assert.strictEqual(orgs.target.records.Account.length, 1);
+			const accountId = orgs.target.records.Account[0].Id;
+			assert.deepStrictEqual(orgs.target.records.Contact.map(contact => contact.AccountId), [accountId, accountId, accountId]);
+			assert.strictEqual(idMappingStore.forOrgs(SOURCE_ORG, TARGET_ORG).get('Account', '001S00000000000001'), accountId);
+		});
+
+		test('creates the parent again when its copy was deleted from the target', async () => {
+			addContactsOfOneAccount();
+			const options = transferOptions({ objectTypes: ['Contact'], includeRelationships: true });
+			await service.transferData(options);
+			orgs.target.records.Account.length = 0;
+
+			await service.transferData(options);
+
+			assert.strictEqual(orgs.target.records.Account.length, 1);
+			assert.strictEqual(idMappingStore.forOrgs(SOURCE_ORG, TARGET_ORG).get('Account', '001S00000000000001'), orgs.target.records.Account[0].Id);
+		});
+	});
+
+	suite('write retries', () => {
+		const locked = [{ statusCode: 'UNABLE_TO_LOCK_ROW', message: 'unable to obtain exclusive access to this record' }];
+
+		test('resubmits only the rows that failed with a transient error', async () => {
+			addAccounts(3);
+			let lockedOnce = false;
+			orgs.target.onWrite = (_sobjectType, record) => {
+				if (record.Name === 'Account 2' && !lockedOnce) {
+					lockedOnce = true;
+					return locked;
+				}
+				return undefined;
+			};
+
+			const result = await service.transferData(transferOptions());
+
+			assert.deepStrictEqual(result.errors, []);
+			assert.deepStrictEqual(orgs.target.callsOf('create').map(([, records]) => records.map((record: any) => record.Name)), [
+				['Account 1', 'Account 2', 'Account 3'],
+				['Account 2']
+			]);
+			assert.strictEqual(result.recordsTransferred, 3);
+			assert.strictEqual(result.recordsSucceededAfterRetry, 1);
+		});
+
+		test('gives up after the configured number of attempts', async () => {
+			addAccounts(1);
+			orgs.target.onWrite = () => locked;
+
+			const result = await service.transferData(transferOptions({ retryPolicy: { maxAttempts: 2, baseDelayMs: 0, maxDelayMs: 0 } }));
+
+			assert.strictEqual(orgs.target.callsOf('create').length, 2);
+			assert.strictEqual(result.recordsTransferred, 0);
+			assert.strictEqual(result.recordsSucceededAfterRetry, 0);
+			assert.deepStrictEqual(result.errors, ['Account: unable to obtain exclusive access to this record code=UNABLE_TO_LOCK_ROW']);
+		});
+	});
+
+	suite('ledger', () => {
+		const requiredField = [{ statusCode: 'REQUIRED_FIELD_MISSING', message: 'Required fields are missing: [Industry]', fields: ['Industry'] }];
+
+		test('records the outcome of every written record', async () => {
+			addAccounts(2);
+			orgs.target.onWrite = (_sobjectType, record) => record.Name === 'Account 2' ? requiredField : undefined;
+
+			const result = await service.transferData(transferOptions());
+
+			assert.deepStrictEqual(result.ledger, [
+				{ objectType: 'Account', sourceId: '001S00000000000001', targetId: orgs.target.records.Account[0].Id, operation: 'insert', status: 'created' },
+				{
+					objectType: 'Account',
+					sourceId: '001S00000000000002',
+					targetId: undefined,
+					operation: 'insert',
+					status: 'failed',
+					errorCode: 'REQUIRED_FIELD_MISSING',
+					message: 'Required fields are missing: [Industry]',
+					fields: ['Industry']
+				}
+			]);
+		});
+
+		test('marks the whole batch failed when the write request itself fails', async () => {
+			addAccounts(2);
+			orgs.target.create = async () => { throw new Error('Salesforce API error: 503 Service Unavailable'); };
+
+			const result = await service.transferData(transferOptions());
+
+			assert.deepStrictEqual(result.ledger.map(entry => [entry.sourceId, entry.status]), [['001S00000000000001', 'failed'], ['001S00000000000002', 'failed']]);
+			assert.ok(result.ledger.every(entry => /503 Service Unavailable/.test(entry.message || '')));
+		});
+
+		test('retries only the failed records of an earlier run and continues its journal', async () => {
+			addAccounts(2);
+			orgs.target.onWrite = (_sobjectType, record) => record.Name === 'Account 2' ? requiredField : undefined;
+			const first = await service.transferData(transferOptions());
+			orgs.target.onWrite = undefined;
+
+			const retried = await service.transferData(transferOptions({ retry: { recordIds: getFailedRecordIds(first.ledger), journalId: first.journalId } }));
+
+			assert.deepStrictEqual(retried.ledger.map(entry => [entry.sourceId, entry.status]), [['001S00000000000002', 'created']]);
+			assert.deepStrictEqual(orgs.target.records.Account.map(record => record.Name), ['Account 1', 'Account 2']);
+			assert.strictEqual(journalStore.get(first.journalId!)?.created.Account.length, 2);
+		});
+	});
+
+	suite('journal and rollback', () => {
+		const accountFields = [field('Name'), field('Ext__c', 'string', { externalId: true })];
+
+		test('deletes the records a transfer created and restores the ones it updated', async () => {
+			orgs.source.addObject('Account', '001', accountFields, [
+				{ Id: '001S00000000000001', Name: 'Acme (new)', Ext__c: 'A-1' },
+				{ Id: '001S00000000000002', Name: 'Globex', Ext__c: 'A-2' }
+			]);
+			orgs.target.addObject('Account', '001', accountFields, [{ Id: '001T00000000000099', Name: 'Acme', Ext__c: 'A-1' }]);
+
+			const result = await service.transferData(transferOptions({ transferMode: 'upsert', externalIdMapping: { Account: 'Ext__c' } }));
+			const journal = journalStore.get(result.journalId!)!;
+			const createdId = orgs.target.records.Account[1].Id;
+			assert.deepStrictEqual(journal.created, { Account: [createdId] });
+			assert.deepStrictEqual(journal.updated.Account['001T00000000000099'], { Name: 'Acme' });
+
+			const rollback = await service.rollbackTransfer(journal);
+
+			assert.strictEqual(rollback.success, true);
+			assert.deepStrictEqual([rollback.deleted, rollback.restored], [1, 1]);
+			assert.deepStrictEqual(orgs.target.records.Account, [{ Id: '001T00000000000099', Name: 'Acme', Ext__c: 'A-1' }]);
+			assert.ok(journalStore.get(result.journalId!)?.rolledBackAt);
+		});
+
+		test('keeps records it could not delete in the journal so the rollback can be run again', async () => {
+			addAccounts(2);
+			const result = await service.transferData(transferOptions());
+			const journal = journalStore.get(result.journalId!)!;
+			const [first, second] = journal.created.Account;
+			orgs.target.delete = async (ids: string[]) => ids.map(id => id === first
+				? { id, success: true, errors: [] }
+				: { id, success: false, errors: [{ statusCode: 'DELETE_FAILED', message: 'referenced by an opportunity' }] });
+
+			const rollback = await service.rollbackTransfer(journal);
+
+			assert.strictEqual(rollback.success, false);
+			assert.deepStrictEqual([rollback.deleted, rollback.failed], [1, 1]);
+			assert.deepStrictEqual(journalStore.get(result.journalId!)?.created, { Account: [second] });
+			assert.strictEqual(journalStore.get(result.journalId!)?.rolledBackAt, undefined);
+		});
+	});
+
+	suite('Bulk jobs', () => {
+		test('keeps the rows an aborted job committed when the transfer is stopped', async () => {
+			addAccounts(2);
+			const token = { isCancellationRequested: false, onCancellationRequested: () => ({ dispose: () => undefined }) };
+			// Stop arrives while the job runs: Salesforce committed the first row, not the second
+			orgs.targetBulk.ingest = async (sobjectType: string, _operation: string, records: any[]) => {
+				token.isCancellationRequested = true;
+				return [orgs.target.insert(sobjectType, records[0]), { success: false, errors: [{ message: 'Record not processed (job Aborted: the transfer was stopped)' }] }];
+			};
+
+			const result = await service.transferData(transferOptions({ apiMode: 'bulk' }), token);
+
+			assert.strictEqual(result.cancelled, true);
+			assert.deepStrictEqual(result.ledger.map(entry => [entry.sourceId, entry.status]), [['001S00000000000001', 'created'], ['001S00000000000002', 'failed']]);
+			const targetId = orgs.target.records.Account[0].Id;
+			assert.strictEqual(idMappingStore.forOrgs(SOURCE_ORG, TARGET_ORG).get('Account', '001S00000000000001'), targetId);
+			assert.deepStrictEqual(journalStore.get(result.journalId!)?.created, { Account: [targetId] });
+		});
+	});
+
+	suite('CSV files', () => {
+		let filePath: string;
+
+		setup(() => {
+			filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'sf-data-transfer-')), 'contacts.csv');
+		});
+
+		teardown(() => {
+			fs.rmSync(path.dirname(filePath), { recursive: true, force: true });
+		});
+
+		test('masks the loaded rows like records read from an org', async () => {
+			fs.writeFileSync(filePath, 'Last Name,Email,Phone\nLee,lee@acme.com,(555) 010-0100\n');
+			orgs.target.addObject('Contact', '003', [field('LastName'), field('Email', 'email'), field('Phone', 'phone')]);
+
+			const result = await service.transferData(transferOptions({
+				objectTypes: [],
+				masking: { enabled: true, salt: 'test', overrides: { Contact: { LastName: 'name' } } },
+				csvSource: {
+					filePath,
+					label: 'contacts.csv',
+					objectType: 'Contact',
+					columns: { 'Last Name': { field: 'LastName' }, Email: { field: 'Email' }, Phone: { field: 'Phone' } },
+					conversion: DEFAULT_CSV_CONVERSION
+				}
+			}));
+
+			assert.deepStrictEqual(result.errors, []);
+			const [contact] = orgs.target.records.Contact;
+			assert.notStrictEqual(contact.LastName, 'Lee');
+			assert.match(contact.Email, /^user\.[0-9a-f]{12}@example\.invalid$/);
+			assert.match(contact.Phone, /^\(\d{3}\) \d{3}-\d{4}$/);
+			assert.notStrictEqual(contact.Phone, '(555) 010-0100');
+			assert.deepStrictEqual(result.maskedFields, { Contact: { LastName: 'name', Email: 'email', Phone: 'phone' } });
+		});
+	});
+
+	suite('files', () => {
+		const versionFields = [
+			field('Title'),
+			field('PathOnClient'),
+			field('VersionData', 'base64'),
+			field('ContentSize', 'int', { createable: false, updateable: false })
+		];
+
+		test('reads and writes file objects through REST even in bulk mode', async () => {
+			orgs.source.addObject('ContentVersion', '068', versionFields, [
+				{ Id: '068S00000000000001', Title: 'Plan', PathOnClient: 'plan.pdf', VersionData: '/services/data/v59.0/sobjects/ContentVersion/068S00000000000001/VersionData', ContentSize: 10 }
+			]);
+			orgs.target.addObject('ContentVersion', '068', versionFields);
+
+			const result = await service.transferData(transferOptions({ objectTypes: ['ContentVersion'], apiMode: 'bulk' }));
+
+			assert.deepStrictEqual(result.errors, []);
+			assert.deepStrictEqual(orgs.sourceBulk.queries, []);
+			assert.deepStrictEqual(orgs.targetBulk.ingests, []);
+			assert.strictEqual(orgs.target.callsOf('createWithBlob').length, 1);
+			assert.strictEqual(result.writtenByObject.ContentVersion, 1);
+		});
+	});
+});
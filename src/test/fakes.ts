@@ -0,0 +1,222 @@
+import { DataTransferService } from '../salesforce/dataTransferService';
+import { SalesforceOrg } from '../salesforce/orgManager';
+import { DEFAULT_RETRY_POLICY, RetryPolicy } from '../salesforce/retryPolicy';
+
+/**
+ * In-memory stand-ins for the REST and Bulk clients and for workspace state,
+ * so DataTransferService can be exercised without an org
+ */
+
+export const SOURCE_ORG: SalesforceOrg = { username: 'source@example.com', orgId: '00Dsource', instanceUrl: 'https://source.example.com', accessToken: 'source' };
+export const TARGET_ORG: SalesforceOrg = { username: 'target@example.com', orgId: '00Dtarget', instanceUrl: 'https://target.example.com', accessToken: 'target' };
+
+export function field(name: string, type: string = 'string', extra: any = {}): any {
+	return { name, label: name, type, createable: true, updateable: true, ...extra };
+}
+
+export class MemoryMemento {
+	private values = new Map<string, any>();
+	// Number of update() calls per key
+	readonly writes = new Map<string, number>();
+
+	keys(): readonly string[] {
+		return Array.from(this.values.keys());
+	}
+
+	get<T>(key: string, defaultValue?: T): T | undefined {
+		// Stored values are copies, like the JSON workspace state
+		return this.values.has(key) ? JSON.parse(JSON.stringify(this.values.get(key))) : defaultValue;
+	}
+
+	async update(key: string, value: any): Promise<void> {
+		this.writes.set(key, (this.writes.get(key) || 0) + 1);
+		if (value === undefined) {
+			this.values.delete(key);
+		} else {
+			this.values.set(key, JSON.parse(JSON.stringify(value)));
+		}
+	}
+}
+
+/**
+ * One org: describes, records per object, and a log of every call.
+ * `onWrite` can fail single records with Salesforce errors.
+ */
+export class FakeRestClient {
+	readonly records: Record<string, any[]> = {};
+	readonly describes: Record<string, any> = {};
+	readonly calls: { method: string; args: any[] }[] = [];
+	onWrite?: (sobjectType: string, record: any) => any[] | undefined;
+	private retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+	private nextId = 1;
+
+	constructor(private idPrefix: string) {}
+
+	addObject(name: string, keyPrefix: string, fields: any[], records: any[] = []): void {
+		this.describes[name] = { name, keyPrefix, fields: [field('Id', 'id', { createable: false, updateable: false }), ...fields], recordTypeInfos: [] };
+		this.records[name] = records.map(record => ({ ...record }));
+	}
+
+	setRetryPolicy(retryPolicy: RetryPolicy): void {
+		this.retryPolicy = retryPolicy;
+	}
+
+	getRetryPolicy(): RetryPolicy {
+		return this.retryPolicy;
+	}
+
+	async describeGlobal(): Promise<any> {
+		return { sobjects: Object.values(this.describes).map(describe => ({ name: describe.name, keyPrefix: describe.keyPrefix })) };
+	}
+
+	async describe(sobjectType: string): Promise<any> {
+		this.calls.push({ method: 'describe', args: [sobjectType] });
+		const describe = this.describes[sobjectType];
+		if (!describe) {
+			throw new Error(`Salesforce API error: 404 Not Found - ${sobjectType}`);
+		}
+		return describe;
+	}
+
+	async query(soql: string): Promise<any> {
+		this.calls.push({ method: 'query', args: [soql] });
+		const records = this.select(soql);
+		return /SELECT COUNT\(\)/i.test(soql)
+			? { totalSize: records.length, done: true, records: [] }
+			: { totalSize: records.length, done: true, records };
+	}
+
+	async queryAllPages(soql: string): Promise<any> {
+		return this.query(soql);
+	}
+
+	async create(sobjectType: string, records: any[]): Promise<any> {
+		this.calls.push({ method: 'create', args: [sobjectType, records] });
+		const results = records.map(record => this.insert(sobjectType, record));
+		return results.length === 1 ? results[0] : results;
+	}
+
+	async update(sobjectType: string, records: any[]): Promise<any[]> {
+		this.calls.push({ method: 'update', args: [sobjectType, records] });
+		return records.map(record => {
+			const existing = (this.records[sobjectType] || []).find(candidate => candidate.Id === record.Id);
+			if (!existing) {
+				return { id: record.Id, success: false, errors: [{ statusCode: 'ENTITY_IS_DELETED', message: 'entity is deleted' }] };
+			}
+			Object.assign(existing, record);
+			return { id: record.Id, success: true, errors: [] };
+		});
+	}
+
+	async upsert(sobjectType: string, externalIdField: string, records: any[]): Promise<any[]> {
+		this.calls.push({ method: 'upsert', args: [sobjectType, externalIdField, records] });
+		return records.map(record => {
+			const existing = (this.records[sobjectType] || []).find(candidate => candidate[externalIdField] === record[externalIdField]);
+			if (!existing) {
+				return { ...this.insert(sobjectType, record), created: true };
+			}
+			Object.assign(existing, record);
+			return { id: existing.Id, success: true, created: false, errors: [] };
+		});
+	}
+
+	async delete(ids: string[]): Promise<any[]> {
+		this.calls.push({ method: 'delete', args: [ids] });
+		return ids.map(id => {
+			for (const records of Object.values(this.records)) {
+				const index = records.findIndex(record => record.Id === id);
+				if (index >= 0) {
+					records.splice(index, 1);
+					return { id, success: true, errors: [] };
+				}
+			}
+			return { id, success: false, errors: [{ statusCode: 'ENTITY_IS_DELETED', message: 'entity is deleted' }] };
+		});
+	}
+
+	async getBlob(sobjectType: string, id: string, blobField: string): Promise<Buffer> {
+		this.calls.push({ method: 'getBlob', args: [sobjectType, id, blobField] });
+		return Buffer.from(`content of ${id}`);
+	}
+
+	async createWithBlob(sobjectType: string, record: any, blobField: string, fileName: string, content: Buffer): Promise<any> {
+		this.calls.push({ method: 'createWithBlob', args: [sobjectType, record, blobField, fileName, content] });
+		return this.insert(sobjectType, record);
+	}
+
+	async identity(): Promise<any> {
+		return {};
+	}
+
+	callsOf(method: string): any[][] {
+		return this.calls.filter(call => call.method === method).map(call => call.args);
+	}
+
+	insert(sobjectType: string, record: any): any {
+		const errors = this.onWrite?.(sobjectType, record);
+		if (errors) {
+			return { success: false, errors };
+		}
+		const keyPrefix = this.describes[sobjectType]?.keyPrefix || '001';
+		const id = `${keyPrefix}${this.idPrefix}${String(this.nextId++).padStart(15 - this.idPrefix.length, '0')}`;
+		(this.records[sobjectType] || (this.records[sobjectType] = [])).push({ ...record, Id: id });
+		return { id, success: true, errors: [] };
+	}
+
+	// Enough SOQL for the service's own queries: FROM, `Field IN (...)` and `Field = '...'`
+	private select(soql: string): any[] {
+		const object = /\bFROM\s+(\w+)/i.exec(soql)?.[1] || '';
+		let records = [...(this.records[object] || [])];
+		const inFilter = /\bWHERE\s+(\w+)\s+IN\s+\(([^)]*)\)/i.exec(soql);
+		if (inFilter) {
+			const values = inFilter[2].split(',').map(value => value.trim().replace(/^'|'$/g, ''));
+			records = records.filter(record => values.includes(String(record[inFilter[1]])));
+		}
+		const equalsFilter = /\bWHERE\s+(\w+)\s*=\s*'((?:[^'\\]|\\.)*)'/i.exec(soql);
+		if (equalsFilter) {
+			records = records.filter(record => String(record[equalsFilter[1]]) === equalsFilter[2].replace(/\\'/g, "'"));
+		}
+		const limit = /\bLIMIT\s+(\d+)/i.exec(soql);
+		return (limit ? records.slice(0, Number(limit[1])) : records).map(record => ({ ...record }));
+	}
+}
+
+/**
+ * Bulk client over a FakeRestClient's records, logging every query and ingest job
+ */
+export class FakeBulkClient {
+	readonly queries: string[] = [];
+	readonly ingests: { sobjectType: string; operation: string; records: any[] }[] = [];
+
+	constructor(private rest: FakeRestClient) {}
+
+	setCancellationToken(): void {}
+
+	async query(soql: string): Promise<any[]> {
+		this.queries.push(soql);
+		return (await this.rest.query(soql)).records;
+	}
+
+	async ingest(sobjectType: string, operation: string, records: any[], externalIdField?: string): Promise<any[]> {
+		this.ingests.push({ sobjectType, operation, records });
+		return operation === 'upsert' ? this.rest.upsert(sobjectType, externalIdField!, records) : records.map(record => this.rest.insert(sobjectType, record));
+	}
+}
+
+export interface FakeOrgs {
+	source: FakeRestClient;
+	target: FakeRestClient;
+	sourceBulk: FakeBulkClient;
+	targetBulk: FakeBulkClient;
+}
+
+/**
+ * Point a service at fake source and target orgs instead of initializeConnections
+ */
+export function connectFakeOrgs(service: DataTransferService): FakeOrgs {
+	const source = new FakeRestClient('S');
+	const target = new FakeRestClient('T');
+	const orgs = { source, target, sourceBulk: new FakeBulkClient(source), targetBulk: new FakeBulkClient(target) };
+	Object.assign(service as any, { sourceConn: orgs.source, targetConn: orgs.target, sourceBulk: orgs.sourceBulk, targetBulk: orgs.targetBulk });
+	return orgs;
+}
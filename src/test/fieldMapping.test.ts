@@ -0,0 +1,30 @@
+import * as assert from 'assert';
+import { applyFieldMapping, getTargetField, getTargetObject, suggestFieldMappings } from '../salesforce/fieldMapping';
+
+suite('fieldMapping', () => {
+	const mappings = {
+		Account: { targetObject: 'Company__c', fields: { A__c: 'B__c', B__c: 'A__c', Secret__c: null } }
+	};
+
+	test('resolves target objects and fields', () => {
+		assert.strictEqual(getTargetObject(mappings, 'Account'), 'Company__c');
+		assert.strictEqual(getTargetObject(mappings, 'Contact'), 'Contact');
+		assert.strictEqual(getTargetField(mappings, 'Account', 'A__c'), 'B__c');
+		assert.strictEqual(getTargetField(mappings, 'Account', 'Secret__c'), null);
+		assert.strictEqual(getTargetField(mappings, 'Account', 'Name'), 'Name');
+	});
+
+	test('renames swapped fields without overwriting and drops ignored ones', () => {
+		const payload = { A__c: 1, B__c: 2, Secret__c: 'x', Name: 'Acme' };
+		applyFieldMapping(mappings, 'Account', payload);
+		assert.deepStrictEqual(payload, { A__c: 2, B__c: 1, Name: 'Acme' });
+	});
+
+	test('suggests same-named fields first, then similar unclaimed ones', () => {
+		const suggestions = suggestFieldMappings(
+			[{ name: 'Name', label: 'Name' }, { name: 'Legacy_Code__c', label: 'Legacy Code' }, { name: 'Zzz__c', label: 'Zzz' }],
+			[{ name: 'Name', label: 'Name' }, { name: 'Code__c', label: 'Code' }, { name: 'Industry', label: 'Industry' }]
+		);
+		assert.deepStrictEqual(suggestions, { Name: 'Name', Legacy_Code__c: 'Code__c', Zzz__c: null });
+	});
+});
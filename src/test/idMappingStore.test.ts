@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import { IdMappingStore } from '../salesforce/idMappingStore';
+import { MemoryMemento, SOURCE_ORG, TARGET_ORG } from './fakes';
+
+suite('idMappingStore', () => {
+	let storage: MemoryMemento;
+	let store: IdMappingStore;
+
+	setup(() => {
+		storage = new MemoryMemento();
+		store = new IdMappingStore(storage);
+	});
+
+	test('keeps changes in memory until they are flushed', async () => {
+		const idMap = store.forOrgs(SOURCE_ORG, TARGET_ORG);
+		idMap.set('Account', '001S1', '001T1');
+		assert.strictEqual(store.forOrgs(SOURCE_ORG, TARGET_ORG).get('Account', '001S1'), undefined);
+
+		await idMap.flush();
+		assert.strictEqual(store.forOrgs(SOURCE_ORG, TARGET_ORG).get('Account', '001S1'), '001T1');
+	});
+
+	test('only writes to workspace state when something changed', async () => {
+		const idMap = store.forOrgs(SOURCE_ORG, TARGET_ORG);
+		idMap.set('Account', '001S1', '001T1');
+		await idMap.flush();
+		idMap.set('Account', '001S1', '001T1');
+		await idMap.flush();
+		assert.deepStrictEqual(Array.from(storage.writes.values()), [1]);
+	});
+
+	test('keeps one map per source and target org pair', async () => {
+		const idMap = store.forOrgs(SOURCE_ORG, TARGET_ORG);
+		idMap.set('Account', '001S1', '001T1');
+		await idMap.flush();
+		assert.strictEqual(store.forOrgs(TARGET_ORG, SOURCE_ORG).get('Account', '001S1'), undefined);
+		assert.strictEqual(store.forOrgs({ ...SOURCE_ORG, orgId: 'unknown' }, TARGET_ORG).get('Account', '001S1'), undefined);
+	});
+
+	test('tracks the entries of the current transfer separately from earlier runs', async () => {
+		const earlier = store.forOrgs(SOURCE_ORG, TARGET_ORG);
+		earlier.set('Account', '001S1', '001T1');
+		await earlier.flush();
+
+		const idMap = store.forOrgs(SOURCE_ORG, TARGET_ORG);
+		idMap.seed({ Contact: { '003S1': '003T1' } });
+		idMap.set('Account', '001S2', '001T2');
+		idMap.delete('Contact', '003S1');
+
+		assert.deepStrictEqual(idMap.getSessionEntries(), { Contact: {}, Account: { '001S2': '001T2' } });
+		assert.strictEqual(idMap.get('Account', '001S1'), '001T1');
+	});
+
+	test('lists and clears mappings per object', async () => {
+		const idMap = store.forOrgs({ ...SOURCE_ORG, alias: 'dev' }, TARGET_ORG);
+		idMap.set('Account', '001S1', '001T1');
+		idMap.set('Account', '001S2', '001T2');
+		idMap.set('Contact', '003S1', '003T1');
+		await idMap.flush();
+
+		const summaries = store.list();
+		assert.deepStrictEqual(summaries.map(summary => [summary.sourceLabel, summary.targetLabel, summary.objectType, summary.count]), [
+			['dev', TARGET_ORG.username, 'Account', 2],
+			['dev', TARGET_ORG.username, 'Contact', 1]
+		]);
+		assert.deepStrictEqual(store.getObjectMapping(summaries[0].key, 'Contact'), { '003S1': '003T1' });
+
+		await store.clear(summaries[0].key, 'Account');
+		assert.deepStrictEqual(store.list().map(summary => summary.objectType), ['Contact']);
+		await store.clear(summaries[0].key, 'Contact');
+		assert.deepStrictEqual(storage.keys(), []);
+	});
+});
@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { buildMaskingPlan, maskRecord, maskValue } from '../salesforce/masking';
+
+suite('masking', () => {
+	test('masks the same value the same way for a salt', () => {
+		const masked = maskValue('jane@acme.com', 'email', 'salt');
+		assert.match(masked, /^user\.[0-9a-f]{12}@example\.invalid$/);
+		assert.strictEqual(maskValue('jane@acme.com', 'email', 'salt'), masked);
+		assert.notStrictEqual(maskValue('jane@acme.com', 'email', 'other'), masked);
+	});
+
+	test('keeps phone formatting and leaves empty values alone', () => {
+		assert.match(maskValue('+1 (555) 010-2030', 'phone'), /^\+\d \(\d{3}\) \d{3}-\d{4}$/);
+		assert.strictEqual(maskValue(null, 'hash'), null);
+		assert.strictEqual(maskValue('', 'redact'), '');
+		assert.strictEqual(maskValue('keep', 'none'), 'keep');
+	});
+
+	test('plans email and phone fields automatically and applies overrides', () => {
+		const metadata = { fields: [{ name: 'Email', type: 'email' }, { name: 'Phone', type: 'phone' }, { name: 'Name', type: 'string' }] };
+		assert.deepStrictEqual(buildMaskingPlan('Contact', metadata, { enabled: false }), {});
+		assert.deepStrictEqual(buildMaskingPlan('Contact', metadata, {
+			enabled: true,
+			overrides: { Contact: { Phone: 'none', Name: 'name' } }
+		}), { Email: 'email', Name: 'name' });
+	});
+
+	test('masks payloads in place and reports the fields that had values', () => {
+		const payload = { Email: 'jane@acme.com', Phone: null, Name: 'Jane' };
+		assert.deepStrictEqual(maskRecord(payload, { Email: 'email', Phone: 'phone', Fax: 'phone' }), ['Email']);
+		assert.notStrictEqual(payload.Email, 'jane@acme.com');
+		assert.strictEqual(payload.Phone, null);
+	});
+});
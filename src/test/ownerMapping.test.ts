@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { OrgUser, matchOwners, stripSandboxSuffix } from '../salesforce/ownerMapping';
+
+const user = (Id: string, Username: string, extra: Partial<OrgUser> = {}): OrgUser => ({ Id, Username, ...extra });
+
+suite('ownerMapping', () => {
+	test('strips only the last domain label', () => {
+		assert.strictEqual(stripSandboxSuffix('Jane@Acme.com.uat'), 'jane@acme.com');
+		assert.strictEqual(stripSandboxSuffix('jane@acme.com'), undefined);
+	});
+
+	test('matches usernames exactly or when one adds a sandbox suffix', () => {
+		const result = matchOwners(
+			[user('s1', 'jane@acme.com.uat'), user('s2', 'bob@acme.com')],
+			[user('t1', 'jane@acme.com'), user('t2', 'bob@acme.com.dev')],
+			[], []
+		);
+		assert.deepStrictEqual(result.ownerMap, { s1: 't1', s2: 't2' });
+		assert.deepStrictEqual(result.matchedBy, { s1: 'username', s2: 'username' });
+	});
+
+	test('does not match usernames that only share a prefix', () => {
+		const result = matchOwners(
+			[user('s1', 'jane@acme.co.uk'), user('s2', 'bob@corp.example.com')],
+			[user('t1', 'jane@acme.co.nz'), user('t2', 'bob@corp.example.org')],
+			[], [], ['username']
+		);
+		assert.deepStrictEqual(result.ownerMap, {});
+		assert.deepStrictEqual(result.unmatched.map(owner => owner.sourceId), ['s1', 's2']);
+	});
+
+	test('falls back to emails without .invalid, preferring active users', () => {
+		const result = matchOwners(
+			[user('s1', 'jane@old.com', { Email: 'Jane@acme.com.invalid' })],
+			[user('t1', 'jane@new.com', { Email: 'jane@acme.com', IsActive: false }), user('t2', 'j@new.com', { Email: 'jane@acme.com' })],
+			[], []
+		);
+		assert.deepStrictEqual(result.ownerMap, { s1: 't2' });
+		assert.strictEqual(result.matchedBy.s1, 'email');
+	});
+
+	test('never matches keys shared by several target users', () => {
+		const result = matchOwners(
+			[user('s1', 'jane@acme.com')],
+			[user('t1', 'jane@acme.com.uat'), user('t2', 'jane@acme.com.dev')],
+			[], []
+		);
+		assert.deepStrictEqual(result.ownerMap, {});
+	});
+
+	test('matches queues by DeveloperName', () => {
+		const result = matchOwners([], [], [{ Id: 'q1', DeveloperName: 'Support' }, { Id: 'q2', DeveloperName: 'Sales' }], [{ Id: 'tq', DeveloperName: 'support' }]);
+		assert.deepStrictEqual(result.ownerMap, { q1: 'tq' });
+		assert.deepStrictEqual(result.unmatched, [{ sourceId: 'q2', kind: 'Queue', name: 'Sales', label: undefined }]);
+	});
+});
@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { createFailedLedgerEntry, createLedgerEntry, formatLedgerCsv, getFailedRecordIds } from '../salesforce/recordLedger';
+
+suite('recordLedger', () => {
+	test('classifies successful writes', () => {
+		assert.strictEqual(createLedgerEntry('Account', 'insert', 'a1', { id: 't1', success: true }).status, 'created');
+		assert.strictEqual(createLedgerEntry('Account', 'upsert', 'a1', { id: 't1', success: true, created: false }).status, 'updated');
+		assert.strictEqual(createLedgerEntry('Account', 'update', 'a1', { id: 't1', success: true }).status, 'updated');
+	});
+
+	test('collects error codes, messages and fields', () => {
+		const entry = createLedgerEntry('Account', 'insert', 'a1', {
+			success: false,
+			errors: [
+				{ statusCode: 'REQUIRED_FIELD_MISSING', message: 'Name missing', fields: ['Name'] },
+				'Plain message'
+			]
+		});
+		assert.deepStrictEqual(entry, {
+			objectType: 'Account',
+			sourceId: 'a1',
+			targetId: undefined,
+			operation: 'insert',
+			status: 'failed',
+			errorCode: 'REQUIRED_FIELD_MISSING',
+			message: 'Name missing; Plain message',
+			fields: ['Name']
+		});
+	});
+
+	test('lists failed source Ids once, without lookup restores', () => {
+		const entries = [
+			createFailedLedgerEntry('Account', 'insert', 'a1', 'boom'),
+			createFailedLedgerEntry('Account', 'insert', 'a1', 'boom again'),
+			createFailedLedgerEntry('Account', 'update', 'a2', 'lookup'),
+			createFailedLedgerEntry('Contact', 'insert', undefined, 'no Id'),
+			createLedgerEntry('Contact', 'insert', 'c1', { id: 't1', success: true })
+		];
+		assert.deepStrictEqual(getFailedRecordIds(entries), { Account: ['a1'] });
+	});
+
+	test('formats the ledger as CSV', () => {
+		const csv = formatLedgerCsv([{ objectType: 'Account', sourceId: 'a1', operation: 'insert', status: 'failed', message: 'a, b', fields: ['Name', 'Phone'] }]);
+		assert.strictEqual(csv, 'objectType,sourceId,targetId,operation,status,errorCode,message,fields\nAccount,a1,,insert,failed,,"a, b",Name;Phone\n');
+	});
+});
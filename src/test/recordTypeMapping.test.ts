@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+import { matchRecordTypes } from '../salesforce/recordTypeMapping';
+
+suite('recordTypeMapping', () => {
+	test('matches by object and DeveloperName, following object and manual mappings', () => {
+		const result = matchRecordTypes(
+			[
+				{ Id: 's1', SobjectType: 'Account', DeveloperName: 'Retail' },
+				{ Id: 's2', SobjectType: 'Account', DeveloperName: 'Old', Name: 'Old' },
+				{ Id: 's3', SobjectType: 'Deal__c', DeveloperName: 'Big' }
+			],
+			[
+				{ Id: 't1', SobjectType: 'Account', DeveloperName: 'retail' },
+				{ Id: 't2', SobjectType: 'Account', DeveloperName: 'New' },
+				{ Id: 't3', SobjectType: 'Opportunity', DeveloperName: 'Big' }
+			],
+			{ Deal__c: 'Opportunity' },
+			{ Account: { Old: 'New' } }
+		);
+		assert.deepStrictEqual(result.recordTypeMap, { s1: 't1', s2: 't2', s3: 't3' });
+		assert.deepStrictEqual(result.missing, []);
+	});
+
+	test('reports record types without a counterpart', () => {
+		const result = matchRecordTypes([{ Id: 's1', SobjectType: 'Case', DeveloperName: 'Billing', Name: 'Billing' }], [], {});
+		assert.deepStrictEqual(result.missing, [{ objectType: 'Case', sourceId: 's1', developerName: 'Billing', name: 'Billing' }]);
+	});
+});
@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import { DEFAULT_RETRY_POLICY, getRetryDelay, isNetworkError, isRetryableRecordError, isRetryableStatus, isThrottlingStatus } from '../salesforce/retryPolicy';
+
+suite('retryPolicy', () => {
+	test('retries throttling and gateway failures', () => {
+		assert.ok(isRetryableStatus(503));
+		assert.ok(isRetryableStatus(403, '[{"errorCode":"REQUEST_LIMIT_EXCEEDED"}]'));
+		assert.ok(!isRetryableStatus(403, '[{"errorCode":"INSUFFICIENT_ACCESS"}]'));
+		assert.ok(!isRetryableStatus(400));
+	});
+
+	test('treats only throttling as safe to retry for writes', () => {
+		assert.ok(isThrottlingStatus(429));
+		assert.ok(isThrottlingStatus(403, 'REQUEST_LIMIT_EXCEEDED'));
+		assert.ok(!isThrottlingStatus(502));
+		assert.ok(!isThrottlingStatus(504));
+	});
+
+	test('retries records only when every error is transient', () => {
+		assert.ok(isRetryableRecordError([{ statusCode: 'UNABLE_TO_LOCK_ROW' }]));
+		assert.ok(!isRetryableRecordError([{ statusCode: 'UNABLE_TO_LOCK_ROW' }, { statusCode: 'REQUIRED_FIELD_MISSING' }]));
+		assert.ok(!isRetryableRecordError([]));
+	});
+
+	test('recognises network errors', () => {
+		assert.ok(isNetworkError(new TypeError('fetch failed')));
+		assert.ok(isNetworkError({ cause: { code: 'ECONNRESET' } }));
+		assert.ok(!isNetworkError(new Error('400 Bad Request')));
+	});
+
+	test('honours Retry-After and caps backoff', () => {
+		assert.strictEqual(getRetryDelay(1, DEFAULT_RETRY_POLICY, '2'), 2000);
+		assert.strictEqual(getRetryDelay(1, DEFAULT_RETRY_POLICY, '120'), DEFAULT_RETRY_POLICY.maxDelayMs);
+		for (let retry = 1; retry <= 10; retry++) {
+			const delay = getRetryDelay(retry, DEFAULT_RETRY_POLICY);
+			assert.ok(delay >= 0 && delay <= Math.min(DEFAULT_RETRY_POLICY.baseDelayMs * Math.pow(2, retry - 1), DEFAULT_RETRY_POLICY.maxDelayMs));
+		}
+	});
+});
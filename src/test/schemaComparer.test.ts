@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import { compareObjectSchemas, getIncompatibleFields } from '../salesforce/schemaComparer';
+
+const field = (name: string, type: string, extra: any = {}) => ({ name, type, createable: true, updateable: true, ...extra });
+
+suite('schemaComparer', () => {
+	test('reports missing objects without comparing fields', () => {
+		const diff = compareObjectSchemas('Account', { fields: [field('Name', 'string')] }, null, 'insert');
+		assert.strictEqual(diff.missingInTarget, true);
+		assert.deepStrictEqual(diff.issues, []);
+	});
+
+	test('classifies field differences', () => {
+		const source = {
+			fields: [
+				field('Missing__c', 'string'),
+				field('Amount__c', 'double'),
+				field('Code__c', 'string', { length: 255 }),
+				field('Flag__c', 'boolean'),
+				field('Stage__c', 'picklist', { picklistValues: [{ value: 'Open' }, { value: 'Won' }] }),
+				field('Ignored__c', 'string')
+			]
+		};
+		const target = {
+			fields: [
+				field('Amount__c', 'currency'),
+				field('Code__c', 'string', { length: 80 }),
+				field('Flag__c', 'string', { createable: false, updateable: true }),
+				field('Stage__c', 'picklist', { restrictedPicklist: true, picklistValues: [{ value: 'Open' }] })
+			]
+		};
+		const diff = compareObjectSchemas('Deal__c', source, target, 'upsert', { Ignored__c: null });
+		assert.deepStrictEqual(diff.issues.map(issue => [issue.field, issue.kind, issue.severity]), [
+			['Missing__c', 'missingField', 'error'],
+			['Code__c', 'lengthMismatch', 'warning'],
+			['Flag__c', 'notCreateable', 'warning'],
+			['Flag__c', 'typeMismatch', 'error'],
+			['Stage__c', 'picklistValues', 'error']
+		]);
+		assert.strictEqual(diff.comparedFields, 5);
+		assert.deepStrictEqual(getIncompatibleFields([diff]), { Deal__c: ['Missing__c', 'Flag__c', 'Stage__c'] });
+	});
+
+	test('lists record types missing in the target, honouring manual mappings', () => {
+		const source = { fields: [], recordTypeInfos: [{ master: true, developerName: 'Master', name: 'Master' }, { developerName: 'Retail', name: 'Retail' }, { developerName: 'Old', name: 'Old' }] };
+		const target = { fields: [], recordTypeInfos: [{ developerName: 'retail', name: 'Retail' }, { developerName: 'New', name: 'New' }] };
+		assert.deepStrictEqual(compareObjectSchemas('Account', source, target, 'insert').missingRecordTypes, [{ developerName: 'Old', name: 'Old' }]);
+		assert.deepStrictEqual(compareObjectSchemas('Account', source, target, 'insert', {}, { Old: 'New' }).missingRecordTypes, []);
+	});
+});
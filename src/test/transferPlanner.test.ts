@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import { planTransferOrder } from '../salesforce/transferPlanner';
+
+suite('transferPlanner', () => {
+	test('orders parents before their children', () => {
+		const dependencies = new Map([
+			['Contact', ['Account']],
+			['Case', ['Contact', 'Account']]
+		]);
+		const plan = planTransferOrder(['Case', 'Contact', 'Account'], dependencies);
+		assert.deepStrictEqual(plan.order, ['Account', 'Contact', 'Case']);
+		assert.deepStrictEqual(plan.cycles, []);
+	});
+
+	test('ignores self references and parents that are not selected', () => {
+		const dependencies = new Map([
+			['Account', ['Account', 'User']],
+			['Contact', ['Account']]
+		]);
+		const plan = planTransferOrder(['Contact', 'Account'], dependencies);
+		assert.deepStrictEqual(plan.order, ['Account', 'Contact']);
+		assert.deepStrictEqual(plan.cycles, []);
+	});
+
+	test('keeps objects of a cycle together in selection order, after their parents', () => {
+		const dependencies = new Map([
+			['A__c', ['B__c', 'Account']],
+			['B__c', ['A__c']],
+			['Child__c', ['B__c']]
+		]);
+		const plan = planTransferOrder(['Child__c', 'B__c', 'A__c', 'Account'], dependencies);
+		assert.deepStrictEqual(plan.order, ['Account', 'B__c', 'A__c', 'Child__c']);
+		assert.deepStrictEqual(plan.cycles, [['B__c', 'A__c']]);
+	});
+});
@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import { applyTransformRules, getReferencedFields, validateTransformRules } from '../salesforce/transformRules';
+
+suite('transformRules', () => {
+	test('applies rules in order', () => {
+		const payload: any = { Name: '  acme  ', Status__c: 'A' };
+		applyTransformRules([
+			{ type: 'trim', field: 'Name' },
+			{ type: 'uppercase', field: 'Name' },
+			{ type: 'lookup', field: 'Status__c', table: { A: 'Active' } },
+			{ type: 'setConstant', field: 'Source__c', value: 'Migration' }
+		], payload);
+		assert.deepStrictEqual(payload, { Name: 'ACME', Status__c: 'Active', Source__c: 'Migration' });
+	});
+
+	test('copies templates from the payload and the queried record', () => {
+		const payload: any = { FirstName: 'Jane' };
+		applyTransformRules([{ type: 'copyField', field: 'Legacy_Id__c', from: '{FirstName}-{Id}' }], payload, { Id: '003xx', FirstName: 'Ignored' });
+		assert.strictEqual(payload.Legacy_Id__c, 'Jane-003xx');
+		assert.deepStrictEqual(getReferencedFields({ type: 'copyField', field: 'X', from: '{FirstName}-{Id}' }), ['FirstName', 'Id']);
+	});
+
+	test('shifts dates and datetimes', () => {
+		const payload: any = { CloseDate: '2024-02-28', LastSeen__c: '2024-02-28T10:00:00.000Z', Empty__c: null };
+		applyTransformRules([
+			{ type: 'dateShift', field: 'CloseDate', days: 2 },
+			{ type: 'dateShift', field: 'LastSeen__c', days: -1 },
+			{ type: 'dateShift', field: 'Empty__c', days: 5 }
+		], payload);
+		assert.deepStrictEqual(payload, { CloseDate: '2024-03-01', LastSeen__c: '2024-02-27T10:00:00.000Z', Empty__c: null });
+	});
+
+	test('reports invalid rules', () => {
+		assert.deepStrictEqual(validateTransformRules({
+			Account: [
+				{ type: 'regexReplace', field: 'Name', pattern: '(', replacement: '' },
+				{ type: 'copyField', field: '', from: '' }
+			]
+		}).map(problem => problem.split(':')[0]), ['Account rule 1 (regexReplace)', 'Account rule 2 (copyField)', 'Account rule 2 (copyField)']);
+	});
+
+	test('rejects fields of related records', () => {
+		assert.deepStrictEqual(validateTransformRules({
+			Contact: [
+				{ type: 'copyField', field: 'Description', from: '{FirstName} at {Account.Name}' },
+				{ type: 'copyField', field: 'Title', from: 'Owner.Title' }
+			]
+		}), [
+			'Contact rule 1 (copyField): Account.Name is a field of a related record; only fields of the record itself can be copied',
+			'Contact rule 2 (copyField): Owner.Title is a field of a related record; only fields of the record itself can be copied'
+		]);
+	});
+});
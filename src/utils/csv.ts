@@ -0,0 +1,108 @@
+/**
+ * Minimal RFC 4180 CSV helpers (quoted fields, escaped quotes, embedded line breaks)
+ */
+
+/**
+ * A data row keyed by the header row, with the line of the file it starts on (1-based).
+ * Quoted line breaks make a row span several lines.
+ */
+export interface CsvRow {
+    line: number;
+    record: Record<string, string>;
+}
+
+export function parseCsv(text: string): string[][] {
+    return parseCsvLines(text).map(row => row.cells);
+}
+
+function parseCsvLines(text: string): { line: number; cells: string[] }[] {
+    const rows: { line: number; cells: string[] }[] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let line = 1;
+    let rowLine = 1;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (inQuotes) {
+            if (char === '"') {
+                if (text[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else {
+                    inQuotes = false;
+                }
+            } else {
+                if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) { line++; }
+                field += char;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            // Treat CRLF as a single line break
+            if (char === '\r' && text[i + 1] === '\n') { i++; }
+            row.push(field);
+            rows.push({ line: rowLine, cells: row });
+            row = [];
+            field = '';
+            rowLine = ++line;
+        } else {
+            field += char;
+        }
+    }
+
+    // Last line without a trailing line break
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push({ line: rowLine, cells: row });
+    }
+
+    return rows;
+}
+
+/**
+ * Parse CSV text into objects keyed by the header row
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+    return parseCsvRows(text).map(row => row.record);
+}
+
+/**
+ * Like parseCsvRecords, but keeps the line each row starts on; blank lines are skipped
+ */
+export function parseCsvRows(text: string): CsvRow[] {
+    const [header, ...rows] = parseCsvLines(text);
+    if (!header) { return []; }
+
+    return rows
+        .filter(({ cells }) => cells.length > 1 || cells[0] !== '')
+        .map(({ line, cells }) => {
+            const record: Record<string, string> = {};
+            header.cells.forEach((column, index) => {
+                record[column] = cells[index] ?? '';
+            });
+            return { line, record };
+        });
+}
+
+export function formatCsvValue(value: any): string {
+    if (value === null || value === undefined) { return ''; }
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatCsv(columns: string[], records: any[]): string {
+    const lines = [columns.map(formatCsvValue).join(',')];
+    for (const record of records) {
+        lines.push(columns.map(column => formatCsvValue(record[column])).join(','));
+    }
+    return lines.join('\n') + '\n';
+}
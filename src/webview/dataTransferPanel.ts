@@ -1,6 +1,16 @@
 import * as vscode from 'vscode';
 import { SalesforceOrg, SalesforceOrgManager } from '../salesforce/orgManager';
-import { DataTransferService, DataTransferOptions } from '../salesforce/dataTransferService';
+import { DataTransferService, DataTransferOptions, TransferProgressEvent, TransferResult } from '../salesforce/dataTransferService';
+import { TransferCheckpoint } from '../salesforce/checkpointStore';
+import { DryRunPlan, formatDryRunPlanMarkdown } from '../salesforce/dryRunPlan';
+import { TransferMappings } from '../salesforce/fieldMapping';
+import { TransformRuleSet } from '../salesforce/transformRules';
+import { OwnerMatchField } from '../salesforce/ownerMapping';
+import { RecordTypeMappings } from '../salesforce/recordTypeMapping';
+import { DEFAULT_CASCADE_DEPTH } from '../salesforce/cascade';
+import { summarizeJournal } from '../salesforce/transferJournal';
+import { formatLedgerCsv, getFailedRecordIds } from '../salesforce/recordLedger';
+import { parseCsv } from '../utils/csv';
 
 export class DataTransferPanel {
     public static currentPanel: DataTransferPanel | undefined;
@@ -9,6 +19,11 @@ export class DataTransferPanel {
     private readonly _panel: vscode.WebviewPanel;
     private readonly _extensionUri: vscode.Uri;
     private _disposables: vscode.Disposable[] = [];
+    private _transferCancellation: vscode.CancellationTokenSource | undefined;
+    // Set while a rollback uses the shared service's connection to its target org
+    private _rollbackRunning = false;
+    // Last transfer run from this panel: its webview options and result, for export and retrying failed records
+    private _lastRun: { sourceLabel: string; targetLabel: string; finishedAt: string; options: any; result: TransferResult } | undefined;
 
     private constructor(
         panel: vscode.WebviewPanel,
@@ -37,9 +52,63 @@ export class DataTransferPanel {
                     case 'previewQuery':
                         await this._previewQuery(message.query, message.sourceOrgUsername);
                         break;
+                    case 'planTransfer':
+                        await this._sendTransferPlan(message.objectTypes, message.sourceOrgUsername);
+                        break;
+                    case 'compareSchemas':
+                        await this._sendSchemaComparison(message.objectTypes, message.sourceOrgUsername, message.targetOrgUsername, message.transferMode, message.mappings, message.recordTypeMapping);
+                        break;
+                    case 'getChildRelationships':
+                        await this._sendChildRelationships(message.parentObject, message.sourceOrgUsername, message.depth);
+                        break;
+                    case 'previewOwners':
+                        await this._sendOwnerPreview(message.objectTypes, message.sourceOrgUsername, message.targetOrgUsername, message.fallbackOwner);
+                        break;
+                    case 'previewTransforms':
+                        await this._sendTransformPreview(message.transformRules, message.sourceOrgUsername);
+                        break;
+                    case 'suggestMappings':
+                        await this._sendMappingSuggestions(message.objectTypes, message.sourceOrgUsername, message.targetOrgUsername, message.targetObjects);
+                        break;
                     case 'startTransfer':
                         await this._startTransfer(message.options);
                         break;
+                    case 'stopTransfer':
+                        this._stopTransfer();
+                        break;
+                    case 'checkCheckpoint':
+                        this._sendCheckpoint(message.sourceOrgUsername, message.targetOrgUsername);
+                        break;
+                    case 'resumeTransfer':
+                        await this._resumeTransfer(message.sourceOrgUsername, message.targetOrgUsername);
+                        break;
+                    case 'discardCheckpoint':
+                        await this._discardCheckpoint(message.sourceOrgUsername, message.targetOrgUsername);
+                        break;
+                    case 'showIdMappings':
+                        await vscode.commands.executeCommand('sf-data-transfer.showIdMappings');
+                        break;
+                    case 'clearIdMappings':
+                        await vscode.commands.executeCommand('sf-data-transfer.clearIdMappings');
+                        break;
+                    case 'rollbackTransfer':
+                        await this._rollbackTransfer(message.journalId);
+                        break;
+                    case 'exportLedger':
+                        await this._exportLedger(message.format);
+                        break;
+                    case 'showFailedRecords':
+                        this._sendFailedRecords();
+                        break;
+                    case 'retryFailed':
+                        await this._retryFailedRecords();
+                        break;
+                    case 'pickCsvFile':
+                        await this._pickCsvFile();
+                        break;
+                    case 'suggestCsvMappings':
+                        await this._sendCsvMappings(message.objectType, message.columns, message.targetOrgUsername);
+                        break;
                 }
             },
             null,
@@ -126,6 +195,7 @@ export class DataTransferPanel {
             title: "Loading Salesforce objects...",
             cancellable: false
         }, async (progress) => {
+            let service: DataTransferService | undefined;
             try {
                 progress.report({ increment: 10, message: "Finding source org..." });
                 
@@ -156,14 +226,14 @@ export class DataTransferPanel {
                 
                 progress.report({ increment: 50, message: "Connecting to Salesforce..." });
                 
-                // Initialize data transfer service with source org
+                // Connect a lookup service with the source org
                 const tempTargetOrg = { ...sourceOrg }; // Use same org as temp target for initialization
-                await this.dataTransferService.initializeConnections(sourceOrg, tempTargetOrg);
+                service = await this._createLookupService(sourceOrg, tempTargetOrg);
                 
                 progress.report({ increment: 70, message: "Fetching all available objects..." });
                 
                 // Get all objects from the org (standard, custom, and managed packages)
-                const allObjects = await this.dataTransferService.getObjectTypes();
+                const allObjects = await service.getObjectTypes();
 
                 this._panel.webview.postMessage({
                     type: 'objectTypes',
@@ -189,29 +259,516 @@ export class DataTransferPanel {
                     type: 'error',
                     data: `Failed to get object types: ${error}`
                 });
+            } finally {
+                service?.dispose();
             }
         });
     }
 
-    private async _startTransfer(options: any) {
-        vscode.window.withProgress({
+    /**
+     * Connect a separate service for an operation that only reads org data. The shared service
+     * keeps the connections of a transfer that may be running, so its batches never go to another org.
+     * Callers dispose the service when their lookup finishes.
+     */
+    private async _createLookupService(sourceOrg: SalesforceOrg, targetOrg: SalesforceOrg): Promise<DataTransferService> {
+        const service = new DataTransferService();
+        try {
+            await service.initializeConnections(sourceOrg, targetOrg);
+        } catch (error) {
+            service.dispose();
+            throw error;
+        }
+        return service;
+    }
+
+    private async _sendTransferPlan(objectTypes: string[], sourceOrgUsername: string) {
+        let service: DataTransferService | undefined;
+        try {
+            if (!Array.isArray(objectTypes) || objectTypes.length === 0) {
+                this._panel.webview.postMessage({ type: 'transferPlan', data: { order: [], cycles: [] } });
+                return;
+            }
+
+            const sourceOrg = this.orgManager.getOrgs().find(org => org.username === sourceOrgUsername);
+            if (!sourceOrg) {
+                throw new Error('Source org not found');
+            }
+
+            if (!sourceOrg.accessToken) {
+                const accessToken = await this.orgManager.getAccessToken(sourceOrg.username);
+                if (!accessToken) {
+                    throw new Error(`Could not retrieve access token for ${sourceOrg.alias || sourceOrg.username}`);
+                }
+                sourceOrg.accessToken = accessToken;
+            }
+
+            // Relationship analysis only needs the source org
+            const tempTargetOrg = { ...sourceOrg };
+            service = await this._createLookupService(sourceOrg, tempTargetOrg);
+
+            const plan = await service.planTransfer(objectTypes);
+            this._panel.webview.postMessage({
+                type: 'transferPlan',
+                data: plan
+            });
+        } catch (error) {
+            console.error('Error planning transfer order:', error);
+            this._panel.webview.postMessage({
+                type: 'error',
+                data: `Failed to compute transfer order: ${error}`
+            });
+        } finally {
+            service?.dispose();
+        }
+    }
+
+    /**
+     * Connect a lookup service to both selected orgs (for operations that read the target schema)
+     */
+    private async _connectOrgPair(sourceOrgUsername: string, targetOrgUsername: string): Promise<DataTransferService> {
+        const orgs = this.orgManager.getOrgs();
+        const sourceOrg = orgs.find(org => org.username === sourceOrgUsername);
+        const targetOrg = orgs.find(org => org.username === targetOrgUsername);
+        if (!sourceOrg || !targetOrg) {
+            throw new Error('Source or target org not found');
+        }
+
+        for (const org of [sourceOrg, targetOrg]) {
+            const accessToken = await this.orgManager.getAccessToken(org.username);
+            if (!accessToken) {
+                throw new Error(`Could not retrieve access token for ${org.alias || org.username}`);
+            }
+            org.accessToken = accessToken;
+        }
+
+        return this._createLookupService(sourceOrg, targetOrg);
+    }
+
+    private async _sendMappingSuggestions(objectTypes: string[], sourceOrgUsername: string, targetOrgUsername: string, targetObjects?: Record<string, string>) {
+        let service: DataTransferService | undefined;
+        try {
+            service = await this._connectOrgPair(sourceOrgUsername, targetOrgUsername);
+            const suggestions = [];
+            for (const objectType of objectTypes) {
+                suggestions.push(await service.suggestMappings(objectType, targetObjects?.[objectType]));
+            }
+            this._panel.webview.postMessage({
+                type: 'mappingSuggestions',
+                data: suggestions
+            });
+        } catch (error) {
+            console.error('Error suggesting mappings:', error);
+            this._panel.webview.postMessage({
+                type: 'error',
+                data: `Failed to load field mappings: ${error}`
+            });
+        } finally {
+            service?.dispose();
+        }
+    }
+
+    /**
+     * Connect a lookup service to the source org only (for operations that just read source data)
+     */
+    private async _connectSourceOrg(sourceOrgUsername: string): Promise<DataTransferService> {
+        const sourceOrg = this.orgManager.getOrgs().find(org => org.username === sourceOrgUsername);
+        if (!sourceOrg) {
+            throw new Error('Source org not found');
+        }
+
+        const accessToken = await this.orgManager.getAccessToken(sourceOrg.username);
+        if (!accessToken) {
+            throw new Error(`Could not retrieve access token for ${sourceOrg.alias || sourceOrg.username}`);
+        }
+        sourceOrg.accessToken = accessToken;
+
+        return this._createLookupService(sourceOrg, { ...sourceOrg });
+    }
+
+    /**
+     * Connect a lookup service to the target org only (for CSV loads, which read no source org)
+     */
+    private async _connectTargetOrg(targetOrgUsername: string): Promise<DataTransferService> {
+        const targetOrg = this.orgManager.getOrgs().find(org => org.username === targetOrgUsername);
+        if (!targetOrg) {
+            throw new Error('Target org not found');
+        }
+
+        const accessToken = await this.orgManager.getAccessToken(targetOrg.username);
+        if (!accessToken) {
+            throw new Error(`Could not retrieve access token for ${targetOrg.alias || targetOrg.username}`);
+        }
+        targetOrg.accessToken = accessToken;
+
+        return this._createLookupService({ ...targetOrg }, targetOrg);
+    }
+
+    /**
+     * Let the user pick a CSV file and send its columns and first rows to the webview
+     */
+    private async _pickCsvFile() {
+        const uris = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+            filters: { 'CSV': ['csv'] },
+            openLabel: 'Choose CSV File'
+        });
+        if (!uris || uris.length === 0) {
+            return;
+        }
+
+        try {
+            const content = Buffer.from(await vscode.workspace.fs.readFile(uris[0])).toString('utf8').replace(/^\uFEFF/, '');
+            const [header, ...rows] = parseCsv(content);
+            if (!header || header.every(column => !column.trim())) {
+                throw new Error('the file has no header row');
+            }
+            const dataRows = rows.filter(row => row.length > 1 || row[0] !== '');
+            this._panel.webview.postMessage({
+                type: 'csvFile',
+                data: {
+                    filePath: uris[0].fsPath,
+                    label: vscode.workspace.asRelativePath(uris[0], false),
+                    columns: header,
+                    sampleRows: dataRows.slice(0, 3).map(row => Object.fromEntries(header.map((column, index) => [column, row[index] ?? '']))),
+                    rowCount: dataRows.length
+                }
+            });
+        } catch (error) {
+            console.error('Error reading CSV file:', error);
+            this._panel.webview.postMessage({
+                type: 'error',
+                data: `Failed to read ${uris[0].fsPath}: ${error}`
+            });
+        }
+    }
+
+    private async _sendCsvMappings(objectType: string, columns: string[], targetOrgUsername: string) {
+        let service: DataTransferService | undefined;
+        try {
+            service = await this._connectTargetOrg(targetOrgUsername);
+            this._panel.webview.postMessage({
+                type: 'csvMappings',
+                data: await service.suggestCsvMappings(objectType, columns)
+            });
+        } catch (error) {
+            console.error('Error suggesting CSV mappings:', error);
+            this._panel.webview.postMessage({
+                type: 'error',
+                data: `Failed to load the fields of ${objectType}: ${error}`
+            });
+        } finally {
+            service?.dispose();
+        }
+    }
+
+    private async _sendChildRelationships(parentObject: string, sourceOrgUsername: string, depth: number) {
+        let service: DataTransferService | undefined;
+        try {
+            service = await this._connectSourceOrg(sourceOrgUsername);
+            this._panel.webview.postMessage({
+                type: 'childRelationships',
+                data: {
+                    parentObject,
+                    depth,
+                    maxDepth: this._getCascadeDepth(),
+                    relationships: await service.getChildRelationships(parentObject)
+                }
+            });
+        } catch (error) {
+            console.error('Error loading child relationships:', error);
+            this._panel.webview.postMessage({
+                type: 'error',
+                data: `Failed to load child relationships of ${parentObject}: ${error}`
+            });
+        } finally {
+            service?.dispose();
+        }
+    }
+
+    private _getCascadeDepth(): number {
+        return vscode.workspace.getConfiguration('sf-data-transfer').get<number>('cascade.maxDepth', DEFAULT_CASCADE_DEPTH);
+    }
+
+    private async _sendTransformPreview(transformRules: TransformRuleSet, sourceOrgUsername: string) {
+        let service: DataTransferService | undefined;
+        try {
+            // Previews only read sample records from the source org
+            service = await this._connectSourceOrg(sourceOrgUsername);
+
+            const previews = [];
+            for (const [objectType, rules] of Object.entries(transformRules || {})) {
+                previews.push({ objectType, rows: await service.previewTransformRules(objectType, rules) });
+            }
+            this._panel.webview.postMessage({
+                type: 'transformPreview',
+                data: previews
+            });
+        } catch (error) {
+            console.error('Error previewing transformation rules:', error);
+            this._panel.webview.postMessage({
+                type: 'error',
+                data: `Failed to preview transformation rules: ${error}`
+            });
+        } finally {
+            service?.dispose();
+        }
+    }
+
+    private async _sendSchemaComparison(
+        objectTypes: string[],
+        sourceOrgUsername: string,
+        targetOrgUsername: string,
+        transferMode: 'insert' | 'upsert',
+        mappings?: TransferMappings,
+        recordTypeMapping?: RecordTypeMappings
+    ) {
+        let service: DataTransferService | undefined;
+        try {
+            service = await this._connectOrgPair(sourceOrgUsername, targetOrgUsername);
+            const diffs = await service.compareSchemas(objectTypes, transferMode || 'insert', mappings, recordTypeMapping);
+            this._panel.webview.postMessage({
+                type: 'schemaComparison',
+                data: diffs
+            });
+        } catch (error) {
+            console.error('Error comparing schemas:', error);
+            this._panel.webview.postMessage({
+                type: 'error',
+                data: `Failed to compare schemas: ${error}`
+            });
+        } finally {
+            service?.dispose();
+        }
+    }
+
+    private async _sendOwnerPreview(objectTypes: string[], sourceOrgUsername: string, targetOrgUsername: string, fallbackOwner?: string) {
+        let service: DataTransferService | undefined;
+        try {
+            service = await this._connectOrgPair(sourceOrgUsername, targetOrgUsername);
+            const preview = await service.previewOwnerMapping(objectTypes, {
+                enabled: true,
+                matchBy: this._getOwnerMatchOrder(),
+                fallbackOwner
+            });
+            this._panel.webview.postMessage({
+                type: 'ownerPreview',
+                data: preview
+            });
+        } catch (error) {
+            console.error('Error checking owners:', error);
+            this._panel.webview.postMessage({
+                type: 'error',
+                data: `Failed to check record owners: ${error}`
+            });
+        } finally {
+            service?.dispose();
+        }
+    }
+
+    private _getOwnerMatchOrder(): OwnerMatchField[] {
+        return vscode.workspace.getConfiguration('sf-data-transfer').get<OwnerMatchField[]>('ownerMapping.matchBy', ['username', 'email', 'federationId']);
+    }
+
+    private _stopTransfer() {
+        if (this._transferCancellation) {
+            this._transferCancellation.cancel();
+            this._panel.webview.postMessage({
+                type: 'transferStopping',
+                data: 'Stopping transfer after the current batch...'
+            });
+        }
+    }
+
+    /**
+     * Tell the webview whether an unfinished transfer between the selected orgs can be resumed
+     */
+    private _sendCheckpoint(sourceOrgUsername: string, targetOrgUsername: string) {
+        const checkpoint = sourceOrgUsername && targetOrgUsername
+            ? this.dataTransferService.getResumableCheckpoint({ username: sourceOrgUsername }, { username: targetOrgUsername })
+            : undefined;
+
+        this._panel.webview.postMessage({
+            type: 'checkpoint',
+            data: checkpoint ? {
+                sourceLabel: checkpoint.sourceLabel,
+                targetLabel: checkpoint.targetLabel,
+                updatedAt: checkpoint.updatedAt,
+                completedObjects: checkpoint.completedObjects,
+                currentObject: checkpoint.currentObject,
+                processedCount: checkpoint.processedCount,
+                recordsTransferred: checkpoint.totals.recordsTransferred
+            } : null
+        });
+    }
+
+    private async _resumeTransfer(sourceOrgUsername: string, targetOrgUsername: string) {
+        const checkpoint = this.dataTransferService.getResumableCheckpoint({ username: sourceOrgUsername }, { username: targetOrgUsername });
+        if (!checkpoint) {
+            this._panel.webview.postMessage({ type: 'error', data: 'No unfinished transfer found for the selected orgs' });
+            return;
+        }
+
+        await this._startTransfer({
+            ...checkpoint.options,
+            sourceOrg: checkpoint.sourceUsername,
+            targetOrg: checkpoint.targetUsername
+        }, checkpoint);
+    }
+
+    private async _discardCheckpoint(sourceOrgUsername: string, targetOrgUsername: string) {
+        await this.dataTransferService.discardCheckpoint({ username: sourceOrgUsername }, { username: targetOrgUsername });
+        this._sendCheckpoint(sourceOrgUsername, targetOrgUsername);
+    }
+
+    /**
+     * Pick a journaled transfer, confirm what undoing it changes, then roll it back in its target org
+     */
+    private async _rollbackTransfer(journalId?: string) {
+        // Rollback connects the shared service to its own target org, which a running transfer is writing through
+        if (this._transferCancellation || this._rollbackRunning) {
+            vscode.window.showWarningMessage('Wait for the running transfer or rollback to finish before rolling back.');
+            return;
+        }
+
+        const journals = this.dataTransferService.getRollbackCandidates();
+        if (journals.length === 0) {
+            vscode.window.showInformationMessage('No transfers are available to roll back.');
+            return;
+        }
+
+        const formatCounts = (counts: Record<string, number>) => Object.entries(counts).map(([objectType, count]) => `${objectType}: ${count}`).join(', ');
+        let journal = journalId ? journals.find(candidate => candidate.id === journalId) : undefined;
+        if (!journal) {
+            const selected = await vscode.window.showQuickPick(
+                journals.map(candidate => {
+                    const summary = summarizeJournal(candidate);
+                    return {
+                        label: `${candidate.sourceLabel} → ${candidate.targetLabel}`,
+                        description: new Date(candidate.startedAt).toLocaleString(),
+                        detail: `${summary.totalCreated} created, ${summary.totalUpdated} updated${candidate.finishedAt ? '' : ' (unfinished)'}`,
+                        journal: candidate
+                    };
+                }),
+                { placeHolder: 'Select the transfer to roll back' }
+            );
+            journal = selected?.journal;
+        }
+        if (!journal) {
+            return;
+        }
+
+        const summary = summarizeJournal(journal);
+        const changes = [
+            summary.totalCreated > 0 ? `Delete ${summary.totalCreated} created records (${formatCounts(summary.created)}).` : '',
+            summary.totalUpdated > 0 ? `Restore the previous field values of ${summary.totalUpdated} updated records (${formatCounts(summary.updated)}).` : ''
+        ].filter(Boolean).join('\n');
+        const confirmation = await vscode.window.showWarningMessage(
+            `Roll back the transfer from ${journal.sourceLabel} to ${journal.targetLabel} started ${new Date(journal.startedAt).toLocaleString()}?`,
+            { modal: true, detail: `${changes}\nChanges made in the target org since the transfer are overwritten or deleted with these records.` },
+            'Roll Back'
+        );
+        if (confirmation !== 'Roll Back') {
+            return;
+        }
+
+        const rollbackJournal = journal;
+        this._rollbackRunning = true;
+        await vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
-            title: "Transferring Salesforce data...",
-            cancellable: false
-        }, async (progress) => {
+            title: `Rolling back transfer to ${rollbackJournal.targetLabel}...`,
+            cancellable: true
+        }, async (_progress, token) => {
+            try {
+                const targetOrg = this.orgManager.getOrgs().find(org => org.username === rollbackJournal.targetUsername);
+                if (!targetOrg) {
+                    throw new Error(`Target org ${rollbackJournal.targetUsername} not found`);
+                }
+                const accessToken = await this.orgManager.getAccessToken(targetOrg.username);
+                if (!accessToken) {
+                    throw new Error(`Failed to get access token for ${targetOrg.username}`);
+                }
+                targetOrg.accessToken = accessToken;
+                await this.dataTransferService.initializeConnections(targetOrg, { ...targetOrg });
+
+                this._panel.webview.postMessage({ type: 'rollbackStarted', data: `Rolling back transfer to ${rollbackJournal.targetLabel}...` });
+                const result = await this.dataTransferService.rollbackTransfer(rollbackJournal, token);
+                this._panel.webview.postMessage({ type: 'rollbackComplete', data: result });
+
+                const outcome = `${result.deleted} records deleted, ${result.restored} restored`;
+                if (result.success) {
+                    vscode.window.showInformationMessage(`Rollback complete: ${outcome}.`);
+                } else {
+                    vscode.window.showWarningMessage(
+                        `Rollback ${result.cancelled ? 'stopped' : 'finished with errors'}: ${outcome}, ${result.failed} failed. Roll back the same transfer again to retry what is left.`
+                    );
+                }
+            } catch (error) {
+                console.error('Rollback error:', error);
+                vscode.window.showErrorMessage(`Rollback failed: ${error}`);
+                this._panel.webview.postMessage({ type: 'error', data: `Rollback failed: ${error}` });
+            } finally {
+                this._rollbackRunning = false;
+            }
+        });
+    }
+
+    private async _retryFailedRecords() {
+        const run = this._lastRun;
+        const failedCount = run ? Object.values(getFailedRecordIds(run.result.ledger)).reduce((sum, ids) => sum + ids.length, 0) : 0;
+        if (!run || failedCount === 0) {
+            vscode.window.showInformationMessage('The last transfer has no failed records to retry.');
+            return;
+        }
+        if (run.result.cancelled) {
+            vscode.window.showWarningMessage('The last transfer was stopped before it finished. Resume it before retrying its failed records.');
+            return;
+        }
+
+        await this._startTransfer(run.options, undefined, run.result);
+    }
+
+    /**
+     * Run a transfer from webview options. `retryOf` resubmits only the failed records of that result.
+     */
+    private async _startTransfer(options: any, resumeFrom?: TransferCheckpoint, retryOf?: TransferResult) {
+        // Both would re-point the connections of the shared service while it writes
+        if (this._transferCancellation || this._rollbackRunning) {
+            vscode.window.showWarningMessage('Wait for the running transfer or rollback to finish before starting another one.');
+            return;
+        }
+
+        // One source for both the notification's Cancel button and the webview's Stop button.
+        // Set before the progress notification opens so a second start is refused straight away.
+        const cancellation = new vscode.CancellationTokenSource();
+        this._transferCancellation = cancellation;
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: retryOf ? "Retrying failed records..." : options.dryRun ? "Planning Salesforce data transfer (dry run)..." : "Transferring Salesforce data...",
+            cancellable: true
+        }, async (progress, token) => {
+            const tokenListener = token.onCancellationRequested(() => this._stopTransfer());
+
             try {
                 progress.report({ increment: 0, message: "Initializing transfer..." });
                 
                 this._panel.webview.postMessage({
                     type: 'transferStarted',
-                    data: 'Data transfer started...'
+                    data: resumeFrom
+                        ? `Resuming transfer started ${new Date(resumeFrom.startedAt).toLocaleString()}...`
+                        : retryOf ? 'Retrying the failed records of the last transfer...'
+                        : options.csvSource && !options.dryRun ? `Loading ${options.csvSource.label} into ${options.csvSource.objectType}...`
+                        : options.dryRun ? 'Dry run started - nothing will be written to the target org...' : 'Data transfer started...'
                 });
 
                 // Get orgs and access tokens
-                progress.report({ increment: 10, message: "Validating organizations..." });
+                progress.report({ increment: 2, message: "Validating organizations..." });
                 
                 const orgs = this.orgManager.getOrgs();
-                const sourceOrg = orgs.find(org => org.username === options.sourceOrg);
+                // A CSV load reads no source org; the file stands in for it in labels and the rollback journal
+                const sourceOrg: SalesforceOrg | undefined = options.csvSource
+                    ? { username: `csv:${options.csvSource.filePath}`, alias: options.csvSource.label, orgId: `csv:${options.csvSource.filePath}`, instanceUrl: '' }
+                    : orgs.find(org => org.username === options.sourceOrg);
                 const targetOrg = orgs.find(org => org.username === options.targetOrg);
 
                 if (!sourceOrg || !targetOrg) {
@@ -219,10 +776,10 @@ export class DataTransferPanel {
                 }
 
                 // Get access tokens
-                progress.report({ increment: 25, message: "Getting access tokens..." });
+                progress.report({ increment: 2, message: "Getting access tokens..." });
                 
-                const sourceToken = await this.orgManager.getAccessToken(sourceOrg.username);
                 const targetToken = await this.orgManager.getAccessToken(targetOrg.username);
+                const sourceToken = options.csvSource ? targetToken : await this.orgManager.getAccessToken(sourceOrg.username);
 
                 if (!sourceToken || !targetToken) {
                     throw new Error('Failed to get access tokens for one or both orgs');
@@ -231,14 +788,27 @@ export class DataTransferPanel {
                 sourceOrg.accessToken = sourceToken;
                 targetOrg.accessToken = targetToken;
 
-                progress.report({ increment: 40, message: "Preparing data transfer..." });
+                progress.report({ increment: 2, message: "Preparing data transfer..." });
 
+                const config = vscode.workspace.getConfiguration('sf-data-transfer');
                 const transferOptions: DataTransferOptions = {
                     sourceOrg,
                     targetOrg,
                     includeRelationships: options.includeRelationships || false,
                     batchSize: options.batchSize || 200,
-                    transferMode: options.transferMode || 'insert'
+                    transferMode: options.transferMode || 'insert',
+                    apiMode: options.apiMode || 'auto',
+                    bulkThreshold: config.get<number>('bulkThreshold', 10000),
+                    retryPolicy: {
+                        maxAttempts: config.get<number>('retry.maxAttempts', 3),
+                        baseDelayMs: config.get<number>('retry.baseDelayMs', 1000),
+                        maxDelayMs: 30000
+                    },
+                    dryRun: !!options.dryRun,
+                    excludeIncompatibleFields: !!options.excludeIncompatibleFields,
+                    dryRunSampleSize: config.get<number>('dryRun.sampleSize', 5),
+                    maxParentDepth: config.get<number>('maxParentDepth', 3),
+                    maxFileSizeMb: config.get<number>('files.maxSizeMb', 100)
                 };
 
                 // Support custom query mode
@@ -246,6 +816,15 @@ export class DataTransferPanel {
                     transferOptions.customQuery = options.customQuery.trim();
                 }
 
+                // A resumed retry still writes only the records being retried
+                if (options.retry && typeof options.retry === 'object') {
+                    transferOptions.retry = options.retry;
+                }
+
+                if (options.csvSource && typeof options.csvSource === 'object') {
+                    transferOptions.csvSource = options.csvSource;
+                }
+
                 // Support object list mode
                 if (Array.isArray(options.objectTypes)) {
                     transferOptions.objectTypes = options.objectTypes;
@@ -261,25 +840,124 @@ export class DataTransferPanel {
                     transferOptions.externalIdMapping = options.externalIdMapping;
                 }
 
+                // Pass field/object mappings if provided
+                if (options.mappings && typeof options.mappings === 'object') {
+                    transferOptions.mappings = options.mappings;
+                }
+
+                // Pass cascade relationships if any were ticked
+                if (Array.isArray(options.cascade?.relationships) && options.cascade.relationships.length > 0) {
+                    transferOptions.cascade = {
+                        relationships: options.cascade.relationships,
+                        maxDepth: this._getCascadeDepth()
+                    };
+                }
+
+                // Pass record types mapped by hand if provided
+                if (options.recordTypeMapping && typeof options.recordTypeMapping === 'object') {
+                    transferOptions.recordTypeMapping = options.recordTypeMapping;
+                }
+
+                // Pass transformation rules if provided
+                if (options.transformRules && typeof options.transformRules === 'object') {
+                    transferOptions.transformRules = options.transformRules;
+                }
+
+                if (options.masking?.enabled) {
+                    transferOptions.masking = {
+                        enabled: true,
+                        overrides: options.masking.overrides || {},
+                        salt: config.get<string>('masking.salt', '')
+                    };
+                }
+
+                if (options.ownerMapping?.enabled) {
+                    transferOptions.ownerMapping = {
+                        enabled: true,
+                        matchBy: this._getOwnerMatchOrder(),
+                        fallbackOwner: options.ownerMapping.fallbackOwner || undefined
+                    };
+                }
+
                 // Initialize connections and start transfer
-                progress.report({ increment: 60, message: "Connecting to Salesforce orgs..." });
+                progress.report({ increment: 2, message: "Connecting to Salesforce orgs..." });
                 
-                await this.dataTransferService.initializeConnections(sourceOrg, targetOrg);
+                await this.dataTransferService.initializeConnections(options.csvSource ? { ...targetOrg } : sourceOrg, targetOrg);
                 
-                progress.report({ increment: 80, message: "Transferring data..." });
+                progress.report({ increment: 2, message: "Transferring data..." });
+
+                // The remaining 90% of the notification tracks real per-object/per-batch progress
+                const tracker = new TransferProgressTracker(10, 90);
+                const progressListener = this.dataTransferService.onDidReportProgress(event => {
+                    this._panel.webview.postMessage({
+                        type: 'transferProgress',
+                        data: event
+                    });
+                    const update = tracker.update(event);
+                    if (update) {
+                        progress.report(update);
+                    }
+                });
                 
-                const result = await this.dataTransferService.transferData(transferOptions);
+                let result;
+                try {
+                    result = retryOf
+                        ? await this.dataTransferService.retryFailedRecords(transferOptions, retryOf, cancellation.token)
+                        : await this.dataTransferService.transferData(transferOptions, cancellation.token, resumeFrom);
+                } finally {
+                    progressListener.dispose();
+                    this._sendCheckpoint(options.sourceOrg, options.targetOrg);
+                }
+
+                progress.report({ ...tracker.complete(), message: result.cancelled ? "Transfer stopped" : "Transfer complete!" });
 
-                progress.report({ increment: 100, message: "Transfer complete!" });
+                if (!result.dryRunPlan) {
+                    this._lastRun = {
+                        sourceLabel: sourceOrg.alias || sourceOrg.username,
+                        targetLabel: targetOrg.alias || targetOrg.username,
+                        finishedAt: new Date().toISOString(),
+                        options,
+                        result
+                    };
+                }
 
+                // The ledger stays here; the webview asks for the failed rows when it needs them
                 this._panel.webview.postMessage({
                     type: 'transferComplete',
-                    data: result
+                    data: {
+                        ...result,
+                        ledger: undefined,
+                        ledgerCounts: {
+                            total: result.ledger.length,
+                            failed: result.ledger.filter(entry => entry.status === 'failed').length,
+                            retryable: result.cancelled ? 0 : Object.values(getFailedRecordIds(result.ledger)).reduce((sum, ids) => sum + ids.length, 0)
+                        }
+                    }
                 });
 
-                if (result.success) {
+                if (result.dryRunPlan) {
+                    await this._openDryRunPlan(result.dryRunPlan, config.get<string>('dryRun.reportFormat', 'markdown'));
+                    const wouldWrite = result.dryRunPlan.objects.reduce((sum, objectPlan) => sum + objectPlan.recordCount, 0);
+                    vscode.window.showInformationMessage(
+                        `Dry run complete: ${wouldWrite} records would be written${result.errors.length ? `, ${result.errors.length} errors` : ''}. Nothing was written to the target org.`
+                    );
+                } else if (result.cancelled) {
+                    const written = Object.entries(result.writtenByObject)
+                        .map(([objectType, count]) => `${objectType}: ${count}`)
+                        .join(', ');
+                    vscode.window.showWarningMessage(
+                        `Data transfer stopped. ${result.recordsTransferred} records transferred before stopping${written ? ` (written to target - ${written})` : ''}. It can be resumed from the Data Transfer panel.`
+                    );
+                } else if (result.success) {
+                    const upsertSummary = transferOptions.transferMode === 'upsert'
+                        ? ` (${result.recordsCreated} created, ${result.recordsUpdated} updated)`
+                        : '';
+                    const maskedCount = Object.values(result.maskedFields || {}).reduce((sum, fields) => sum + Object.keys(fields).length, 0);
+                    const maskingSummary = maskedCount > 0 ? ` ${maskedCount} fields were masked.` : '';
+                    const lookupSummary = result.lookupsDeferred > 0 ? ` ${result.lookupsRestored} of ${result.lookupsDeferred} self/circular lookups restored.` : '';
+                    const ownerSummary = result.unmatchedOwners?.length ? ` ${result.unmatchedOwners.length} owners had no match in the target org.` : '';
                     vscode.window.showInformationMessage(
-                        `Data transfer completed! ${result.recordsTransferred} records transferred.`
+                        `Data transfer completed! ${result.recordsTransferred} records transferred${upsertSummary}.${maskingSummary}${lookupSummary}${ownerSummary}`
                     );
                 } else {
                     vscode.window.showWarningMessage(
@@ -290,23 +968,70 @@ export class DataTransferPanel {
             } catch (error) {
                 console.error('Transfer error:', error);
                 vscode.window.showErrorMessage(`Data transfer failed: ${error}`);
+                this._sendCheckpoint(options.sourceOrg, options.targetOrg);
                 this._panel.webview.postMessage({
                     type: 'transferError',
                     data: `Transfer failed: ${error}`
                 });
+            } finally {
+                tokenListener.dispose();
+                cancellation.dispose();
+                this._transferCancellation = undefined;
             }
         });
     }
 
-    private _update() {
-        const webview = this._panel.webview;
-        this._panel.webview.html = this._getHtmlForWebview(webview);
-    }
+    private async _exportLedger(format: 'csv' | 'json') {
+        if (!this._lastRun || this._lastRun.result.ledger.length === 0) {
+            vscode.window.showInformationMessage('No record results to export yet. Run a transfer first.');
+            return;
+        }
 
-    private _getHtmlForWebview(webview: vscode.Webview) {
-        return `<!DOCTYPE html>
-<html lang="en">
-<head>
+        const run = this._lastRun;
+        const fileName = `transfer-results-${run.finishedAt.replace(/[:.]/g, '-')}.${format}`;
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const uri = await vscode.window.showSaveDialog({
+            defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, fileName) : undefined,
+            filters: format === 'csv' ? { 'CSV': ['csv'] } : { 'JSON': ['json'] }
+        });
+        if (!uri) {
+            return;
+        }
+
+        const content = format === 'csv'
+            ? formatLedgerCsv(run.result.ledger)
+            : JSON.stringify({ sourceOrg: run.sourceLabel, targetOrg: run.targetLabel, finishedAt: run.finishedAt, records: run.result.ledger }, null, 2);
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+
+        const action = await vscode.window.showInformationMessage(`Exported ${run.result.ledger.length} record results to ${uri.fsPath}`, 'Open');
+        if (action === 'Open') {
+            await vscode.window.showTextDocument(uri, { preview: false });
+        }
+    }
+
+    private _sendFailedRecords() {
+        this._panel.webview.postMessage({
+            type: 'failedRecords',
+            data: (this._lastRun?.result.ledger || []).filter(entry => entry.status === 'failed')
+        });
+    }
+
+    private async _openDryRunPlan(plan: DryRunPlan, format: string) {
+        const document = await vscode.workspace.openTextDocument(format === 'json'
+            ? { language: 'json', content: JSON.stringify(plan, null, 2) }
+            : { language: 'markdown', content: formatDryRunPlanMarkdown(plan) });
+        await vscode.window.showTextDocument(document, { preview: false, viewColumn: vscode.ViewColumn.Beside });
+    }
+
+    private _update() {
+        const webview = this._panel.webview;
+        this._panel.webview.html = this._getHtmlForWebview(webview);
+    }
+
+    private _getHtmlForWebview(webview: vscode.Webview) {
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
     <title>Salesforce Data Transfer</title>
@@ -768,6 +1493,72 @@ export class DataTransferPanel {
             background: var(--vscode-scrollbarSlider-activeBackground);
             border-radius: 4px;
         }
+        .transfer-plan {
+            margin-bottom: 20px;
+            padding: 12px 16px;
+            background-color: var(--vscode-input-background);
+            border: 1px solid var(--vscode-input-border);
+            border-radius: 6px;
+            font-size: 13px;
+        }
+        .transfer-plan:empty {
+            display: none;
+        }
+        .transfer-plan .plan-order {
+            font-family: var(--vscode-editor-font-family);
+        }
+        .transfer-plan .plan-warning {
+            margin-top: 6px;
+            color: var(--vscode-editorWarning-foreground);
+        }
+        .transfer-progress {
+            margin-bottom: 16px;
+        }
+        .transform-rule {
+            display: flex;
+            gap: 6px;
+            align-items: center;
+            margin-bottom: 6px;
+        }
+        .transform-rule input,
+        .transform-rule select {
+            flex: 1;
+            min-width: 0;
+        }
+        .transform-rule .remove-rule {
+            flex: 0 0 auto;
+        }
+        .mapping-object {
+            margin-bottom: 16px;
+        }
+        .mapping-object select {
+            width: 100%;
+        }
+        .mapping-note {
+            color: var(--vscode-descriptionForeground);
+        }
+        .schema-issue-error {
+            color: var(--vscode-errorForeground);
+        }
+        .schema-issue-warning {
+            color: var(--vscode-editorWarning-foreground);
+        }
+        .resume-banner {
+            margin-top: 12px;
+            padding: 12px 16px;
+            background-color: var(--vscode-inputValidation-infoBackground);
+            border: 1px solid var(--vscode-inputValidation-infoBorder);
+            border-radius: 6px;
+            font-size: 13px;
+        }
+        .resume-banner button {
+            margin-top: 8px;
+        }
+        .progress-summary {
+            font-size: 13px;
+            margin-bottom: 8px;
+            color: var(--vscode-descriptionForeground);
+        }
         .error {
             color: var(--vscode-errorForeground);
         }
@@ -784,17 +1575,92 @@ export class DataTransferPanel {
             <h2>1. Select Organizations</h2>
             <div class="form-group">
                 <label for="sourceOrg">Source Org:</label>
-                <select id="sourceOrg">
+                <select id="sourceOrg" onchange="checkCheckpoint()">
                     <option value="">Select source org...</option>
                 </select>
             </div>
             <div class="form-group">
                 <label for="targetOrg">Target Org:</label>
-                <select id="targetOrg">
+                <select id="targetOrg" onchange="checkCheckpoint()">
                     <option value="">Select target org...</option>
                 </select>
             </div>
             <button onclick="loadObjectTypes()">📋 Load Objects</button>
+            <button onclick="showCsvSection()">📥 Load from CSV File</button>
+            <div id="resumeBanner" class="resume-banner" style="display: none;">
+                <div id="resumeSummary"></div>
+                <button onclick="resumeTransfer()">▶ Resume Previous Transfer</button>
+                <button onclick="discardCheckpoint()">Discard</button>
+            </div>
+        </div>
+
+        <div class="section" id="csvSection" style="display: none;">
+            <div class="section-header">
+                <h2>Load from CSV File</h2>
+                <button onclick="document.getElementById('csvSection').style.display = 'none'" class="back-button">✖ Close</button>
+            </div>
+            <p style="font-size: 12px; color: var(--vscode-descriptionForeground);">
+                Load the rows of a CSV file into one object of the target org. Columns are matched to fields by API name and label;
+                a lookup column can hold the parent's external ID instead of a record Id. Batch size, API mode and dry run come from the transfer options.
+            </p>
+            <div class="form-group">
+                <button type="button" class="select-all-btn" onclick="vscode.postMessage({ type: 'pickCsvFile' })">📂 Choose CSV File</button>
+                <span id="csvFileSummary" style="font-size: 12px; margin-left: 8px;"></span>
+            </div>
+            <div class="form-group">
+                <label for="csvObject">Target Object:</label>
+                <input type="text" id="csvObject" placeholder="API name, e.g. Contact">
+                <button type="button" class="select-all-btn" onclick="requestCsvMappings()" style="margin-top: 8px;">🔀 Map Columns</button>
+            </div>
+            <div id="csvMappingEditor"></div>
+            <div id="csvOptions" style="display: none;">
+                <div class="form-group">
+                    <label>Type Conversion:</label>
+                    <div class="transfer-mode-selector" style="margin-top: 8px;">
+                        <label>
+                            Dates
+                            <select id="csvDateFormat">
+                                <option value="iso">YYYY-MM-DD</option>
+                                <option value="mdy">MM/DD/YYYY</option>
+                                <option value="dmy">DD/MM/YYYY</option>
+                            </select>
+                        </label>
+                        <label>
+                            Decimal separator
+                            <select id="csvDecimalSeparator">
+                                <option value=".">Point (1,234.56)</option>
+                                <option value=",">Comma (1.234,56)</option>
+                            </select>
+                        </label>
+                    </div>
+                    <div class="checkbox-group">
+                        <input type="checkbox" id="csvTrimWhitespace" checked>
+                        <label for="csvTrimWhitespace">Trim whitespace around values</label>
+                    </div>
+                    <div class="checkbox-group">
+                        <input type="checkbox" id="csvBlankAsNull">
+                        <label for="csvBlankAsNull">Blank cells clear the field (otherwise the field is left out)</label>
+                    </div>
+                    <p style="font-size: 12px; color: var(--vscode-descriptionForeground); margin-top: 4px;">
+                        Checkboxes accept true/false, yes/no and 1/0. Date/times without a time zone are read as local time. Rows with values that can't be converted are reported and skipped.
+                    </p>
+                </div>
+                <div class="form-group">
+                    <label>Operation:</label>
+                    <div class="transfer-mode-selector" style="margin-top: 8px;">
+                        <label>
+                            <input type="radio" name="csvOperation" value="insert" checked onchange="toggleCsvOperation()">
+                            Insert
+                        </label>
+                        <label>
+                            <input type="radio" name="csvOperation" value="upsert" onchange="toggleCsvOperation()">
+                            Upsert on external ID
+                        </label>
+                    </div>
+                    <select id="csvExternalId" style="display: none;"></select>
+                </div>
+                <button onclick="startCsvTransfer()" id="csvLoadBtn">📥 Load into Target Org</button>
+            </div>
         </div>
 
         <div class="section">
@@ -826,7 +1692,7 @@ export class DataTransferPanel {
             </div>
             <div class="form-group">
                 <label for="soqlQuery">SOQL Query:</label>
-                <textarea id="soqlQuery" rows="6" placeholder="SELECT Id, Name FROM Account WHERE CreatedDate = TODAY LIMIT 100" onkeyup="updateTransferButton()"></textarea>
+                <textarea id="soqlQuery" rows="6" placeholder="SELECT Id, Name FROM Account WHERE CreatedDate = TODAY LIMIT 100" onkeyup="updateTransferButton(); toggleRelationshipOptions()"></textarea>
             </div>
             <div class="query-actions">
                 <button onclick="validateQuery()" id="validateBtn">✅ Validate Query</button>
@@ -873,16 +1739,183 @@ export class DataTransferPanel {
                     </p>
                 </div>
             </div>
+            <div class="form-group">
+                <label>API Mode:</label>
+                <div class="transfer-mode-selector" style="margin-top: 8px;">
+                    <label>
+                        <input type="radio" name="apiMode" value="auto" checked>
+                        Auto
+                    </label>
+                    <label>
+                        <input type="radio" name="apiMode" value="rest">
+                        REST
+                    </label>
+                    <label>
+                        <input type="radio" name="apiMode" value="bulk">
+                        Bulk API 2.0
+                    </label>
+                </div>
+                <p style="font-size: 12px; color: var(--vscode-descriptionForeground); margin-top: 8px;">
+                    Auto uses Bulk API 2.0 for objects with more records than the <code>sf-data-transfer.bulkThreshold</code> setting, and REST otherwise.
+                </p>
+            </div>
+
+            <div id="transferPlan" class="transfer-plan"></div>
+            <div class="form-group">
+                <label>Schema Compatibility:</label>
+                <p style="font-size: 12px; color: var(--vscode-descriptionForeground); margin: 4px 0 8px;">
+                    Compare the selected objects in both orgs for missing fields, type or length mismatches, missing picklist values and fields the target user can't create.
+                </p>
+                <button type="button" class="select-all-btn" onclick="compareSchemas()">🧬 Compare Schemas</button>
+                <button type="button" class="select-all-btn" onclick="requestMappings()">🔀 Edit Field Mappings</button>
+                <button type="button" class="select-all-btn" onclick="showTransformRules()">🛠️ Transformation Rules</button>
+                <div class="checkbox-group" style="margin-top: 8px;">
+                    <input type="checkbox" id="excludeIncompatibleFields">
+                    <label for="excludeIncompatibleFields">Auto-exclude incompatible fields</label>
+                </div>
+            </div>
+            <div class="form-group" id="cascadeGroup">
+                <label>Cascade to Child Records:</label>
+                <p style="font-size: 12px; color: var(--vscode-descriptionForeground); margin: 4px 0 8px;">
+                    Tick child relationships to copy the children of the transferred records along with them (e.g. Accounts with their Contacts and Opportunities).
+                    Only children of records this transfer writes are copied, up to <code>sf-data-transfer.cascade.maxDepth</code> levels down.
+                </p>
+                <button type="button" class="select-all-btn" onclick="loadCascadeRoots()">🌳 Choose Child Relationships</button>
+                <div id="cascadeTree" style="margin-top: 8px;"></div>
+            </div>
+            <div class="form-group">
+                <label>Record ID Mappings:</label>
+                <p style="font-size: 12px; color: var(--vscode-descriptionForeground); margin: 4px 0 8px;">
+                    Source-to-target record IDs are remembered per org pair, so parents copied by earlier batches or runs are reused instead of inserted again.
+                </p>
+                <button type="button" class="select-all-btn" onclick="vscode.postMessage({ type: 'showIdMappings' })">🔎 Inspect Mappings</button>
+                <button type="button" class="select-all-btn" onclick="vscode.postMessage({ type: 'clearIdMappings' })">🧹 Clear Mappings</button>
+            </div>
+            <div class="form-group">
+                <label>Roll Back:</label>
+                <p style="font-size: 12px; color: var(--vscode-descriptionForeground); margin: 4px 0 8px;">
+                    Every transfer records the target records it created and the previous values of records it updated.
+                    Rolling back deletes the created records (children first) and restores the updated ones.
+                </p>
+                <button type="button" class="select-all-btn" onclick="vscode.postMessage({ type: 'rollbackTransfer' })">↩️ Roll Back a Transfer</button>
+            </div>
             <div class="form-group">
                 <label for="batchSize">Batch Size:</label>
                 <input type="number" id="batchSize" value="200" min="1" max="2000" placeholder="Enter batch size (1-2000)">
             </div>
+            <div class="form-group">
+                <div class="checkbox-group">
+                    <input type="checkbox" id="maskPii" onchange="document.getElementById('maskingOverrides').style.display = this.checked ? 'block' : 'none'">
+                    <label for="maskPii">Mask Personal Data (email and phone fields are masked automatically)</label>
+                </div>
+                <textarea id="maskingOverrides" rows="4" style="display: none;" placeholder="Per-field overrides, one per line: Object.Field=strategy&#10;Contact.FirstName=name&#10;Contact.Description=redact&#10;Lead.Phone=none"></textarea>
+                <p style="font-size: 12px; color: var(--vscode-descriptionForeground); margin-top: 4px;">
+                    Strategies: email (unique, undeliverable), phone (digits scrambled), name (fake name), redact, hash (deterministic), none (don't mask).
+                    Masked values are deterministic per <code>sf-data-transfer.masking.salt</code>.
+                </p>
+            </div>
+            <div class="form-group">
+                <div class="checkbox-group">
+                    <input type="checkbox" id="mapOwners" onchange="document.getElementById('ownerMappingOptions').style.display = this.checked ? 'block' : 'none'">
+                    <label for="mapOwners">Map Record Owners (match users by username, email or federation ID, queues by developer name)</label>
+                </div>
+                <div id="ownerMappingOptions" style="display: none;">
+                    <input type="text" id="fallbackOwner" placeholder="Fallback owner username in the target org (optional)">
+                    <button type="button" class="select-all-btn" onclick="checkOwners()" style="margin-top: 8px;">👤 Check Owners</button>
+                    <p style="font-size: 12px; color: var(--vscode-descriptionForeground); margin-top: 4px;">
+                        Records whose owner has no match get the fallback owner, or are owned by the user running the transfer.
+                    </p>
+                </div>
+            </div>
+            <div class="checkbox-group">
+                <input type="checkbox" id="dryRun">
+                <label for="dryRun">Dry Run (run queries and lookups, write nothing, open the plan)</label>
+            </div>
             <button onclick="startTransfer()" id="transferBtn" disabled>🚀 Start Transfer</button>
+            <button onclick="stopTransfer()" id="stopBtn" style="display: none;">⏹️ Stop Transfer</button>
+        </div>
+
+        <div class="section" id="transformSection" style="display: none;">
+            <div class="section-header">
+                <h2>Transformation Rules</h2>
+                <button onclick="document.getElementById('transformSection').style.display = 'none'" class="back-button">✖ Close</button>
+            </div>
+            <p style="font-size: 12px; color: var(--vscode-descriptionForeground);">
+                Rules change values on the way to the target and run in order, using source field names.
+                Copy accepts a field name or a template such as {FirstName} {LastName}; lookup tables are written as Old=New; Other=Value.
+            </p>
+            <div id="transformRules"></div>
+            <button type="button" class="select-all-btn" onclick="addTransformRule()">➕ Add Rule</button>
+            <button type="button" class="select-all-btn" onclick="previewTransformRules()">👁️ Preview on Sample Records</button>
+            <div id="transformPreview"></div>
+        </div>
+
+        <div class="section" id="mappingSection" style="display: none;">
+            <div class="section-header">
+                <h2>Field &amp; Object Mappings</h2>
+                <button onclick="document.getElementById('mappingSection').style.display = 'none'" class="back-button">✖ Close</button>
+            </div>
+            <p style="font-size: 12px; color: var(--vscode-descriptionForeground);">
+                Choose the target object and the target field for every source field. Fields that don't exist in the target are matched by API name and label similarity; review the suggestions before transferring.
+            </p>
+            <div id="mappingEditor"></div>
+        </div>
+
+        <div class="section" id="ownerPreviewSection" style="display: none;">
+            <div class="section-header">
+                <h2>Record Owners</h2>
+                <button onclick="document.getElementById('ownerPreviewSection').style.display = 'none'" class="back-button">✖ Close</button>
+            </div>
+            <div id="ownerPreviewSummary" class="progress-summary"></div>
+            <div id="ownerPreview"></div>
+        </div>
+
+        <div class="section" id="failedRecordsSection" style="display: none;">
+            <div class="section-header">
+                <h2>Failed Records</h2>
+                <button onclick="document.getElementById('failedRecordsSection').style.display = 'none'" class="back-button">✖ Close</button>
+            </div>
+            <div id="failedRecordsSummary" class="progress-summary"></div>
+            <div id="failedRecords"></div>
+        </div>
+
+        <div class="section" id="rollbackSection" style="display: none;">
+            <div class="section-header">
+                <h2>Rollback Results</h2>
+                <button onclick="document.getElementById('rollbackSection').style.display = 'none'" class="back-button">✖ Close</button>
+            </div>
+            <div id="rollbackSummary" class="progress-summary"></div>
+            <div id="rollbackResults"></div>
+        </div>
+
+        <div class="section" id="schemaComparisonSection" style="display: none;">
+            <div class="section-header">
+                <h2>Schema Comparison</h2>
+                <button onclick="document.getElementById('schemaComparisonSection').style.display = 'none'" class="back-button">✖ Close</button>
+            </div>
+            <div id="schemaComparisonSummary" class="progress-summary"></div>
+            <div id="schemaComparison"></div>
         </div>
 
         <div class="section">
             <h2>Transfer Log</h2>
+            <div id="transferProgress" class="transfer-progress" style="display: none;">
+                <div id="transferProgressSummary" class="progress-summary"></div>
+                <table class="preview-table">
+                    <thead>
+                        <tr><th>Object</th><th>Status</th><th>Batches</th><th>Records</th><th>Succeeded</th><th>Failed</th><th>ETA</th></tr>
+                    </thead>
+                    <tbody id="transferProgressRows"></tbody>
+                </table>
+            </div>
             <div id="log" class="log">Ready to transfer data...</div>
+            <div id="ledgerActions" style="display: none; margin-top: 8px;">
+                <span id="ledgerCounts" style="font-size: 12px; margin-right: 8px;"></span>
+                <button type="button" class="select-all-btn" onclick="vscode.postMessage({ type: 'showFailedRecords' })">❌ Show Failed Records</button>
+                <button type="button" class="select-all-btn" id="retryFailedBtn" onclick="retryFailed()">🔁 Retry Failed</button>
+                <button type="button" class="select-all-btn" onclick="vscode.postMessage({ type: 'exportLedger', format: 'csv' })">📄 Export CSV</button>
+                <button type="button" class="select-all-btn" onclick="vscode.postMessage({ type: 'exportLedger', format: 'json' })">🧾 Export JSON</button>
+            </div>
         </div>
     </div>
 
@@ -930,20 +1963,120 @@ export class DataTransferPanel {
                 case 'queryPreview':
                     displayQueryPreview(message.data);
                     break;
+                case 'transferPlan':
+                    displayTransferPlan(message.data);
+                    break;
+                case 'checkpoint':
+                    displayCheckpoint(message.data);
+                    break;
+                case 'schemaComparison':
+                    displaySchemaComparison(message.data);
+                    break;
+                case 'childRelationships':
+                    displayChildRelationships(message.data);
+                    break;
+                case 'ownerPreview':
+                    displayOwnerPreview(message.data);
+                    break;
+                case 'mappingSuggestions':
+                    displayMappingSuggestions(message.data);
+                    break;
+                case 'transformPreview':
+                    displayTransformPreview(message.data);
+                    break;
+                case 'csvFile':
+                    displayCsvFile(message.data);
+                    break;
+                case 'csvMappings':
+                    displayCsvMappings(message.data);
+                    break;
                 case 'transferStarted':
                     addToLog(message.data);
+                    showLedgerActions(null);
                     document.getElementById('transferBtn').disabled = true;
+                    document.getElementById('csvLoadBtn').disabled = true;
+                    setStopButton(true);
+                    break;
+                case 'transferProgress':
+                    handleTransferProgress(message.data);
+                    break;
+                case 'transferStopping':
+                    addToLog(message.data);
+                    document.getElementById('stopBtn').disabled = true;
                     break;
                 case 'transferComplete':
-                    addToLog(\`Transfer completed! Records transferred: \${message.data.recordsTransferred}\`, 'success');
+                    setStopButton(false);
+                    if (message.data.cancelled) {
+                        const written = Object.entries(message.data.writtenByObject || {})
+                            .map(([objectType, count]) => objectType + ': ' + count)
+                            .join(', ');
+                        addToLog('Transfer stopped by user. Records already written to target: ' + (written || 'none'), 'error');
+                    }
+                    if (message.data.plan && message.data.plan.order.length > 1) {
+                        addToLog('Objects transferred in order: ' + message.data.plan.order.join(' → '));
+                    }
+                    if (message.data.maskedFields && Object.keys(message.data.maskedFields).length > 0) {
+                        const masked = Object.entries(message.data.maskedFields)
+                            .map(([objectType, fields]) => objectType + ' (' + Object.entries(fields).map(([field, strategy]) => field + ': ' + strategy).join(', ') + ')')
+                            .join('; ');
+                        addToLog('Masked fields: ' + masked);
+                    }
+                    if (message.data.excludedFields && Object.keys(message.data.excludedFields).length > 0) {
+                        const excluded = Object.entries(message.data.excludedFields)
+                            .map(([objectType, fields]) => objectType + ' (' + fields.join(', ') + ')')
+                            .join('; ');
+                        addToLog('Incompatible fields left out: ' + excluded);
+                    }
+                    if (message.data.dryRunPlan) {
+                        const planned = message.data.dryRunPlan.objects
+                            .map(objectPlan => objectPlan.objectType + ': ' + objectPlan.recordCount)
+                            .join(', ');
+                        addToLog('Dry run complete, nothing was written. Records that would be written: ' + (planned || 'none'), 'success');
+                        if (message.data.errors.length > 0) {
+                            addToLog(\`Errors: \${message.data.errors.join(', ')}\`, 'error');
+                        }
+                        document.getElementById('transferBtn').disabled = false;
+                        document.getElementById('csvLoadBtn').disabled = false;
+                        break;
+                    }
+                    addToLog(\`Transfer completed! Records transferred: \${message.data.recordsTransferred} (created: \${message.data.recordsCreated}, updated: \${message.data.recordsUpdated})\`, 'success');
+                    if (message.data.recordsSucceededAfterRetry > 0) {
+                        addToLog(\`\${message.data.recordsSucceededAfterRetry} records succeeded only after retrying transient errors\`);
+                    }
+                    if (message.data.missingRecordTypes && message.data.missingRecordTypes.length > 0) {
+                        addToLog('Record types missing in the target org (records got the default record type): ' +
+                            message.data.missingRecordTypes.map(type => type.objectType + '.' + type.developerName).join(', '), 'error');
+                    }
+                    if (message.data.unmatchedOwners && message.data.unmatchedOwners.length > 0) {
+                        addToLog('Owners without a match in the target org: ' + message.data.unmatchedOwners.map(owner => owner.name).join(', '), 'error');
+                    }
+                    if (message.data.lookupsDeferred > 0) {
+                        addToLog(\`Self/circular lookups restored in a second pass: \${message.data.lookupsRestored} of \${message.data.lookupsDeferred}\`);
+                    }
                     if (message.data.errors.length > 0) {
                         addToLog(\`Errors: \${message.data.errors.join(', ')}\`, 'error');
                     }
+                    if (message.data.journalId) {
+                        addToLog('The records this run created and updated were recorded; use Roll Back a Transfer to undo it.');
+                    }
+                    showLedgerActions(message.data.ledgerCounts);
                     document.getElementById('transferBtn').disabled = false;
+                    document.getElementById('csvLoadBtn').disabled = false;
+                    break;
+                case 'failedRecords':
+                    displayFailedRecords(message.data);
+                    break;
+                case 'rollbackStarted':
+                    addToLog(message.data);
+                    break;
+                case 'rollbackComplete':
+                    displayRollbackResults(message.data);
                     break;
                 case 'transferError':
                     addToLog(message.data, 'error');
                     document.getElementById('transferBtn').disabled = false;
+                    document.getElementById('csvLoadBtn').disabled = false;
+                    setStopButton(false);
                     break;
                 case 'error':
                     addToLog(message.data, 'error');
@@ -991,6 +2124,53 @@ export class DataTransferPanel {
             }
         }
 
+        function displayTransferPlan(plan) {
+            const planDiv = document.getElementById('transferPlan');
+            planDiv.innerHTML = '';
+
+            if (!plan || !plan.order || plan.order.length < 2) {
+                return;
+            }
+
+            const orderDiv = document.createElement('div');
+            orderDiv.className = 'plan-order';
+            orderDiv.textContent = 'Transfer order: ' + plan.order.join(' → ');
+            planDiv.appendChild(orderDiv);
+
+            (plan.cycles || []).forEach(cycle => {
+                const warning = document.createElement('div');
+                warning.className = 'plan-warning';
+                warning.textContent = '⚠️ Circular references between ' + cycle.join(', ') + ' - these objects will be transferred in selection order';
+                planDiv.appendChild(warning);
+            });
+        }
+
+        let planTimeout = null;
+
+        function requestTransferPlan() {
+            if (planTimeout) {
+                clearTimeout(planTimeout);
+            }
+
+            // Debounce so ticking several checkboxes only triggers one describe round-trip
+            planTimeout = setTimeout(() => {
+                const sourceOrg = document.getElementById('sourceOrg').value;
+                const selectedObjects = Array.from(document.querySelectorAll('#objectTypes input[type="checkbox"]:checked'))
+                    .map(cb => cb.value);
+
+                if (!sourceOrg || selectedObjects.length < 2) {
+                    displayTransferPlan(null);
+                    return;
+                }
+
+                vscode.postMessage({
+                    type: 'planTransfer',
+                    objectTypes: selectedObjects,
+                    sourceOrgUsername: sourceOrg
+                });
+            }, 600);
+        }
+
         function populateOrgSelects() {
             console.log('populateOrgSelects called with orgs:', orgs);
             const sourceSelect = document.getElementById('sourceOrg');
@@ -1139,6 +2319,7 @@ export class DataTransferPanel {
             }
             // Update external ID mappings when objects are selected/deselected
             toggleRelationshipOptions();
+            requestTransferPlan();
         }
 
         function toggleObjectByName(objectName) {
@@ -1174,178 +2355,1081 @@ export class DataTransferPanel {
                 } else {
                     searchStats.textContent = \`\${totalCount} objects total\`;
                 }
-            }
+            }
+        }
+
+        function toggleTransferMode() {
+            const mode = document.querySelector('input[name="transferMode"]:checked').value;
+            const soqlSection = document.getElementById('soqlQuerySection');
+            const objectTypesSection = document.querySelector('#objectTypes').parentElement;
+            const transferTitle = document.getElementById('transferOptionsTitle');
+
+            if (mode === 'custom') {
+                soqlSection.style.display = 'block';
+                objectTypesSection.style.display = 'none';
+                transferTitle.textContent = '5. Transfer Options';
+            } else {
+                soqlSection.style.display = 'none';
+                objectTypesSection.style.display = 'block';
+                transferTitle.textContent = '4. Transfer Options';
+            }
+
+            toggleRelationshipOptions();
+            updateTransferButton();
+        }
+
+        function goBackToTransferMode() {
+            // Switch radio back to a non-custom mode (default to 'all')
+            const allRadio = document.querySelector('input[name="transferMode"][value="all"]');
+            if (allRadio) {
+                allRadio.checked = true;
+            }
+            // Trigger the UI toggle
+            toggleTransferMode();
+            // Ensure query section is hidden
+            const soqlSection = document.getElementById('soqlQuerySection');
+            if (soqlSection) soqlSection.style.display = 'none';
+            // Show object selection back
+            const objectTypesSection = document.querySelector('#objectTypes').parentElement;
+            if (objectTypesSection) objectTypesSection.style.display = 'block';
+            // Reset title numbering
+            const transferTitle = document.getElementById('transferOptionsTitle');
+            if (transferTitle) transferTitle.textContent = '4. Transfer Options';
+            // Update button state
+            updateTransferButton();
+        }
+
+        function updateRecordLimit(objectName, value) {
+            const optionsDiv = document.getElementById(\`options-\${objectName.replace(/[^a-zA-Z0-9]/g, '_')}\`);
+            const customInput = optionsDiv.querySelector('.custom-limit');
+            
+            if (value === 'custom') {
+                customInput.style.display = 'inline-block';
+                customInput.focus();
+            } else {
+                customInput.style.display = 'none';
+                customInput.value = '';
+            }
+        }
+
+        function updateCustomLimit(objectName, value) {
+            // Store custom limit for this object
+            if (!window.recordLimits) {
+                window.recordLimits = {};
+            }
+            window.recordLimits[objectName] = parseInt(value) || 0;
+        }
+
+        let validationTimeout = null;
+        
+        function autoDismissValidation(delay = 5000) {
+            // Clear any existing timeout
+            if (validationTimeout) {
+                clearTimeout(validationTimeout);
+            }
+            
+            // Set new timeout to clear the validation message
+            validationTimeout = setTimeout(() => {
+                const validationDiv = document.getElementById('queryValidation');
+                if (validationDiv) {
+                    validationDiv.className = 'validation-result';
+                    validationDiv.textContent = '';
+                    validationDiv.style.display = 'none';
+                }
+            }, delay);
+        }
+        
+        function validateQuery() {
+            const query = document.getElementById('soqlQuery').value.trim();
+            const validationDiv = document.getElementById('queryValidation');
+            const sourceOrg = document.getElementById('sourceOrg').value;
+            
+            if (!query) {
+                validationDiv.style.display = 'inline-block';
+                validationDiv.className = 'validation-result validation-error';
+                validationDiv.textContent = 'Please enter a SOQL query';
+                autoDismissValidation();
+                return;
+            }
+
+            if (!sourceOrg) {
+                validationDiv.style.display = 'inline-block';
+                validationDiv.className = 'validation-result validation-error';
+                validationDiv.textContent = 'Please select a source org first';
+                autoDismissValidation();
+                return;
+            }
+
+            // Show validating message
+            validationDiv.style.display = 'inline-block';
+            validationDiv.className = 'validation-result';
+            validationDiv.style.backgroundColor = 'rgba(100, 150, 200, 0.1)';
+            validationDiv.style.borderColor = 'rgba(100, 150, 200, 0.3)';
+            validationDiv.style.color = 'var(--vscode-foreground)';
+            validationDiv.textContent = '⏳ Validating query against Salesforce...';
+
+            // Send validation request to extension
+            vscode.postMessage({
+                type: 'validateQuery',
+                query: query,
+                sourceOrgUsername: sourceOrg
+            });
+        }
+
+        function previewQuery() {
+            const query = document.getElementById('soqlQuery').value.trim();
+            if (!query) {
+                addToLog('Please enter a SOQL query first', 'error');
+                return;
+            }
+
+            const sourceOrg = document.getElementById('sourceOrg').value;
+            if (!sourceOrg) {
+                addToLog('Please select a source org first', 'error');
+                return;
+            }
+
+            // Send preview request to extension
+            vscode.postMessage({
+                type: 'previewQuery',
+                query: query,
+                sourceOrgUsername: sourceOrg
+            });
+        }
+
+        function loadObjectTypes() {
+            const sourceOrg = document.getElementById('sourceOrg').value;
+            if (!sourceOrg) {
+                addToLog('Please select a source org first', 'error');
+                return;
+            }
+            
+            addToLog('Loading object types...');
+            vscode.postMessage({
+                type: 'getObjectTypes',
+                sourceOrgUsername: sourceOrg
+            });
+        }
+
+        function toggleRelationshipOptions() {
+            const transferMode = document.querySelector('input[name="dataTransferMode"]:checked').value;
+            const externalIdConfig = document.getElementById('externalIdConfig');
+            
+            // Upsert matches the transferred records themselves on an external ID, so it is
+            // required whether or not relationships are included
+            if (transferMode === 'upsert') {
+                externalIdConfig.style.display = 'block';
+                updateExternalIdMappings();
+            } else {
+                externalIdConfig.style.display = 'none';
+            }
+        }
+
+        function compareSchemas() {
+            const pair = selectedOrgPair();
+            const objectTypes = getSelectedObjects();
+            if (!pair.sourceOrgUsername || !pair.targetOrgUsername) {
+                addToLog('Please select source and target orgs', 'error');
+                return;
+            }
+            if (objectTypes.length === 0) {
+                addToLog('Please select at least one object to compare', 'error');
+                return;
+            }
+            addToLog('Comparing schemas for ' + objectTypes.join(', ') + '...');
+            vscode.postMessage({
+                type: 'compareSchemas',
+                ...pair,
+                objectTypes,
+                transferMode: document.querySelector('input[name="dataTransferMode"]:checked').value,
+                mappings: collectMappings(),
+                recordTypeMapping: collectRecordTypeMappings()
+            });
+        }
+
+        // Placeholders for the two parameter inputs of each rule type
+        const TRANSFORM_RULE_TYPES = {
+            setConstant: { label: 'Set constant', params: ['Value (empty = blank)'] },
+            copyField: { label: 'Copy from field', params: ['Field or {Template}'] },
+            regexReplace: { label: 'Replace (regex)', params: ['Pattern', 'Replacement'] },
+            lookup: { label: 'Lookup table', params: ['Old=New; Other=Value', 'Default (optional)'] },
+            uppercase: { label: 'Uppercase', params: [] },
+            lowercase: { label: 'Lowercase', params: [] },
+            trim: { label: 'Trim', params: [] },
+            dateShift: { label: 'Shift date (days)', params: ['Days, e.g. 30 or -7'] }
+        };
+
+        function showTransformRules() {
+            const section = document.getElementById('transformSection');
+            if (document.querySelectorAll('#transformRules .transform-rule').length === 0) {
+                addTransformRule();
+            }
+            section.style.display = 'block';
+            section.scrollIntoView({ behavior: 'smooth' });
+        }
+
+        function addTransformRule() {
+            const row = document.createElement('div');
+            row.className = 'transform-rule';
+
+            const objectSelect = document.createElement('select');
+            objectSelect.className = 'rule-object';
+            getSelectedObjects().forEach(objectType => {
+                const option = document.createElement('option');
+                option.value = objectType;
+                option.textContent = objectType;
+                objectSelect.appendChild(option);
+            });
+
+            const fieldInput = document.createElement('input');
+            fieldInput.type = 'text';
+            fieldInput.className = 'rule-field';
+            fieldInput.placeholder = 'Field';
+
+            const typeSelect = document.createElement('select');
+            typeSelect.className = 'rule-type';
+            Object.entries(TRANSFORM_RULE_TYPES).forEach(([type, definition]) => {
+                const option = document.createElement('option');
+                option.value = type;
+                option.textContent = definition.label;
+                typeSelect.appendChild(option);
+            });
+
+            const params = [0, 1].map(() => {
+                const input = document.createElement('input');
+                input.type = 'text';
+                input.className = 'rule-param';
+                return input;
+            });
+            const updateParams = () => {
+                const definition = TRANSFORM_RULE_TYPES[typeSelect.value];
+                params.forEach((input, index) => {
+                    input.style.visibility = index < definition.params.length ? 'visible' : 'hidden';
+                    input.placeholder = definition.params[index] || '';
+                });
+            };
+            typeSelect.addEventListener('change', updateParams);
+            updateParams();
+
+            const removeButton = document.createElement('button');
+            removeButton.type = 'button';
+            removeButton.className = 'remove-rule';
+            removeButton.textContent = '✖';
+            removeButton.addEventListener('click', () => row.remove());
+
+            [objectSelect, fieldInput, typeSelect, ...params, removeButton].forEach(element => row.appendChild(element));
+            document.getElementById('transformRules').appendChild(row);
+        }
+
+        function loadCascadeRoots() {
+            const sourceOrgUsername = document.getElementById('sourceOrg').value;
+            const selectedObjects = Array.from(document.querySelectorAll('#objectTypes input[type="checkbox"]:checked')).map(cb => cb.value);
+            if (!sourceOrgUsername) {
+                addToLog('Please select a source org', 'error');
+                return;
+            }
+            if (selectedObjects.length === 0) {
+                addToLog('Please select the objects to cascade from', 'error');
+                return;
+            }
+
+            const tree = document.getElementById('cascadeTree');
+            tree.innerHTML = '';
+            selectedObjects.forEach(objectType => {
+                const block = document.createElement('div');
+                block.className = 'cascade-children';
+                block.dataset.parentObject = objectType;
+                block.dataset.depth = '1';
+                block.textContent = 'Loading child relationships of ' + objectType + '...';
+                tree.appendChild(block);
+                vscode.postMessage({ type: 'getChildRelationships', parentObject: objectType, sourceOrgUsername, depth: 1 });
+            });
+        }
+
+        function displayChildRelationships(data) {
+            const block = Array.from(document.querySelectorAll('#cascadeTree .cascade-children'))
+                .find(candidate => candidate.dataset.parentObject === data.parentObject && candidate.dataset.depth === String(data.depth) && !candidate.dataset.loaded);
+            if (!block) { return; }
+
+            block.dataset.loaded = 'true';
+            block.innerHTML = '';
+            const heading = document.createElement('div');
+            heading.style.fontWeight = 'bold';
+            heading.textContent = data.parentObject + (data.relationships.length === 0 ? ' has no child relationships that can be copied' : ' children:');
+            block.appendChild(heading);
+
+            data.relationships.forEach(relationship => {
+                const item = document.createElement('div');
+                item.className = 'cascade-item checkbox-group';
+                item.style.marginLeft = '16px';
+                item.style.display = 'block';
+
+                const checkbox = document.createElement('input');
+                checkbox.type = 'checkbox';
+                checkbox.relationship = relationship;
+                const label = document.createElement('label');
+                label.textContent = ' ' + relationship.childObject + ' (' + relationship.relationshipName + ' via ' + relationship.field + ')';
+                item.appendChild(checkbox);
+                item.appendChild(label);
+
+                checkbox.onchange = () => {
+                    let children = item.querySelector(':scope > .cascade-children');
+                    if (!checkbox.checked) {
+                        if (children) { children.style.display = 'none'; }
+                        return;
+                    }
+                    if (children) {
+                        children.style.display = 'block';
+                    } else if (data.depth < data.maxDepth) {
+                        children = document.createElement('div');
+                        children.className = 'cascade-children';
+                        children.dataset.parentObject = relationship.childObject;
+                        children.dataset.depth = String(data.depth + 1);
+                        children.textContent = 'Loading child relationships of ' + relationship.childObject + '...';
+                        item.appendChild(children);
+                        vscode.postMessage({
+                            type: 'getChildRelationships',
+                            parentObject: relationship.childObject,
+                            sourceOrgUsername: document.getElementById('sourceOrg').value,
+                            depth: data.depth + 1
+                        });
+                    }
+                };
+                block.appendChild(item);
+            });
+        }
+
+        // Ticked relationships whose parents are ticked too
+        function collectCascade(container) {
+            const relationships = [];
+            (container || document.getElementById('cascadeTree')).querySelectorAll(':scope > .cascade-children > .cascade-item').forEach(item => {
+                const checkbox = item.querySelector(':scope > input');
+                if (!checkbox.checked) { return; }
+                relationships.push(checkbox.relationship);
+                relationships.push(...collectCascade(item));
+            });
+            return relationships;
+        }
+
+        function collectOwnerMapping() {
+            return {
+                enabled: document.getElementById('mapOwners').checked,
+                fallbackOwner: document.getElementById('fallbackOwner').value.trim()
+            };
+        }
+
+        function checkOwners() {
+            const pair = selectedOrgPair();
+            const objectTypes = getSelectedObjects();
+            if (!pair.sourceOrgUsername || !pair.targetOrgUsername) {
+                addToLog('Please select source and target orgs', 'error');
+                return;
+            }
+            if (objectTypes.length === 0) {
+                addToLog('Please select at least one object to check', 'error');
+                return;
+            }
+            addToLog('Matching record owners for ' + objectTypes.join(', ') + '...');
+            vscode.postMessage({
+                type: 'previewOwners',
+                ...pair,
+                objectTypes,
+                fallbackOwner: collectOwnerMapping().fallbackOwner
+            });
+        }
+
+        function displayOwnerPreview(preview) {
+            const section = document.getElementById('ownerPreviewSection');
+            const container = document.getElementById('ownerPreview');
+            container.innerHTML = '';
+
+            if (preview.unmatched.length === 0) {
+                const ok = document.createElement('p');
+                ok.className = 'success';
+                ok.textContent = '✓ Every owner has a match in the target org';
+                container.appendChild(ok);
+            } else {
+                const table = document.createElement('table');
+                table.className = 'preview-table';
+                table.innerHTML = '<thead><tr><th>Type</th><th>Username / Queue</th><th>Name</th><th>Source Id</th></tr></thead>';
+                const body = document.createElement('tbody');
+                preview.unmatched.forEach(owner => {
+                    const row = document.createElement('tr');
+                    [owner.kind, owner.name, owner.label || '', owner.sourceId].forEach(value => {
+                        const cell = document.createElement('td');
+                        cell.textContent = value;
+                        row.appendChild(cell);
+                    });
+                    body.appendChild(row);
+                });
+                table.appendChild(body);
+                container.appendChild(table);
+            }
+
+            const fallback = preview.fallbackOwnerId
+                ? 'unmatched records get the fallback owner'
+                : 'unmatched records will be owned by the running user';
+            document.getElementById('ownerPreviewSummary').textContent =
+                preview.referencedOwners + ' owner(s) referenced · ' + preview.matched + ' matched · ' + preview.unmatched.length + ' unmatched' +
+                (preview.unmatched.length > 0 ? ' · ' + fallback : '');
+            section.style.display = 'block';
+            section.scrollIntoView({ behavior: 'smooth' });
+            addToLog('Owner check complete: ' + preview.unmatched.length + ' unmatched owner(s)', preview.unmatched.length > 0 ? 'error' : 'success');
+        }
+
+        function showLedgerActions(counts) {
+            const actions = document.getElementById('ledgerActions');
+            if (!counts || counts.total === 0) {
+                actions.style.display = 'none';
+                return;
+            }
+            document.getElementById('ledgerCounts').textContent = counts.total + ' record results, ' + counts.failed + ' failed';
+            document.getElementById('retryFailedBtn').style.display = counts.retryable > 0 ? 'inline-block' : 'none';
+            actions.style.display = 'block';
+        }
+
+        function retryFailed() {
+            document.getElementById('failedRecordsSection').style.display = 'none';
+            vscode.postMessage({ type: 'retryFailed' });
+        }
+
+        function displayFailedRecords(entries) {
+            const section = document.getElementById('failedRecordsSection');
+            const container = document.getElementById('failedRecords');
+            container.innerHTML = '';
+
+            if (entries.length === 0) {
+                const ok = document.createElement('p');
+                ok.className = 'success';
+                ok.textContent = '✓ No records failed';
+                container.appendChild(ok);
+            } else {
+                const table = document.createElement('table');
+                table.className = 'preview-table';
+                table.innerHTML = '<thead><tr><th>Object</th><th>Source Id</th><th>Target Id</th><th>Operation</th><th>Error Code</th><th>Message</th><th>Fields</th></tr></thead>';
+                const body = document.createElement('tbody');
+                entries.forEach(entry => {
+                    const row = document.createElement('tr');
+                    [entry.objectType, entry.sourceId, entry.targetId, entry.operation, entry.errorCode, entry.message, (entry.fields || []).join(', ')].forEach(value => {
+                        const cell = document.createElement('td');
+                        cell.textContent = value || '';
+                        row.appendChild(cell);
+                    });
+                    body.appendChild(row);
+                });
+                table.appendChild(body);
+                container.appendChild(table);
+            }
+
+            const byObject = {};
+            entries.forEach(entry => { byObject[entry.objectType] = (byObject[entry.objectType] || 0) + 1; });
+            document.getElementById('failedRecordsSummary').textContent = entries.length + ' failed record(s)' +
+                (entries.length > 0 ? ' · ' + Object.entries(byObject).map(([objectType, count]) => objectType + ': ' + count).join(', ') : '');
+            section.style.display = 'block';
+            section.scrollIntoView({ behavior: 'smooth' });
+        }
+
+        function displayRollbackResults(result) {
+            const section = document.getElementById('rollbackSection');
+            const container = document.getElementById('rollbackResults');
+            container.innerHTML = '';
+
+            if (result.records.length > 0) {
+                const table = document.createElement('table');
+                table.className = 'preview-table';
+                table.innerHTML = '<thead><tr><th>Object</th><th>Record Id</th><th>Action</th><th>Result</th></tr></thead>';
+                const body = document.createElement('tbody');
+                // Failures first, they are the rows that need attention
+                [...result.records].sort((a, b) => Number(a.success) - Number(b.success)).forEach(record => {
+                    const row = document.createElement('tr');
+                    const action = record.action === 'delete' ? 'Delete' : 'Restore';
+                    [record.objectType, record.id, action, record.success ? '✓' : '✗ ' + record.error].forEach(value => {
+                        const cell = document.createElement('td');
+                        cell.textContent = value;
+                        row.appendChild(cell);
+                    });
+                    if (!record.success) {
+                        row.className = 'error';
+                    }
+                    body.appendChild(row);
+                });
+                table.appendChild(body);
+                container.appendChild(table);
+            }
+
+            document.getElementById('rollbackSummary').textContent =
+                result.deleted + ' deleted · ' + result.restored + ' restored · ' + result.failed + ' failed' + (result.cancelled ? ' · stopped before finishing' : '');
+            section.style.display = 'block';
+            section.scrollIntoView({ behavior: 'smooth' });
+            addToLog('Rollback ' + (result.cancelled ? 'stopped' : 'complete') + ': ' + result.deleted + ' records deleted, ' + result.restored + ' restored, ' + result.failed + ' failed',
+                result.success ? 'success' : 'error');
+        }
+
+        function collectMasking() {
+            const overrides = {};
+            document.getElementById('maskingOverrides').value.split('\\n').forEach(line => {
+                const match = /^\\s*([A-Za-z0-9_]+)\\.([A-Za-z0-9_]+)\\s*=\\s*(email|phone|name|redact|hash|none)\\s*$/.exec(line);
+                if (match) {
+                    (overrides[match[1]] = overrides[match[1]] || {})[match[2]] = match[3];
+                } else if (line.trim()) {
+                    addToLog('Ignoring masking override "' + line.trim() + '" (expected Object.Field=strategy)', 'error');
+                }
+            });
+            return { enabled: document.getElementById('maskPii').checked, overrides };
+        }
+
+        function parseLookupTable(text) {
+            const table = {};
+            text.split(';').forEach(entry => {
+                const separator = entry.indexOf('=');
+                if (separator > 0) {
+                    table[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim();
+                }
+            });
+            return table;
+        }
+
+        /**
+         * Rules as entered in the panel, grouped by object in the order they were added
+         */
+        function collectTransformRules() {
+            const ruleSet = {};
+            document.querySelectorAll('#transformRules .transform-rule').forEach(row => {
+                const objectType = row.querySelector('.rule-object').value;
+                const field = row.querySelector('.rule-field').value.trim();
+                const type = row.querySelector('.rule-type').value;
+                const [first, second] = Array.from(row.querySelectorAll('.rule-param')).map(input => input.value);
+                if (!objectType || !field) { return; }
+
+                let rule;
+                switch (type) {
+                    case 'setConstant': rule = { type, field, value: first === '' ? null : first }; break;
+                    case 'copyField': rule = { type, field, from: first.trim() }; break;
+                    case 'regexReplace': rule = { type, field, pattern: first, replacement: second }; break;
+                    case 'lookup':
+                        rule = { type, field, table: parseLookupTable(first) };
+                        if (second !== '') { rule.default = second; }
+                        break;
+                    case 'dateShift': rule = { type, field, days: Number(first) }; break;
+                    default: rule = { type, field };
+                }
+                (ruleSet[objectType] = ruleSet[objectType] || []).push(rule);
+            });
+            return ruleSet;
+        }
+
+        function previewTransformRules() {
+            const sourceOrg = document.getElementById('sourceOrg').value;
+            const transformRules = collectTransformRules();
+            if (!sourceOrg) {
+                addToLog('Please select a source org', 'error');
+                return;
+            }
+            if (Object.keys(transformRules).length === 0) {
+                addToLog('Add at least one rule with an object and field to preview', 'error');
+                return;
+            }
+            vscode.postMessage({ type: 'previewTransforms', sourceOrgUsername: sourceOrg, transformRules });
+        }
+
+        function displayTransformPreview(previews) {
+            const container = document.getElementById('transformPreview');
+            container.innerHTML = '';
+            previews.forEach(preview => {
+                const heading = document.createElement('h4');
+                heading.textContent = preview.objectType + ' (' + preview.rows.length + ' sample records)';
+                container.appendChild(heading);
+                if (preview.rows.length === 0) { return; }
+
+                const fields = Array.from(new Set(preview.rows.flatMap(row => Object.keys(row.after))));
+                const table = document.createElement('table');
+                table.className = 'preview-table';
+                const headerRow = document.createElement('tr');
+                fields.forEach(field => {
+                    const th = document.createElement('th');
+                    th.textContent = field;
+                    headerRow.appendChild(th);
+                });
+                const head = document.createElement('thead');
+                head.appendChild(headerRow);
+                table.appendChild(head);
+
+                const body = document.createElement('tbody');
+                preview.rows.forEach(row => {
+                    const tr = document.createElement('tr');
+                    fields.forEach(field => {
+                        const td = document.createElement('td');
+                        const before = row.before[field];
+                        const after = row.after[field];
+                        // Show "before → after" only where a rule changed the value
+                        td.textContent = before === after ? String(after ?? '') : String(before ?? '∅') + ' → ' + String(after ?? '∅');
+                        if (before !== after) { td.className = 'success'; }
+                        tr.appendChild(td);
+                    });
+                    body.appendChild(tr);
+                });
+                table.appendChild(body);
+                container.appendChild(table);
+            });
+        }
+
+        const IGNORE_FIELD = '__ignore__';
+
+        function requestMappings(targetObjects) {
+            const pair = selectedOrgPair();
+            const objectTypes = targetObjects ? Object.keys(targetObjects) : getSelectedObjects();
+            if (!pair.sourceOrgUsername || !pair.targetOrgUsername) {
+                addToLog('Please select source and target orgs', 'error');
+                return;
+            }
+            if (objectTypes.length === 0) {
+                addToLog('Please select at least one object to map', 'error');
+                return;
+            }
+            vscode.postMessage({ type: 'suggestMappings', ...pair, objectTypes, targetObjects });
+        }
+
+        function displayMappingSuggestions(suggestions) {
+            const editor = document.getElementById('mappingEditor');
+            suggestions.forEach(suggestion => {
+                const blockId = 'mapping-' + suggestion.sourceObject.replace(/[^a-zA-Z0-9]/g, '_');
+                let block = document.getElementById(blockId);
+                if (!block) {
+                    block = document.createElement('div');
+                    block.id = blockId;
+                    block.className = 'mapping-object';
+                    editor.appendChild(block);
+                }
+                block.innerHTML = '';
+                block.dataset.sourceObject = suggestion.sourceObject;
+
+                const heading = document.createElement('div');
+                heading.className = 'form-group';
+                const label = document.createElement('label');
+                label.textContent = suggestion.sourceObject + ' → target object:';
+                const targetInput = document.createElement('input');
+                targetInput.type = 'text';
+                targetInput.className = 'mapping-target-object';
+                targetInput.value = suggestion.targetObject;
+                // Reload the target's fields when a different object is chosen
+                targetInput.addEventListener('change', () => {
+                    const value = targetInput.value.trim();
+                    if (value) {
+                        requestMappings({ [suggestion.sourceObject]: value });
+                    }
+                });
+                heading.appendChild(label);
+                heading.appendChild(targetInput);
+                block.appendChild(heading);
+
+                if (!suggestion.targetObjectExists) {
+                    const missing = document.createElement('p');
+                    missing.className = 'schema-issue-error';
+                    missing.textContent = 'Object ' + suggestion.targetObject + ' was not found in the target org. Enter the target object to map to.';
+                    block.appendChild(missing);
+                    return;
+                }
+
+                const table = document.createElement('table');
+                table.className = 'preview-table';
+                table.innerHTML = '<thead><tr><th>Source Field</th><th>Target Field</th><th>Note</th></tr></thead>';
+                const body = document.createElement('tbody');
+                suggestion.sourceFields.forEach(sourceField => {
+                    const row = document.createElement('tr');
+                    const sourceCell = document.createElement('td');
+                    sourceCell.textContent = sourceField.name + ' (' + sourceField.label + ')';
+                    row.appendChild(sourceCell);
+
+                    const targetCell = document.createElement('td');
+                    const select = document.createElement('select');
+                    select.className = 'mapping-target-field';
+                    select.dataset.sourceField = sourceField.name;
+                    const ignore = document.createElement('option');
+                    ignore.value = IGNORE_FIELD;
+                    ignore.textContent = '— ignore —';
+                    select.appendChild(ignore);
+                    suggestion.targetFields.forEach(targetField => {
+                        const option = document.createElement('option');
+                        option.value = targetField.name;
+                        option.textContent = targetField.name + ' (' + targetField.label + ')';
+                        select.appendChild(option);
+                    });
+                    const suggested = suggestion.fields[sourceField.name];
+                    select.value = suggested || IGNORE_FIELD;
+                    targetCell.appendChild(select);
+                    row.appendChild(targetCell);
+
+                    const noteCell = document.createElement('td');
+                    noteCell.className = 'mapping-note';
+                    noteCell.textContent = !suggested ? 'No similar field in target'
+                        : suggested !== sourceField.name ? 'Suggested by name/label similarity' : '';
+                    row.appendChild(noteCell);
+                    body.appendChild(row);
+                });
+                table.appendChild(body);
+                block.appendChild(table);
+            });
+
+            const section = document.getElementById('mappingSection');
+            section.style.display = 'block';
+            section.scrollIntoView({ behavior: 'smooth' });
+        }
+
+        /**
+         * Mappings as edited in the panel; only renamed/ignored fields and renamed objects are kept
+         */
+        function collectMappings() {
+            const mappings = {};
+            document.querySelectorAll('#mappingEditor .mapping-object').forEach(block => {
+                const sourceObject = block.dataset.sourceObject;
+                const mapping = { fields: {} };
+                const targetObject = block.querySelector('.mapping-target-object').value.trim();
+                if (targetObject && targetObject !== sourceObject) {
+                    mapping.targetObject = targetObject;
+                }
+                block.querySelectorAll('.mapping-target-field').forEach(select => {
+                    const sourceField = select.dataset.sourceField;
+                    if (select.value === IGNORE_FIELD) {
+                        mapping.fields[sourceField] = null;
+                    } else if (select.value !== sourceField) {
+                        mapping.fields[sourceField] = select.value;
+                    }
+                });
+                if (mapping.targetObject || Object.keys(mapping.fields).length > 0) {
+                    mappings[sourceObject] = mapping;
+                }
+            });
+            return mappings;
         }
 
-        function toggleTransferMode() {
-            const mode = document.querySelector('input[name="transferMode"]:checked').value;
-            const soqlSection = document.getElementById('soqlQuerySection');
-            const objectTypesSection = document.querySelector('#objectTypes').parentElement;
-            const transferTitle = document.getElementById('transferOptionsTitle');
+        let csvFile = null;
+        let csvTarget = null;
 
-            if (mode === 'custom') {
-                soqlSection.style.display = 'block';
-                objectTypesSection.style.display = 'none';
-                transferTitle.textContent = '5. Transfer Options';
-            } else {
-                soqlSection.style.display = 'none';
-                objectTypesSection.style.display = 'block';
-                transferTitle.textContent = '4. Transfer Options';
-            }
+        function showCsvSection() {
+            const section = document.getElementById('csvSection');
+            section.style.display = 'block';
+            section.scrollIntoView({ behavior: 'smooth' });
+        }
 
-            updateTransferButton();
+        function displayCsvFile(file) {
+            csvFile = file;
+            csvTarget = null;
+            document.getElementById('csvFileSummary').textContent = file.label + ' · ' + file.rowCount + ' rows, ' + file.columns.length + ' columns';
+            document.getElementById('csvMappingEditor').innerHTML = '';
+            document.getElementById('csvOptions').style.display = 'none';
+            showCsvSection();
         }
 
-        function goBackToTransferMode() {
-            // Switch radio back to a non-custom mode (default to 'all')
-            const allRadio = document.querySelector('input[name="transferMode"][value="all"]');
-            if (allRadio) {
-                allRadio.checked = true;
+        function requestCsvMappings() {
+            const targetOrgUsername = document.getElementById('targetOrg').value;
+            const objectType = document.getElementById('csvObject').value.trim();
+            if (!csvFile) {
+                addToLog('Please choose a CSV file', 'error');
+                return;
             }
-            // Trigger the UI toggle
-            toggleTransferMode();
-            // Ensure query section is hidden
-            const soqlSection = document.getElementById('soqlQuerySection');
-            if (soqlSection) soqlSection.style.display = 'none';
-            // Show object selection back
-            const objectTypesSection = document.querySelector('#objectTypes').parentElement;
-            if (objectTypesSection) objectTypesSection.style.display = 'block';
-            // Reset title numbering
-            const transferTitle = document.getElementById('transferOptionsTitle');
-            if (transferTitle) transferTitle.textContent = '4. Transfer Options';
-            // Update button state
-            updateTransferButton();
+            if (!targetOrgUsername) {
+                addToLog('Please select a target org', 'error');
+                return;
+            }
+            if (!objectType) {
+                addToLog('Please enter the target object to load the file into', 'error');
+                return;
+            }
+            vscode.postMessage({ type: 'suggestCsvMappings', targetOrgUsername, objectType, columns: csvFile.columns });
         }
 
-        function updateRecordLimit(objectName, value) {
-            const optionsDiv = document.getElementById(\`options-\${objectName.replace(/[^a-zA-Z0-9]/g, '_')}\`);
-            const customInput = optionsDiv.querySelector('.custom-limit');
-            
-            if (value === 'custom') {
-                customInput.style.display = 'inline-block';
-                customInput.focus();
-            } else {
-                customInput.style.display = 'none';
-                customInput.value = '';
+        function displayCsvMappings(suggestion) {
+            csvTarget = suggestion;
+            const editor = document.getElementById('csvMappingEditor');
+            editor.innerHTML = '';
+
+            const table = document.createElement('table');
+            table.className = 'preview-table';
+            table.innerHTML = '<thead><tr><th>Column</th><th>Sample Values</th><th>Target Field</th><th>Match Parent By</th></tr></thead>';
+            const body = document.createElement('tbody');
+            csvFile.columns.forEach(column => {
+                const row = document.createElement('tr');
+                const columnCell = document.createElement('td');
+                columnCell.textContent = column;
+                row.appendChild(columnCell);
+
+                const sampleCell = document.createElement('td');
+                sampleCell.className = 'mapping-note';
+                sampleCell.textContent = csvFile.sampleRows.map(sample => sample[column]).filter(Boolean).join(', ');
+                row.appendChild(sampleCell);
+
+                const fieldCell = document.createElement('td');
+                const select = document.createElement('select');
+                select.className = 'csv-target-field';
+                select.dataset.column = column;
+                const ignore = document.createElement('option');
+                ignore.value = IGNORE_FIELD;
+                ignore.textContent = '— ignore —';
+                select.appendChild(ignore);
+                suggestion.fields.forEach(field => {
+                    const option = document.createElement('option');
+                    option.value = field.name;
+                    option.textContent = field.name + ' (' + field.label + ')' + (field.required ? ' *' : '');
+                    select.appendChild(option);
+                });
+                fieldCell.appendChild(select);
+                row.appendChild(fieldCell);
+
+                // Lookups are matched on the parent's record Id or one of its external ID fields
+                const parentCell = document.createElement('td');
+                const parentSelect = document.createElement('select');
+                parentSelect.className = 'csv-parent-field';
+                parentCell.appendChild(parentSelect);
+                row.appendChild(parentCell);
+                const updateParentOptions = () => {
+                    const field = suggestion.fields.find(candidate => candidate.name === select.value);
+                    parentSelect.innerHTML = '';
+                    const byId = document.createElement('option');
+                    byId.value = '';
+                    byId.textContent = 'Record Id';
+                    parentSelect.appendChild(byId);
+                    (field && field.parentExternalIdFields || []).forEach(name => {
+                        const option = document.createElement('option');
+                        option.value = name;
+                        option.textContent = field.parentObject + '.' + name;
+                        parentSelect.appendChild(option);
+                    });
+                    parentSelect.style.display = field && field.parentObject ? 'block' : 'none';
+                };
+                select.addEventListener('change', updateParentOptions);
+
+                const suggested = suggestion.columns[column];
+                select.value = suggested ? suggested.field : IGNORE_FIELD;
+                updateParentOptions();
+                parentSelect.value = suggested && suggested.externalIdField || '';
+                body.appendChild(row);
+            });
+            table.appendChild(body);
+            editor.appendChild(table);
+
+            const mappedFields = Object.values(suggestion.columns).filter(Boolean).map(mapping => mapping.field);
+            const unmappedRequired = suggestion.fields.filter(field => field.required && !mappedFields.includes(field.name));
+            if (unmappedRequired.length > 0) {
+                const note = document.createElement('p');
+                note.className = 'schema-issue-warning';
+                note.textContent = 'Required fields without a suggested column: ' + unmappedRequired.map(field => field.name).join(', ');
+                editor.appendChild(note);
             }
-        }
 
-        function updateCustomLimit(objectName, value) {
-            // Store custom limit for this object
-            if (!window.recordLimits) {
-                window.recordLimits = {};
+            const externalIdSelect = document.getElementById('csvExternalId');
+            externalIdSelect.innerHTML = '';
+            const externalIdFields = suggestion.fields.filter(field => field.externalId);
+            if (externalIdFields.length === 0) {
+                const none = document.createElement('option');
+                none.value = '';
+                none.textContent = suggestion.objectType + ' has no external ID fields';
+                externalIdSelect.appendChild(none);
             }
-            window.recordLimits[objectName] = parseInt(value) || 0;
+            externalIdFields.forEach(field => {
+                const option = document.createElement('option');
+                option.value = field.name;
+                option.textContent = field.name + ' (' + field.label + ')';
+                externalIdSelect.appendChild(option);
+            });
+
+            document.getElementById('csvOptions').style.display = 'block';
+            showCsvSection();
         }
 
-        let validationTimeout = null;
-        
-        function autoDismissValidation(delay = 5000) {
-            // Clear any existing timeout
-            if (validationTimeout) {
-                clearTimeout(validationTimeout);
-            }
-            
-            // Set new timeout to clear the validation message
-            validationTimeout = setTimeout(() => {
-                const validationDiv = document.getElementById('queryValidation');
-                if (validationDiv) {
-                    validationDiv.className = 'validation-result';
-                    validationDiv.textContent = '';
-                    validationDiv.style.display = 'none';
-                }
-            }, delay);
+        function toggleCsvOperation() {
+            const upsert = document.querySelector('input[name="csvOperation"]:checked').value === 'upsert';
+            document.getElementById('csvExternalId').style.display = upsert ? 'block' : 'none';
         }
-        
-        function validateQuery() {
-            const query = document.getElementById('soqlQuery').value.trim();
-            const validationDiv = document.getElementById('queryValidation');
-            const sourceOrg = document.getElementById('sourceOrg').value;
-            
-            if (!query) {
-                validationDiv.style.display = 'inline-block';
-                validationDiv.className = 'validation-result validation-error';
-                validationDiv.textContent = 'Please enter a SOQL query';
-                autoDismissValidation();
+
+        function startCsvTransfer() {
+            const targetOrg = document.getElementById('targetOrg').value;
+            if (!csvFile || !csvTarget) {
+                addToLog('Please choose a CSV file and map its columns first', 'error');
+                return;
+            }
+            if (!targetOrg) {
+                addToLog('Please select a target org', 'error');
                 return;
             }
 
-            if (!sourceOrg) {
-                validationDiv.style.display = 'inline-block';
-                validationDiv.className = 'validation-result validation-error';
-                validationDiv.textContent = 'Please select a source org first';
-                autoDismissValidation();
+            const columns = {};
+            document.querySelectorAll('#csvMappingEditor .csv-target-field').forEach(select => {
+                if (select.value === IGNORE_FIELD) {
+                    return;
+                }
+                const parentField = select.closest('tr').querySelector('.csv-parent-field').value;
+                columns[select.dataset.column] = parentField ? { field: select.value, externalIdField: parentField } : { field: select.value };
+            });
+            if (Object.keys(columns).length === 0) {
+                addToLog('Please map at least one column to a field', 'error');
                 return;
             }
 
-            // Show validating message
-            validationDiv.style.display = 'inline-block';
-            validationDiv.className = 'validation-result';
-            validationDiv.style.backgroundColor = 'rgba(100, 150, 200, 0.1)';
-            validationDiv.style.borderColor = 'rgba(100, 150, 200, 0.3)';
-            validationDiv.style.color = 'var(--vscode-foreground)';
-            validationDiv.textContent = '⏳ Validating query against Salesforce...';
+            const transferMode = document.querySelector('input[name="csvOperation"]:checked').value;
+            const options = {
+                sourceOrg: document.getElementById('sourceOrg').value,
+                targetOrg,
+                batchSize: parseInt(document.getElementById('batchSize').value),
+                transferMode,
+                apiMode: document.querySelector('input[name="apiMode"]:checked').value,
+                dryRun: document.getElementById('dryRun').checked,
+                csvSource: {
+                    filePath: csvFile.filePath,
+                    label: csvFile.label,
+                    objectType: csvTarget.objectType,
+                    columns,
+                    conversion: {
+                        dateFormat: document.getElementById('csvDateFormat').value,
+                        decimalSeparator: document.getElementById('csvDecimalSeparator').value,
+                        trimWhitespace: document.getElementById('csvTrimWhitespace').checked,
+                        blankAsNull: document.getElementById('csvBlankAsNull').checked
+                    }
+                }
+            };
 
-            // Send validation request to extension
-            vscode.postMessage({
-                type: 'validateQuery',
-                query: query,
-                sourceOrgUsername: sourceOrg
+            if (transferMode === 'upsert') {
+                const externalIdField = document.getElementById('csvExternalId').value;
+                if (!externalIdField) {
+                    addToLog('Please choose the external ID field to match existing records on', 'error');
+                    return;
+                }
+                if (!Object.values(columns).some(mapping => mapping.field === externalIdField && !mapping.externalIdField)) {
+                    addToLog('Please map a column to ' + externalIdField + ' to upsert on it', 'error');
+                    return;
+                }
+                options.externalIdMapping = { [csvTarget.objectType]: externalIdField };
+            }
+
+            vscode.postMessage({ type: 'startTransfer', options });
+        }
+
+        function displaySchemaComparison(diffs) {
+            const section = document.getElementById('schemaComparisonSection');
+            const container = document.getElementById('schemaComparison');
+            container.innerHTML = '';
+
+            let errorCount = 0;
+            let warningCount = 0;
+            diffs.forEach(diff => {
+                const heading = document.createElement('h3');
+                heading.textContent = diff.objectType;
+                container.appendChild(heading);
+
+                if (diff.missingInTarget) {
+                    errorCount++;
+                    const missing = document.createElement('p');
+                    missing.className = 'schema-issue-error';
+                    missing.textContent = 'Object does not exist in the target org (or is not accessible to the target user).';
+                    container.appendChild(missing);
+                    return;
+                }
+
+                if (diff.missingRecordTypes.length > 0) {
+                    warningCount += diff.missingRecordTypes.length;
+                    container.appendChild(createRecordTypeMapping(diff));
+                }
+
+                if (diff.issues.length === 0) {
+                    const ok = document.createElement('p');
+                    ok.className = 'success';
+                    ok.textContent = '✓ All ' + diff.comparedFields + ' fields are compatible';
+                    container.appendChild(ok);
+                    return;
+                }
+
+                const table = document.createElement('table');
+                table.className = 'preview-table';
+                table.innerHTML = '<thead><tr><th>Field</th><th>Issue</th><th>Severity</th><th>Detail</th></tr></thead>';
+                const body = document.createElement('tbody');
+                diff.issues.forEach(issue => {
+                    if (issue.severity === 'error') { errorCount++; } else { warningCount++; }
+                    const row = document.createElement('tr');
+                    [issue.field, issue.kind, issue.severity, issue.detail].forEach((value, index) => {
+                        const cell = document.createElement('td');
+                        cell.textContent = value;
+                        if (index === 2) {
+                            cell.className = 'schema-issue-' + issue.severity;
+                        }
+                        row.appendChild(cell);
+                    });
+                    body.appendChild(row);
+                });
+                table.appendChild(body);
+                container.appendChild(table);
             });
+
+            document.getElementById('schemaComparisonSummary').textContent =
+                diffs.length + ' object(s) compared · ' + errorCount + ' incompatible · ' + warningCount + ' warning(s)' +
+                (errorCount > 0 ? ' · enable "Auto-exclude incompatible fields" to leave incompatible fields out of the transfer' : '');
+            section.style.display = 'block';
+            section.scrollIntoView({ behavior: 'smooth' });
+            addToLog('Schema comparison complete: ' + errorCount + ' incompatible, ' + warningCount + ' warning(s)', errorCount > 0 ? 'error' : 'success');
         }
 
-        function previewQuery() {
-            const query = document.getElementById('soqlQuery').value.trim();
-            if (!query) {
-                addToLog('Please enter a SOQL query first', 'error');
-                return;
-            }
+        // Record types chosen by hand for the missing ones, kept across comparisons
+        const recordTypeSelections = {};
 
-            const sourceOrg = document.getElementById('sourceOrg').value;
-            if (!sourceOrg) {
-                addToLog('Please select a source org first', 'error');
-                return;
-            }
+        function createRecordTypeMapping(diff) {
+            const wrapper = document.createElement('div');
+            const note = document.createElement('p');
+            note.className = 'schema-issue-warning';
+            note.textContent = 'Record types missing in the target. Map them to an existing record type, or their records get the default record type:';
+            wrapper.appendChild(note);
 
-            // Send preview request to extension
-            vscode.postMessage({
-                type: 'previewQuery',
-                query: query,
-                sourceOrgUsername: sourceOrg
+            diff.missingRecordTypes.forEach(recordType => {
+                const row = document.createElement('div');
+                row.className = 'form-group';
+                const label = document.createElement('label');
+                label.textContent = recordType.name + ' (' + recordType.developerName + ') → ';
+                const select = document.createElement('select');
+                select.className = 'record-type-mapping';
+                select.dataset.objectType = diff.objectType;
+                select.dataset.developerName = recordType.developerName;
+                select.add(new Option('Default record type', ''));
+                diff.targetRecordTypes.forEach(target => select.add(new Option(target.name + ' (' + target.developerName + ')', target.developerName)));
+                select.value = (recordTypeSelections[diff.objectType] || {})[recordType.developerName] || '';
+                select.onchange = () => {
+                    (recordTypeSelections[diff.objectType] = recordTypeSelections[diff.objectType] || {})[recordType.developerName] = select.value;
+                };
+                label.appendChild(select);
+                row.appendChild(label);
+                wrapper.appendChild(row);
             });
+            return wrapper;
         }
 
-        function loadObjectTypes() {
-            const sourceOrg = document.getElementById('sourceOrg').value;
-            if (!sourceOrg) {
-                addToLog('Please select a source org first', 'error');
-                return;
-            }
-            
-            addToLog('Loading object types...');
-            vscode.postMessage({
-                type: 'getObjectTypes',
-                sourceOrgUsername: sourceOrg
+        function collectRecordTypeMappings() {
+            const mappings = {};
+            Object.entries(recordTypeSelections).forEach(([objectType, selections]) => {
+                Object.entries(selections).forEach(([sourceName, targetName]) => {
+                    if (targetName) {
+                        (mappings[objectType] = mappings[objectType] || {})[sourceName] = targetName;
+                    }
+                });
             });
+            return mappings;
         }
 
-        function toggleRelationshipOptions() {
-            const includeRelationships = document.getElementById('includeRelationships').checked;
-            const transferMode = document.querySelector('input[name="dataTransferMode"]:checked').value;
-            const externalIdConfig = document.getElementById('externalIdConfig');
-            
-            if (includeRelationships && transferMode === 'upsert') {
-                externalIdConfig.style.display = 'block';
-                updateExternalIdMappings();
-            } else {
-                externalIdConfig.style.display = 'none';
+        function getSelectedObjects() {
+            const mode = document.querySelector('input[name="transferMode"]:checked').value;
+            if (mode === 'custom') {
+                const query = document.getElementById('soqlQuery').value;
+                const match = /\\bFROM\\s+([a-zA-Z0-9_]+)\\b/i.exec(query);
+                return match ? [match[1]] : [];
             }
+            return Array.from(document.querySelectorAll('#objectTypes input[type="checkbox"]:checked'))
+                .map(cb => cb.value);
         }
 
         function updateExternalIdMappings() {
             const mappingsDiv = document.getElementById('externalIdMappings');
-            const selectedObjects = Array.from(document.querySelectorAll('#objectTypes input[type="checkbox"]:checked'))
-                .map(cb => cb.value);
+            const selectedObjects = getSelectedObjects();
+
+            // Keep values already typed in when the list is rebuilt
+            const existingValues = {};
+            mappingsDiv.querySelectorAll('input[type="text"]').forEach(input => {
+                existingValues[input.id] = input.value;
+            });
             
             // Clear previous content
             mappingsDiv.innerHTML = '';
@@ -1383,6 +3467,7 @@ export class DataTransferPanel {
                 input.style.fontSize = '12px';
                 input.style.marginTop = '4px';
                 input.title = 'Enter the API name of the external ID field for ' + obj;
+                input.value = existingValues[input.id] || '';
                 
                 itemDiv.appendChild(label);
                 itemDiv.appendChild(input);
@@ -1427,6 +3512,9 @@ export class DataTransferPanel {
             const includeRelationships = document.getElementById('includeRelationships').checked;
             const batchSize = parseInt(document.getElementById('batchSize').value);
             const transferMode = document.querySelector('input[name="dataTransferMode"]:checked').value;
+            const apiMode = document.querySelector('input[name="apiMode"]:checked').value;
+            const dryRun = document.getElementById('dryRun').checked;
+            const excludeIncompatibleFields = document.getElementById('excludeIncompatibleFields').checked;
             
             if (!sourceOrg || !targetOrg) {
                 addToLog('Please select source and target orgs', 'error');
@@ -1439,13 +3527,21 @@ export class DataTransferPanel {
                 includeRelationships,
                 batchSize,
                 mode,
-                transferMode: transferMode
+                transferMode: transferMode,
+                apiMode,
+                dryRun,
+                excludeIncompatibleFields,
+                mappings: collectMappings(),
+                transformRules: collectTransformRules(),
+                masking: collectMasking(),
+                ownerMapping: collectOwnerMapping(),
+                recordTypeMapping: collectRecordTypeMappings(),
+                cascade: { relationships: mode === 'custom' ? [] : collectCascade() }
             };
             
             // Collect external ID mappings if needed
-            if (includeRelationships && transferMode === 'upsert') {
-                const selectedObjects = Array.from(document.querySelectorAll('#objectTypes input[type="checkbox"]:checked'))
-                    .map(cb => cb.value);
+            if (transferMode === 'upsert') {
+                const selectedObjects = getSelectedObjects();
                 const externalIdMapping = {};
                 let hasEmptyFields = false;
                 
@@ -1507,6 +3603,157 @@ export class DataTransferPanel {
             });
         }
 
+        let objectProgress = {};
+        let transferStartedAt = null;
+
+        function handleTransferProgress(event) {
+            if (event.type === 'transferStarted') {
+                objectProgress = {};
+                transferStartedAt = Date.now();
+                event.objectTypes.forEach(objectType => {
+                    objectProgress[objectType] = { status: 'Pending', batchesDone: 0, totalBatches: 0, processed: 0, total: 0, success: 0, failed: 0, startedAt: null };
+                });
+                document.getElementById('transferProgress').style.display = 'block';
+                renderTransferProgress();
+                return;
+            }
+
+            const entry = objectProgress[event.objectType] || (objectProgress[event.objectType] = { status: 'Pending', batchesDone: 0, totalBatches: 0, processed: 0, total: 0, success: 0, failed: 0, startedAt: null });
+
+            switch (event.type) {
+                case 'objectStarted':
+                    entry.status = 'Running';
+                    entry.total = event.totalRecords;
+                    entry.totalBatches = event.totalBatches;
+                    entry.startedAt = Date.now();
+                    break;
+                case 'batchCompleted':
+                    entry.batchesDone = event.batchNumber;
+                    entry.processed = event.recordsProcessed;
+                    entry.success += event.successCount;
+                    entry.failed += event.failureCount;
+                    break;
+                case 'parentsResolved':
+                    addToLog(event.objectType + ': resolved ' + event.resolved + '/' + event.requested + ' ' + event.parentObject + ' parent records',
+                        event.resolved < event.requested ? 'error' : 'info');
+                    break;
+                case 'objectCompleted':
+                    entry.status = entry.processed < entry.total ? 'Stopped' : 'Done';
+                    break;
+            }
+
+            renderTransferProgress();
+        }
+
+        function formatDuration(ms) {
+            const seconds = Math.round(ms / 1000);
+            if (seconds < 60) return seconds + 's';
+            const minutes = Math.floor(seconds / 60);
+            if (minutes < 60) return minutes + 'm ' + (seconds % 60) + 's';
+            return Math.floor(minutes / 60) + 'h ' + (minutes % 60) + 'm';
+        }
+
+        function estimateRemaining(entry) {
+            if (entry.status !== 'Running' || !entry.startedAt || entry.processed === 0) return '';
+            const elapsed = Date.now() - entry.startedAt;
+            return formatDuration(elapsed / entry.processed * (entry.total - entry.processed));
+        }
+
+        function renderTransferProgress() {
+            const rows = document.getElementById('transferProgressRows');
+            rows.innerHTML = '';
+
+            let processed = 0;
+            let knownTotal = 0;
+            let pending = 0;
+
+            Object.entries(objectProgress).forEach(([objectType, entry]) => {
+                processed += entry.processed;
+                knownTotal += entry.total;
+                if (entry.status === 'Pending') pending++;
+
+                const row = document.createElement('tr');
+                [
+                    objectType,
+                    entry.status,
+                    entry.totalBatches ? entry.batchesDone + '/' + entry.totalBatches : '-',
+                    entry.total ? entry.processed + '/' + entry.total : '-',
+                    String(entry.success),
+                    String(entry.failed),
+                    estimateRemaining(entry)
+                ].forEach(value => {
+                    const cell = document.createElement('td');
+                    cell.textContent = value;
+                    row.appendChild(cell);
+                });
+                rows.appendChild(row);
+            });
+
+            // Overall ETA uses the average record rate so far; objects not started yet have unknown size
+            const elapsed = transferStartedAt ? Date.now() - transferStartedAt : 0;
+            let summary = 'Elapsed: ' + formatDuration(elapsed);
+            if (processed > 0 && knownTotal > processed) {
+                summary += ' · ETA: ' + formatDuration(elapsed / processed * (knownTotal - processed));
+                if (pending > 0) summary += ' + ' + pending + ' object(s) not started';
+            }
+            document.getElementById('transferProgressSummary').textContent = summary;
+        }
+
+        function stopTransfer() {
+            vscode.postMessage({ type: 'stopTransfer' });
+        }
+
+        function selectedOrgPair() {
+            return {
+                sourceOrgUsername: document.getElementById('sourceOrg').value,
+                targetOrgUsername: document.getElementById('targetOrg').value
+            };
+        }
+
+        function checkCheckpoint() {
+            const pair = selectedOrgPair();
+            if (!pair.sourceOrgUsername || !pair.targetOrgUsername) {
+                displayCheckpoint(null);
+                return;
+            }
+            vscode.postMessage({ type: 'checkCheckpoint', ...pair });
+        }
+
+        function displayCheckpoint(checkpoint) {
+            const banner = document.getElementById('resumeBanner');
+            if (!checkpoint) {
+                banner.style.display = 'none';
+                return;
+            }
+
+            let summary = 'Unfinished transfer from ' + checkpoint.sourceLabel + ' to ' + checkpoint.targetLabel +
+                ' (last saved ' + new Date(checkpoint.updatedAt).toLocaleString() + '): ' +
+                checkpoint.recordsTransferred + ' records transferred';
+            if (checkpoint.completedObjects.length > 0) {
+                summary += ', completed: ' + checkpoint.completedObjects.join(', ');
+            }
+            if (checkpoint.currentObject) {
+                summary += ', stopped in ' + checkpoint.currentObject + ' after ' + checkpoint.processedCount + ' records';
+            }
+            document.getElementById('resumeSummary').textContent = summary;
+            banner.style.display = 'block';
+        }
+
+        function resumeTransfer() {
+            document.getElementById('resumeBanner').style.display = 'none';
+            vscode.postMessage({ type: 'resumeTransfer', ...selectedOrgPair() });
+        }
+
+        function discardCheckpoint() {
+            vscode.postMessage({ type: 'discardCheckpoint', ...selectedOrgPair() });
+        }
+
+        function setStopButton(running) {
+            const stopBtn = document.getElementById('stopBtn');
+            stopBtn.style.display = running ? 'inline-block' : 'none';
+            stopBtn.disabled = false;
+        }
+
         function addToLog(message, type = 'info') {
             const log = document.getElementById('log');
             const timestamp = new Date().toLocaleTimeString();
@@ -1588,6 +3835,7 @@ export class DataTransferPanel {
     }
 
     private async _validateQuery(query: string, sourceOrgUsername: string) {
+        let service: DataTransferService | undefined;
         try {
             // Basic SOQL validation first
             const queryUpper = query.toUpperCase();
@@ -1657,7 +3905,7 @@ export class DataTransferPanel {
 
             // Initialize connection
             const tempTargetOrg = { ...sourceOrg };
-            await this.dataTransferService.initializeConnections(sourceOrg, tempTargetOrg);
+            service = await this._createLookupService(sourceOrg, tempTargetOrg);
 
             // Execute the query with LIMIT 1 to validate syntax and permissions
             let validationQuery = query.trim();
@@ -1668,7 +3916,7 @@ export class DataTransferPanel {
             validationQuery += ' LIMIT 1';
 
             // Try to execute the query
-            await this.dataTransferService.executeQuery(validationQuery);
+            await service.executeQuery(validationQuery);
 
             // If we get here, the query is valid
             this._panel.webview.postMessage({
@@ -1728,6 +3976,8 @@ export class DataTransferPanel {
                 isValid: false,
                 error: errorMessage
             });
+        } finally {
+            service?.dispose();
         }
     }
 
@@ -1763,6 +4013,7 @@ export class DataTransferPanel {
             title: "Previewing SOQL query...",
             cancellable: false
         }, async (progress) => {
+            let service: DataTransferService | undefined;
             try {
                 progress.report({ increment: 20, message: "Validating query..." });
 
@@ -1807,10 +4058,10 @@ export class DataTransferPanel {
 
                 // Initialize connection and execute query
                 const tempTargetOrg = { ...sourceOrg };
-                await this.dataTransferService.initializeConnections(sourceOrg, tempTargetOrg);
+                service = await this._createLookupService(sourceOrg, tempTargetOrg);
 
-                // Execute the user's query as-is (respecting their LIMIT clause)
-                const result = await this.dataTransferService.executeQuery(query.trim());
+                // Execute the user's query as-is (respecting their LIMIT clause); only the first page is previewed
+                const result = await service.executeQuery(query.trim());
 
                 progress.report({ increment: 100 });
 
@@ -1830,6 +4081,8 @@ export class DataTransferPanel {
                     type: 'error',
                     data: `Query preview failed: ${error}`
                 });
+            } finally {
+                service?.dispose();
             }
         });
     }
@@ -1844,4 +4097,55 @@ export class DataTransferPanel {
             }
         }
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Turns transfer progress events into vscode.Progress increments.
+ * Each object gets an equal share of the range; within an object progress follows processed records.
+ */
+class TransferProgressTracker {
+    private objectTypes: string[] = [];
+    private completed = new Set<string>();
+    private currentFraction = 0;
+    private reported: number;
+
+    // `offset` is the share already reported by the caller before the transfer started
+    constructor(private offset: number, private range: number) {
+        this.reported = offset;
+    }
+
+    update(event: TransferProgressEvent): { increment: number; message: string } | undefined {
+        switch (event.type) {
+            case 'transferStarted':
+                this.objectTypes = event.objectTypes;
+                return undefined;
+            case 'objectStarted':
+                this.currentFraction = 0;
+                return this.report(`${event.objectType}: 0/${event.totalRecords} records`);
+            case 'batchCompleted':
+                this.currentFraction = event.totalRecords ? event.recordsProcessed / event.totalRecords : 1;
+                return this.report(`${event.objectType}: batch ${event.batchNumber}/${event.totalBatches} (${event.recordsProcessed}/${event.totalRecords} records)`);
+            case 'parentsResolved':
+                return this.report(`${event.objectType}: resolved ${event.resolved}/${event.requested} ${event.parentObject} parents`);
+            case 'objectCompleted':
+                this.completed.add(event.objectType);
+                this.currentFraction = 0;
+                return this.report(`${event.objectType}: ${event.recordsTransferred} records transferred`);
+        }
+    }
+
+    complete(): { increment: number } {
+        const increment = Math.max(0, this.offset + this.range - this.reported);
+        this.reported += increment;
+        return { increment };
+    }
+
+    private report(message: string): { increment: number; message: string } {
+        const objectCount = Math.max(this.objectTypes.length, 1);
+        const fraction = Math.min((this.completed.size + this.currentFraction) / objectCount, 1);
+        const target = this.offset + fraction * this.range;
+        const increment = Math.max(0, target - this.reported);
+        this.reported += increment;
+        return { increment, message: `${Math.round(target)}% - ${message}` };
+    }
+}